@@ -1,8 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { StrictMode } from 'react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import DebateLens from './DebateLens';
 import { useAudioProcessor } from '@/hooks/useAudioProcessor';
+import { decodeAudioFile, segmentRecording } from '@/lib/audio-import';
+import { SEGMENT_TIMEOUT_MS } from '@/hooks/useRecordingImport';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 
 vi.mock('@/hooks/useAudioProcessor', () => ({
@@ -17,6 +20,17 @@ vi.mock('@/lib/constants', async (importOriginal) => {
   };
 });
 
+vi.mock('@/lib/audio-import', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audio-import')>()),
+  decodeAudioFile: vi.fn(),
+  segmentRecording: vi.fn(),
+}));
+
+/** Most recent value saved under a key starting with `prefix`. */
+const lastSaved = (prefix: string) => JSON.parse(
+  (localStorage.setItem as any).mock.calls.filter((c: any) => c[0].startsWith(prefix)).pop()[1]
+);
+
 // Mock Worker
 class MockWorker {
   onmessage: (e: any) => void = () => {};
@@ -29,6 +43,7 @@ describe('DebateLens', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    window.history.replaceState(null, '', '/');
     
     class MockWorker {
       onmessage: (e: any) => void = () => {};
@@ -154,7 +169,7 @@ describe('DebateLens', () => {
       mockWorkerInstance.onmessage({ 
         data: { 
           status: 'fact-check-stream', 
-          text: '[True] Yes, water is wet.', 
+          factCheck: { verdict: 'True', explanation: 'Yes, water is wet.' }, 
           id: '123',
           isDone: true
         } 
@@ -185,6 +200,39 @@ describe('DebateLens', () => {
     });
   });
 
+  it('cancels fact-checks for deleted, merged and cleared transcripts', async () => {
+    // Strict mode runs state updaters twice; a merge must still cancel once
+    render(<StrictMode><DebateLens /></StrictMode>);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'The first part of a claim.', id: 'm1', speaker: 'A' } 
+      });
+    });
+    await waitFor(() => {
+      expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'fact-check', data: { text: 'The first part of a claim.', id: 'm1' } });
+    });
+
+    // A follow-up segment from the same speaker merges and supersedes the running check
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'And the second part.', id: 'm2', speaker: 'A' } 
+      });
+    });
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'cancel', data: { id: 'm1' } });
+
+    const cancelCalls = () => mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'cancel');
+    expect(cancelCalls()).toHaveLength(1);
+    fireEvent.click(screen.getByTitle('Delete transcript'));
+    expect(cancelCalls()).toHaveLength(2);
+
+    fireEvent.click(screen.getByTitle('Clear Feed'));
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'cancel-all' });
+  });
+
   it('copies transcript to clipboard', async () => {
     render(<DebateLens />);
     await act(async () => {
@@ -211,7 +259,7 @@ describe('DebateLens', () => {
 
     // Switch to Speaker B with '2'
     fireEvent.keyDown(window, { key: '2' });
-    expect(screen.getByText(/Speaker B/i)).toHaveClass('bg-red-600');
+    expect(screen.getByRole('button', { name: /Speaker B/i })).toHaveClass('bg-red-600');
 
     // Toggle listening with 'm'
     const { vad } = (useAudioProcessor as any).mock.results[0].value;
@@ -234,6 +282,45 @@ describe('DebateLens', () => {
     expect(screen.getByText('50%')).toBeInTheDocument();
   });
 
+  it('shows the WASM fallback notice while loading without WebGPU', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'progress', model: 'llm', progress: 10, backend: 'wasm' } 
+      });
+    });
+
+    expect(screen.getByText(/WebGPU is unavailable/i)).toBeInTheDocument();
+    expect(screen.getByText(/SmolLM2 360M Language Model/i)).toBeInTheDocument();
+  });
+
+  it('shows the active backend in the footer', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready', backend: 'wasm' } });
+    });
+
+    expect(await screen.findByText('WASM (CPU) Fallback')).toBeInTheDocument();
+  });
+
+  it('reloads the worker with models chosen in settings', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Settings'));
+    fireEvent.change(screen.getByLabelText('Speech Recognition'), { target: { value: 'whisper-base-en' } });
+    fireEvent.click(screen.getByText(/Apply & Reload Models/i));
+
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({
+      type: 'load',
+      data: { models: { stt: 'whisper-base-en', llm: 'phi-3-mini' } }
+    });
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_models', JSON.stringify({ stt: 'whisper-base-en', llm: 'phi-3-mini' }));
+    expect(screen.getByText(/Initializing DebateLens/i)).toBeInTheDocument();
+  });
+
   it('handles global worker errors', async () => {
     render(<DebateLens />);
     await act(async () => {
@@ -263,98 +350,1146 @@ describe('DebateLens', () => {
     );
   });
 
-  it('handles per-transcript errors', async () => {
+  it('shows interim text while speaking and replaces it with the final transcription', async () => {
     render(<DebateLens />);
     await act(async () => {
       mockWorkerInstance.onmessage({ data: { status: 'ready' } });
     });
+    const [onSpeechEnd, , interim] = (useAudioProcessor as any).mock.calls[0];
 
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'transcription', text: 'Error prone text here.', id: 'err-1', speaker: 'A' } 
-      });
+      interim.onSpeechPartial(new Float32Array(16000));
     });
+    const partialCall = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe-partial');
+    const utteranceId = partialCall[0].data.id;
+    expect(partialCall[0].data.speaker).toBe('A');
 
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'error', id: 'err-1', task: 'fact-check', error: 'API Timeout' } 
-      });
+      mockWorkerInstance.onmessage({ data: { status: 'transcription-partial', text: ' The economy grew', id: utteranceId, speaker: 'A' } });
     });
+    expect(screen.getByTestId('partial-transcript')).toHaveTextContent('The economy grew');
 
-    expect(await screen.findByText(/Error: API Timeout/i)).toBeInTheDocument();
+    // The final transcription reuses the utterance id so it can replace the interim text
+    await act(async () => {
+      onSpeechEnd(new Float32Array(32000));
+    });
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith(
+      { type: 'transcribe', data: expect.objectContaining({ id: utteranceId }) },
+      expect.any(Array)
+    );
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'The economy grew by three percent.', id: utteranceId, speaker: 'A' } });
+    });
+    expect(screen.queryByTestId('partial-transcript')).not.toBeInTheDocument();
+    expect(screen.getByText('The economy grew by three percent.')).toBeInTheDocument();
   });
 
-  it('robustly parses different fact-check formats', async () => {
+  it('drops interim text when the VAD discards the utterance', async () => {
     render(<DebateLens />);
     await act(async () => {
       mockWorkerInstance.onmessage({ data: { status: 'ready' } });
     });
+    const [, , interim] = (useAudioProcessor as any).mock.calls[0];
 
-    // Format: Verdict: Explanation
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'transcription', text: 'Format 1 is here.', id: 'f1', speaker: 'A' } 
-      });
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'fact-check-stream', text: 'False: That is not right.', id: 'f1', isDone: true } 
-      });
+      interim.onSpeechPartial(new Float32Array(16000));
     });
-    expect(await screen.findByText('False')).toBeInTheDocument();
-    expect(screen.getByText('That is not right.')).toBeInTheDocument();
+    const utteranceId = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe-partial')[0].data.id;
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription-partial', text: 'Cough', id: utteranceId, speaker: 'A' } });
+    });
+    expect(screen.getByTestId('partial-transcript')).toBeInTheDocument();
 
-    // Format: Just text with keyword
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'transcription', text: 'Format 2 is here.', id: 'f2', speaker: 'B' } 
-      });
+      interim.onSpeechDiscarded();
+    });
+    // A late result for the discarded utterance must not bring it back
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription-partial', text: 'Cough', id: utteranceId, speaker: 'A' } });
     });
+    expect(screen.queryByTestId('partial-transcript')).not.toBeInTheDocument();
+  });
 
+  it('stores word timings on the session clock', async () => {
+    render(<DebateLens />);
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'fact-check-stream', text: 'This is true because reasons.', id: 'f2', isDone: true } 
-      });
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
     });
-    expect(await screen.findByText(/True/i)).toBeInTheDocument();
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls[0][0];
+
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await act(async () => {
+      // Two seconds of audio ending now started two seconds ago
+      onSpeechEnd(new Float32Array(32000));
+    });
+    const id = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe')[0].data.id;
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: {
+        status: 'transcription',
+        text: 'Taxes went up.',
+        chunks: [{ text: 'Taxes', start: 0.2, end: 0.6 }, { text: 'went', start: 0.6, end: 0.9 }, { text: 'up.', start: 0.9, end: 1.3 }],
+        id,
+        speaker: 'A',
+      } });
+    });
+    now.mockRestore();
+
+    const saved = lastSaved('debatelens_transcripts_').transcripts;
+    expect(saved[0].words).toEqual([
+      { text: 'Taxes', start: 998_200, end: 998_600 },
+      { text: 'went', start: 998_600, end: 998_900 },
+      { text: 'up.', start: 998_900, end: 999_300 },
+    ]);
   });
 
-  it('loads transcripts from localStorage on mount', async () => {
-    const savedTranscripts = [{ id: 'saved-1', text: 'Saved text is long.', speaker: 'A', isChecking: false, timestamp: Date.now() }];
-    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify(savedTranscripts));
-    
+  it('shows the original and translated text and fact-checks the translation', async () => {
     render(<DebateLens />);
-    
     await act(async () => {
       mockWorkerInstance.onmessage({ data: { status: 'ready' } });
     });
-    
-    expect(await screen.findByText('Saved text is long.')).toBeInTheDocument();
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: {
+        status: 'transcription',
+        text: 'Los impuestos subieron mucho.',
+        language: 'es',
+        translation: 'Taxes went up a lot.',
+        id: 'es1',
+        speaker: 'B',
+      } });
+    });
+
+    expect(screen.getByText('Los impuestos subieron mucho.')).toBeInTheDocument();
+    expect(screen.getByTitle('English translation')).toHaveTextContent('Taxes went up a lot.');
+    expect(screen.getByText('es')).toHaveAttribute('title', 'Spanish');
+    await waitFor(() => {
+      expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'fact-check', data: { text: 'Taxes went up a lot.', id: 'es1' } });
+    });
   });
 
-  it('handles localStorage parse error', async () => {
-    vi.mocked(localStorage.getItem).mockReturnValue('invalid-json');
-    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    
+  it('only enables translation for multilingual speech models', async () => {
     render(<DebateLens />);
-    
-    expect(consoleSpy).toHaveBeenCalledWith('Error reading from localStorage key "debatelens_transcripts":', expect.any(Error));
-    consoleSpy.mockRestore();
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Settings'));
+    const toggle = screen.getByLabelText(/Translate to English/i);
+    expect(toggle).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Speech Recognition'), { target: { value: 'whisper-tiny' } });
+    expect(toggle).toBeEnabled();
+    fireEvent.click(toggle);
+    fireEvent.click(screen.getByText(/Apply & Reload Models/i));
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_translate', 'true');
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls.at(-1)[0];
+    await act(async () => {
+      onSpeechEnd(new Float32Array(16000));
+    });
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith(
+      { type: 'transcribe', data: expect.objectContaining({ translate: true }) },
+      expect.any(Array)
+    );
   });
 
-  it('handles the final parsing fallback', async () => {
+  it('offers playback for recorded speech and reports audio that is no longer stored', async () => {
     render(<DebateLens />);
     await act(async () => {
       mockWorkerInstance.onmessage({ data: { status: 'ready' } });
     });
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls[0][0];
+    await act(async () => {
+      onSpeechEnd(new Float32Array(16000));
+    });
+    const id = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe')[0].data.id;
 
     await act(async () => {
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'transcription', text: 'Fallback test is here.', id: 'fb-1', speaker: 'A' } 
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Taxes went up last year.', id, speaker: 'A' } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Typed claims have no audio.', id: 'typed', speaker: 'B' } });
+    });
+
+    expect(screen.getAllByTitle('Play audio')).toHaveLength(1);
+    // IndexedDB is unavailable here, so nothing was kept
+    fireEvent.click(screen.getByTitle('Play audio'));
+    expect(await screen.findByTitle('Audio no longer stored')).toBeInTheDocument();
+  });
+
+  it('stops keeping audio when storage is turned off in settings', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Settings'));
+    fireEvent.change(screen.getByLabelText('Audio Storage'), { target: { value: '0' } });
+    fireEvent.click(screen.getByText('Apply'));
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_audio_limit_mb', '0');
+
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls.at(-1)[0];
+    await act(async () => {
+      onSpeechEnd(new Float32Array(16000));
+    });
+    const id = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe')[0].data.id;
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Taxes went up last year.', id, speaker: 'A' } });
+    });
+
+    expect(screen.getByText('Taxes went up last year.')).toBeInTheDocument();
+    expect(screen.queryByTitle('Play audio')).not.toBeInTheDocument();
+  });
+
+  it('transcribes an imported recording segment by segment on its own clock', async () => {
+    (decodeAudioFile as any).mockResolvedValue(new Float32Array(16000 * 10));
+    (segmentRecording as any).mockImplementation(async function* () {
+      yield { audio: new Float32Array(16000), start: 1000, end: 2000 };
+      yield { audio: new Float32Array(16000), start: 6000, end: 7000 };
+    });
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const transcribeCalls = () => mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'transcribe');
+    const file = new File(['x'], 'debate.mp4', { type: 'video/mp4' });
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Recording file'), { target: { files: [file] } });
+    });
+
+    // The next segment waits for the previous transcription
+    await waitFor(() => expect(transcribeCalls()).toHaveLength(1));
+    expect(screen.getByText(/debate\.mp4/)).toBeInTheDocument();
+    expect(screen.getByTitle('Import Recording')).toBeDisabled();
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Taxes went up last year.', id: transcribeCalls()[0][0].data.id, speaker: 'A' } });
+    });
+    await waitFor(() => expect(transcribeCalls()).toHaveLength(2));
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '20');
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Crime fell in every city.', id: transcribeCalls()[1][0].data.id, speaker: 'A' } });
+    });
+    now.mockRestore();
+
+    await waitFor(() => expect(screen.queryByRole('progressbar')).not.toBeInTheDocument());
+    const saved = lastSaved('debatelens_transcripts_').transcripts;
+    // Five seconds apart in the recording, so not merged
+    expect(saved.map((t: any) => [t.text, t.timestamp])).toEqual([
+      ['Taxes went up last year.', 1_001_000],
+      ['Crime fell in every city.', 1_006_000],
+    ]);
+
+    // Subtitles line up with the recording, silence before the first speech included
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    fireEvent.click(screen.getByTitle('Export'));
+    fireEvent.click(screen.getByRole('menuitem', { name: /WebVTT subtitles/ }));
+    // jsdom's Blob has no text()
+    const vtt = await new Promise<string>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(createObjectURL.mock.calls[0][0]);
+    });
+    expect(vtt).toContain('00:00:01.000 --> ');
+    expect(vtt).toContain('00:00:06.000 --> ');
+  });
+
+  it('stops importing a recording when cancelled', async () => {
+    (decodeAudioFile as any).mockResolvedValue(new Float32Array(16000 * 10));
+    (segmentRecording as any).mockImplementation(async function* () {
+      yield { audio: new Float32Array(16000), start: 1000, end: 2000 };
+      yield { audio: new Float32Array(16000), start: 6000, end: 7000 };
+    });
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Recording file'), { target: { files: [new File(['x'], 'debate.wav')] } });
+    });
+    fireEvent.click(await screen.findByTitle('Cancel Import'));
+
+    await waitFor(() => expect(screen.queryByRole('progressbar')).not.toBeInTheDocument());
+    expect(mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'transcribe')).toHaveLength(1);
+  });
+
+  it('stops importing a recording when a segment is never transcribed', async () => {
+    (decodeAudioFile as any).mockResolvedValue(new Float32Array(16000 * 10));
+    (segmentRecording as any).mockImplementation(async function* () {
+      yield { audio: new Float32Array(16000), start: 1000, end: 2000 };
+      yield { audio: new Float32Array(16000), start: 6000, end: 7000 };
+    });
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      await act(async () => {
+        fireEvent.change(screen.getByLabelText('Recording file'), { target: { files: [new File(['x'], 'debate.wav')] } });
+        await vi.advanceTimersByTimeAsync(0);
       });
-      mockWorkerInstance.onmessage({ 
-        data: { status: 'fact-check-stream', text: 'Completely weird response', id: 'fb-1', isDone: true } 
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(SEGMENT_TIMEOUT_MS);
       });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(screen.getByRole('alert')).toHaveTextContent('A segment was not transcribed within 120 seconds');
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    expect(mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'transcribe')).toHaveLength(1);
+  });
+
+  it('stops importing a recording when the models are reloaded', async () => {
+    (decodeAudioFile as any).mockResolvedValue(new Float32Array(16000 * 10));
+    (segmentRecording as any).mockImplementation(async function* () {
+      yield { audio: new Float32Array(16000), start: 1000, end: 2000 };
+      yield { audio: new Float32Array(16000), start: 6000, end: 7000 };
+    });
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    const transcribeCalls = () => mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'transcribe');
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Recording file'), { target: { files: [new File(['x'], 'debate.wav')] } });
     });
-    expect(await screen.findByText('Unverified')).toBeInTheDocument();
+    await waitFor(() => expect(transcribeCalls()).toHaveLength(1));
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'progress', model: 'stt', progress: 10 } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Taxes went up last year.', id: transcribeCalls()[0][0].data.id, speaker: 'A' } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('The speech model is not ready.');
+    expect(transcribeCalls()).toHaveLength(1);
+  });
+
+  it('reports recordings that cannot be decoded', async () => {
+    (decodeAudioFile as any).mockRejectedValue(new Error('Could not decode audio from "notes.txt".'));
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Recording file'), { target: { files: [new File(['x'], 'notes.txt')] } });
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not decode audio from "notes.txt".');
+  });
+
+  it('asks the worker to diarize and flags uncertain speakers until corrected', async () => {
+    // Strict mode runs state updaters twice; the correction must still be sent once
+    render(<StrictMode><DebateLens /></StrictMode>);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Settings'));
+    fireEvent.click(screen.getByLabelText(/Detect Speakers Automatically/i));
+    fireEvent.click(screen.getByText('Apply'));
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_diarize', 'true');
+
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls.at(-1)[0];
+    await act(async () => {
+      onSpeechEnd(new Float32Array(16000));
+    });
+    const request = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'transcribe')[0];
+    expect(request.data.diarize).toBe(true);
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: {
+        status: 'transcription', text: 'Taxes went up last year.', id: request.data.id, speaker: 'B', speakerConfidence: 0.55,
+      } });
+    });
+    expect(screen.getByText('Unsure')).toHaveAttribute('title', expect.stringContaining('55%'));
+
+    fireEvent.click(screen.getByTitle('Swap Speaker'));
+    const overrides = mockWorkerInstance.postMessage.mock.calls.filter((call: any) => call[0].type === 'diarize-override');
+    expect(overrides).toEqual([[{ type: 'diarize-override', data: { id: request.data.id, speaker: 'A' } }]]);
+    expect(screen.queryByText('Unsure')).not.toBeInTheDocument();
+  });
+
+  it('manages a roster of named speakers with number-key shortcuts', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(screen.getByTitle('Manage Speakers'));
+    fireEvent.click(screen.getByText('Add Speaker'));
+    fireEvent.change(screen.getByLabelText('Name of speaker 3'), { target: { value: 'Dana Ruiz' } });
+    fireEvent.change(screen.getByLabelText('Colour of speaker 1'), { target: { value: 'amber' } });
+    fireEvent.click(screen.getByTitle('Close Speakers'));
+
+    fireEvent.keyDown(window, { key: '3' });
+    expect(screen.getByRole('button', { name: /Dana Ruiz/ })).toHaveClass('bg-green-600');
+    fireEvent.keyDown(window, { key: 'Tab' });
+    expect(screen.getByRole('button', { name: /Speaker A/ })).toHaveClass('bg-amber-600');
+    fireEvent.keyDown(window, { key: '3' });
+
+    fireEvent.change(screen.getByPlaceholderText('Enter text to fact-check as Dana Ruiz'), { target: { value: 'Crime fell in every city.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'fact-check', data: expect.objectContaining({ text: 'Crime fell in every city.' }) });
+
+    fireEvent.click(screen.getByTitle('Copy Transcript'));
+    expect(navigator.clipboard.writeText).toHaveBeenCalledWith('Dana Ruiz: Crime fell in every city.');
+
+    const saved = lastSaved('debatelens_session_').speakers;
+    expect(saved.map((s: any) => s.name)).toEqual(['Speaker A', 'Speaker B', 'Dana Ruiz']);
+
+    // A speaker with transcripts cannot be removed
+    fireEvent.click(screen.getByTitle('Manage Speakers'));
+    expect(screen.getByTitle('Dana Ruiz has transcripts')).toBeDisabled();
+    fireEvent.click(screen.getByTitle('Remove Speaker B'));
+    expect(screen.queryByLabelText('Name of speaker 3')).not.toBeInTheDocument();
+  });
+
+  it('migrates saved A/B transcripts onto a roster', async () => {
+    const savedTranscripts = [
+      { id: 'old-1', text: 'An older claim from B.', speaker: 'B', isChecking: false, timestamp: Date.now() },
+      { id: 'old-2', text: 'A claim from a third speaker.', speaker: 'C', isChecking: false, timestamp: Date.now() },
+    ];
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) =>
+      key === 'debatelens_transcripts' ? JSON.stringify(savedTranscripts) : null
+    );
+
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    expect(screen.getAllByRole('button', { name: /^Speaker [A-C]/ }).map(b => b.textContent)).toEqual(['Speaker A 1', 'Speaker B 2', 'Speaker C 3']);
+    expect(lastSaved('debatelens_session_').speakers.map((s: any) => s.id)).toEqual(['A', 'B', 'C']);
+    // The single feed becomes the first session
+    expect(localStorage.removeItem).toHaveBeenCalledWith('debatelens_transcripts');
+  });
+
+  it('keeps transcripts and speakers separate per session', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check/), { target: { value: 'The first debate had this claim.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+    expect(screen.getByText('The first debate had this claim.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Sessions'));
+    fireEvent.change(screen.getByLabelText('New session name'), { target: { value: 'Town Hall' } });
+    fireEvent.click(screen.getByText('New Session'));
+
+    // Switching cancels the previous session's queued work
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'cancel-all' });
+    await waitFor(() => expect(screen.queryByText('The first debate had this claim.')).not.toBeInTheDocument());
+    expect(screen.getByTitle('Sessions')).toHaveTextContent('Town Hall');
+
+    const dialog = screen.getByRole('dialog', { name: 'Sessions' });
+    expect(dialog).toHaveTextContent('1 transcripts');
+    const firstName = screen.getAllByLabelText(/^Name of session/).map(i => (i as HTMLInputElement).value).find(n => n !== 'Town Hall')!;
+    fireEvent.click(screen.getByTitle(`Open ${firstName}`));
+    expect(screen.getByText('The first debate had this claim.')).toBeInTheDocument();
+
+    // Archived sessions are hidden until asked for
+    fireEvent.click(screen.getByTitle('Archive Town Hall'));
+    expect(screen.queryByDisplayValue('Town Hall')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText(/Show archived/));
+    fireEvent.change(screen.getByDisplayValue('Town Hall'), { target: { value: 'County Hall' } });
+    fireEvent.blur(screen.getByDisplayValue('County Hall'));
+    expect(screen.getByTitle('Unarchive County Hall')).toBeInTheDocument();
+
+    // Deleting the open session starts a fresh one when only archived sessions remain
+    fireEvent.click(screen.getByTitle(`Delete ${firstName}`));
+    expect(vi.mocked(confirm)).toHaveBeenCalled();
+    await waitFor(() => expect(screen.queryByText('The first debate had this claim.')).not.toBeInTheDocument());
+    expect(screen.getAllByLabelText(/^Name of session/)).toHaveLength(2);
+    expect(dialog).toHaveTextContent('0 transcripts');
+  });
+
+  it('drops transcriptions that finish after switching sessions', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    const onSpeechEnd = (useAudioProcessor as any).mock.calls.at(-1)[0];
+    await act(async () => {
+      onSpeechEnd(new Float32Array(16000));
+    });
+    const id = mockWorkerInstance.postMessage.mock.calls.find((c: any) => c[0].type === 'transcribe')[0].data.id;
+
+    fireEvent.click(screen.getByTitle('Sessions'));
+    fireEvent.click(screen.getByText('New Session'));
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', id, text: 'Said in the old session.', speaker: 'A' } });
+    });
+
+    expect(screen.queryByText('Said in the old session.')).not.toBeInTheDocument();
+  });
+
+  it('warns when browser storage is full instead of silently dropping saves', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(localStorage.setItem).mockImplementation(() => {
+      throw new DOMException('Full', 'QuotaExceededError');
+    });
+
+    fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check/), { target: { value: 'Unemployment is at a record low.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/Browser storage is full/);
+    fireEvent.click(screen.getByTitle('Dismiss Warning'));
+    expect(screen.queryByText(/Browser storage is full/)).not.toBeInTheDocument();
+    consoleSpy.mockRestore();
+  });
+
+  it('exports the session in the format picked from the menu', async () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(screen.getByTitle('Export'));
+    expect(screen.getByRole('menu', { name: 'Export format' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('menuitem', { name: /WebVTT subtitles/ }));
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.objectContaining({ type: 'text/vtt' }));
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+
+  it('imports a JSON export into a new session and reports rejected records', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    const exported = JSON.stringify({
+      app: 'debatelens',
+      version: 1,
+      transcriptSchemaVersion: 2,
+      session: { name: 'Handed Off' },
+      speakers: [{ id: 'A', name: 'Moderator', color: 'amber' }],
+      transcripts: [
+        { id: 'x1', text: 'Imported from a teammate.', speaker: 'A', isChecking: false, timestamp: 1_000, lastUpdated: 1_000 },
+        { id: 'x2', speaker: 'A', isChecking: false, timestamp: 2_000, lastUpdated: 2_000 },
+      ],
+    });
+    // jsdom's File has no text()
+    const jsonFile = (name: string, text: string) => Object.assign(new File([text], name), { text: async () => text });
+
+    fireEvent.click(screen.getByTitle('Sessions'));
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Session file'), {
+        target: { files: [jsonFile('handoff.json', exported)] },
+      });
+    });
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Imported 1 transcript into Handed Off');
+    expect(screen.getByText('1 record rejected')).toBeInTheDocument();
+    expect(screen.getByText(/missing text/)).toBeInTheDocument();
+    expect(screen.getByText('Imported from a teammate.')).toBeInTheDocument();
+    expect(screen.getByTitle('Sessions')).toHaveTextContent('Handed Off');
+
+    await act(async () => {
+      fireEvent.change(screen.getByLabelText('Session file'), {
+        target: { files: [jsonFile('notes.json', 'not json')] },
+      });
+    });
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not import notes.json: The file is not valid JSON.');
+  });
+
+  it('lets an editor override a verdict and keeps the model verdict and history', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check/), { target: { value: 'Taxes doubled last year.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+    const id = mockWorkerInstance.postMessage.mock.calls.find((c: any) => c[0].type === 'fact-check')[0].data.id;
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-stream', factCheck: { verdict: 'True', explanation: 'Rates rose.', confidence: 0.7 }, id, isDone: true } });
+    });
+
+    fireEvent.click(screen.getByTitle('Review verdict'));
+    fireEvent.change(screen.getByLabelText('Verdict'), { target: { value: 'False' } });
+    fireEvent.change(screen.getByLabelText('Explanation'), { target: { value: 'Rates rose by 2%, not 100%.' } });
+    fireEvent.change(screen.getByLabelText('Reviewer name'), { target: { value: 'Sam Lee' } });
+    fireEvent.change(screen.getByLabelText('Review note'), { target: { value: 'Checked against the treasury report.' } });
+    fireEvent.click(screen.getByText('Save Review'));
+
+    expect(screen.getByText('Human Reviewed')).toHaveAttribute('title', expect.stringContaining('Sam Lee'));
+    expect(screen.getByText('Rates rose by 2%, not 100%.')).toBeInTheDocument();
+    expect(screen.getByText('Model said True (70%): Rates rose.')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Review history' })).toHaveTextContent('Sam Lee set verdict to False');
+    expect(screen.getByText(/Checked against the treasury report/)).toBeInTheDocument();
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_editor_name', '"Sam Lee"');
+
+    fireEvent.click(screen.getByTitle('Review verdict'));
+    expect(screen.getByLabelText('Reviewer name')).toHaveValue('Sam Lee');
+    fireEvent.click(screen.getByText('Revert to Model Verdict'));
+    expect(screen.queryByText('Human Reviewed')).not.toBeInTheDocument();
+    expect(screen.getByText('Rates rose.')).toBeInTheDocument();
+  });
+
+  it('re-checks transcripts on demand and keeps each result in a history', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    const factChecks = () => mockWorkerInstance.postMessage.mock.calls.filter((c: any) => c[0].type === 'fact-check').map((c: any) => c[0].data);
+    for (const text of ['Taxes doubled last year.', 'Crime fell by half.']) {
+      fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check/), { target: { value: text } });
+      fireEvent.click(screen.getByText('Submit for Fact-Check'));
+    }
+    const [first, second] = factChecks().map((d: any) => d.id);
+    const finish = (id: string, verdict: string, explanation: string, model = 'phi-3-mini') => act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-stream', factCheck: { verdict, explanation, model, promptVersion: 1 }, id, isDone: true } });
+    });
+    await finish(first, 'True', 'Rates rose.');
+    await finish(second, 'Unverified', 'No data.');
+
+    fireEvent.click(screen.getAllByTitle('Re-check')[0]);
+    expect(factChecks().pop()).toEqual({ text: 'Taxes doubled last year.', id: first });
+    expect(screen.getByText(/Analyzing Claim.../i)).toBeInTheDocument();
+    await finish(first, 'False', 'Rates rose by 2%.', 'qwen2.5-0.5b');
+
+    expect(screen.getByText('Rates rose by 2%.')).toBeInTheDocument();
+    const history = screen.getByRole('list', { name: 'Fact-check history' });
+    expect(history).toHaveTextContent('Qwen2.5 0.5B · prompt v1');
+    expect(history).toHaveTextContent('Phi-3 Mini · prompt v1');
+    fireEvent.click(within(history).getByText('Restore'));
+    expect(screen.getByText('Rates rose.')).toBeInTheDocument();
+    expect(lastSaved('debatelens_transcripts_').transcripts[0].factCheckHistory).toHaveLength(2);
+
+    // Re-check all sends one transcript at a time
+    fireEvent.click(screen.getByTitle('Re-check All'));
+    expect(screen.getByText('Re-checking transcript 1 of 2')).toBeInTheDocument();
+    expect(factChecks().pop().id).toBe(first);
+    const sent = factChecks().length;
+    await finish(first, 'True', 'Rates rose again.');
+    expect(factChecks()).toHaveLength(sent + 1);
+    expect(factChecks().pop().id).toBe(second);
+    expect(screen.getByText('Re-checking transcript 2 of 2')).toBeInTheDocument();
+    await finish(second, 'False', 'Crime rose.');
+    expect(screen.queryByLabelText('Re-check all')).not.toBeInTheDocument();
+    expect(screen.getByText('Crime rose.')).toBeInTheDocument();
+
+    // A re-check pushed out of the worker's full queue does not stall the rest
+    fireEvent.click(screen.getByTitle('Re-check All'));
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-dropped', id: first } });
+    });
+    expect(factChecks().pop().id).toBe(second);
+    expect(screen.getByText('Re-checking transcript 2 of 2')).toBeInTheDocument();
+    expect(screen.getByText('Rates rose again.')).toBeInTheDocument();
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-dropped', id: second } });
+    });
+    expect(screen.queryByText(/Re-checking transcript/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Analyzing Claim.../i)).not.toBeInTheDocument();
+  });
+
+  it('shows a live truth meter and a per-speaker scorecard', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    expect(screen.getByTitle('Truth meter: no claims checked yet')).toHaveTextContent('No claims yet');
+
+    const transcribe = async (text: string, id: string, speaker: string) => {
+      await act(async () => {
+        mockWorkerInstance.onmessage({ data: { status: 'transcription', text, id, speaker } });
+      });
+      await waitFor(() => expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'fact-check', data: expect.objectContaining({ id }) }));
+    };
+    await transcribe('Taxes doubled last year.', 'a1', 'A');
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-stream', factCheck: { verdict: 'True', explanation: 'Yes.' }, id: 'a1', isDone: true } });
+    });
+    await transcribe('Crime fell by half.', 'b1', 'B');
+    await act(async () => {
+      mockWorkerInstance.onmessage({
+        data: {
+          status: 'fact-check-stream',
+          factCheck: { verdict: 'False', explanation: '2 claims.', claims: [{ verdict: 'False', explanation: 'No.' }, { verdict: 'Unverified', explanation: 'Unclear.' }] },
+          id: 'b1',
+          isDone: true,
+        },
+      });
+    });
+
+    const meter = screen.getByTitle(/^Truth meter:/);
+    expect(meter).toHaveTextContent('33% True');
+    expect(meter).toHaveAttribute('title', 'Truth meter: 1 true (33%), 1 false (33%), 1 unverified (33%)');
+
+    fireEvent.click(meter);
+    const dialog = screen.getByRole('dialog', { name: 'Analytics' });
+    expect(within(dialog).getByText('3 claims checked')).toBeInTheDocument();
+    const rows = within(dialog).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent(/Speaker A.*1.*1 \(100%\).*0 \(0%\).*0 \(0%\)/);
+    expect(rows[2]).toHaveTextContent(/Speaker B.*2.*0 \(0%\).*1 \(50%\).*1 \(50%\)/);
+    expect(within(dialog).getByRole('list', { name: 'Verdict timeline' }).children).toHaveLength(12);
+    fireEvent.click(screen.getByTitle('Close Analytics'));
+    expect(screen.queryByRole('dialog', { name: 'Analytics' })).not.toBeInTheDocument();
+  });
+
+  it('searches and filters the feed, keeps filters in the URL and copies the filtered view', async () => {
+    window.history.replaceState(null, '', '/?tab=live&review=unreviewed');
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    expect(screen.getByRole('button', { name: 'Filters' })).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByLabelText('Review status')).toHaveValue('unreviewed');
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Taxes doubled last year.', id: 'a1', speaker: 'A' } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'Hello everyone, welcome.', id: 'b1', speaker: 'B' } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-stream', factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' }, id: 'b1', isDone: true } });
+    });
+
+    fireEvent.change(screen.getByLabelText('Review status'), { target: { value: 'all' } });
+    fireEvent.change(screen.getByLabelText('Search transcripts'), { target: { value: 'taxes' } });
+    expect(screen.getByTestId('search-match')).toHaveTextContent('Taxes');
+    await waitFor(() => expect(screen.queryByText('Hello everyone, welcome.')).not.toBeInTheDocument());
+    expect(screen.getByText('Showing 1 of 2')).toBeInTheDocument();
+    expect(window.location.search).toBe('?tab=live&q=taxes');
+
+    fireEvent.change(screen.getByLabelText('Search transcripts'), { target: { value: '' } });
+    const verdicts = screen.getByRole('group', { name: 'Filter by verdict' });
+    fireEvent.click(within(verdicts).getByText('Unchecked'));
+    fireEvent.click(within(verdicts).getByText('True'));
+    expect(within(verdicts).getByText('True')).toHaveAttribute('aria-pressed', 'true');
+    expect(window.location.search).toBe('?tab=live&verdict=unchecked%2CTrue');
+    await waitFor(() => expect(screen.queryByText('Hello everyone, welcome.')).not.toBeInTheDocument());
+
+    fireEvent.click(screen.getByTitle('Copy Transcript'));
+    expect(navigator.clipboard.writeText).toHaveBeenLastCalledWith(expect.stringContaining('Hello everyone'));
+    fireEvent.click(screen.getByLabelText('Copy and export filtered view only'));
+    fireEvent.click(screen.getByTitle('Copy Transcript'));
+    expect(navigator.clipboard.writeText).toHaveBeenLastCalledWith('Speaker A: Taxes doubled last year.');
+
+    fireEvent.click(screen.getByText('Clear Filters'));
+    expect(window.location.search).toBe('?tab=live');
+    expect(await screen.findByText('Hello everyone, welcome.')).toBeInTheDocument();
+  });
+
+  it('renders only the transcripts near the viewport and follows the live end', async () => {
+    // jsdom has no layout: rows are 100px tall, spacers take their style height
+    const scrollTops = new WeakMap<Element, number>();
+    const layout: Record<string, PropertyDescriptor> = {
+      clientHeight: { get: () => 500 },
+      offsetHeight: { get: () => 100 },
+      scrollHeight: {
+        get(this: HTMLElement) {
+          return Array.from(this.children).reduce((sum, child) => sum + (parseFloat((child as HTMLElement).style.height) || 100), 0);
+        },
+      },
+      scrollTop: {
+        get(this: HTMLElement) { return scrollTops.get(this) ?? 0; },
+        set(this: HTMLElement, value: number) { scrollTops.set(this, value); },
+      },
+    };
+    for (const [name, descriptor] of Object.entries(layout)) {
+      Object.defineProperty(HTMLElement.prototype, name, { ...descriptor, configurable: true });
+    }
+
+    try {
+      render(<DebateLens />);
+      await act(async () => {
+        mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+      });
+      const transcripts = Array.from({ length: 200 }, (_, i) => ({
+        id: `long-${i}`, text: `Segment number ${i}.`, speaker: 'A', isChecking: false, timestamp: i * 1_000, lastUpdated: i * 1_000,
+      }));
+      const text = JSON.stringify({ app: 'debatelens', version: 1, session: { name: 'Marathon' }, transcripts });
+      fireEvent.click(screen.getByTitle('Sessions'));
+      await act(async () => {
+        fireEvent.change(screen.getByLabelText('Session file'), {
+          target: { files: [Object.assign(new File([text], 'marathon.json'), { text: async () => text })] },
+        });
+      });
+      fireEvent.click(screen.getByTitle('Close Sessions'));
+
+      expect(await screen.findByText('Segment number 199.')).toBeInTheDocument();
+      expect(screen.queryByText('Segment number 0.')).not.toBeInTheDocument();
+      expect(screen.getAllByText(/^Segment number/).length).toBeLessThan(40);
+      expect(screen.queryByText('Jump to Live')).not.toBeInTheDocument();
+
+      const feed = screen.getByRole('main');
+      act(() => {
+        feed.scrollTop = 0;
+        fireEvent.scroll(feed);
+      });
+      expect(screen.getByText('Segment number 0.')).toBeInTheDocument();
+      expect(screen.queryByText('Segment number 199.')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Jump to Live'));
+      expect(screen.getByText('Segment number 199.')).toBeInTheDocument();
+      expect(screen.queryByText('Jump to Live')).not.toBeInTheDocument();
+    } finally {
+      for (const name of Object.keys(layout)) {
+        delete (HTMLElement.prototype as any)[name];
+      }
+    }
+  });
+
+  it('sends preceding turns with a fact-check and shows the rewritten claim', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'I changed the school budget.', id: 'c1', speaker: 'A' } });
+    });
+    await waitFor(() => expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({ type: 'fact-check', data: { text: 'I changed the school budget.', id: 'c1' } }));
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text: 'So he cut it by half.', id: 'c2', speaker: 'B' } });
+    });
+    await waitFor(() => expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({
+      type: 'fact-check',
+      data: {
+        text: 'So he cut it by half.',
+        id: 'c2',
+        context: { speaker: 'Speaker B', turns: [{ speaker: 'Speaker A', text: 'I changed the school budget.' }] },
+      },
+    }));
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({
+        data: {
+          status: 'fact-check-stream',
+          factCheck: { verdict: 'False', explanation: 'It fell 10%.', resolvedClaim: 'Speaker A cut the school budget by half' },
+          id: 'c2',
+          isDone: true,
+        },
+      });
+    });
+    expect(screen.getByText('It fell 10%.')).toBeInTheDocument();
+    expect(screen.getByText('Checked as').closest('p')).toHaveTextContent('Checked as “Speaker A cut the school budget by half”');
+  });
+
+  it('edits, versions and tests prompt templates and checks with the one in use', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(screen.getByTitle('Settings'));
+    expect(screen.getByText('General · v1')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Edit Templates'));
+    const dialog = screen.getByRole('dialog', { name: 'Prompt Templates' });
+
+    fireEvent.change(within(dialog).getByLabelText('Template'), { target: { value: 'politics' } });
+    const rules = within(dialog).getByLabelText('Rules, One Per Line') as HTMLTextAreaElement;
+    fireEvent.change(rules, { target: { value: `${rules.value}\nName the office a figure comes from.` } });
+    expect(within(dialog).getByLabelText('Prompt preview')).toHaveTextContent('6. Name the office a figure comes from.');
+    fireEvent.click(within(dialog).getByText('Save as Copy'));
+
+    const [saved] = lastSaved('debatelens_prompt_templates');
+    expect(saved).toMatchObject({ name: 'Politics (custom)', version: 1 });
+    expect(within(dialog).getByLabelText('Template')).toHaveValue(saved.id);
+    expect(within(dialog).getByText('Save Template')).toBeDisabled();
+
+    fireEvent.change(within(dialog).getByLabelText('System Prompt'), { target: { value: 'You check claims made in city council meetings.' } });
+    fireEvent.click(within(dialog).getByText('Save Template'));
+    expect(within(dialog).getByRole('option', { name: 'Politics (custom) · v2' })).toBeInTheDocument();
+    fireEvent.click(within(dialog).getByText('Use This Template'));
+    expect(within(dialog).getByText('In use')).toBeInTheDocument();
+
+    fireEvent.change(within(dialog).getByLabelText('Sample Sentences, Up To 5'), { target: { value: 'The council has nine members.' } });
+    fireEvent.click(within(dialog).getByText('Run Test'));
+    const test = mockWorkerInstance.postMessage.mock.calls.find((c: any) => c[0].type === 'fact-check')[0];
+    expect(test.data).toMatchObject({ text: 'The council has nine members.', template: { id: saved.id, version: 2 } });
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-stream', factCheck: { verdict: 'False', explanation: 'It has seven.' }, id: test.data.id, isDone: true } });
+    });
+    expect(within(screen.getByRole('list', { name: 'Test results' })).getByText('It has seven.')).toBeInTheDocument();
+    expect(within(screen.getByRole('main')).queryByText(/council/)).not.toBeInTheDocument();
+
+    // A sample pushed out of the worker's full queue stops waiting for a result
+    fireEvent.change(within(dialog).getByLabelText('Sample Sentences, Up To 5'), { target: { value: 'The council has nine members.\nIt meets weekly.' } });
+    fireEvent.click(within(dialog).getByText('Run Test'));
+    const [dropped] = mockWorkerInstance.postMessage.mock.calls.filter((c: any) => c[0].type === 'fact-check').slice(-2);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'fact-check-dropped', id: dropped[0].data.id } });
+    });
+    const results = within(screen.getByRole('list', { name: 'Test results' })).getAllByRole('listitem');
+    expect(results[0]).toHaveTextContent('Not checked: too many fact-checks were waiting.');
+    expect(results[0]).not.toHaveTextContent('Checking...');
+    expect(results[1]).toHaveTextContent('Checking...');
+
+    fireEvent.click(within(dialog).getByTitle('Close Prompt Templates'));
+    fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check/), { target: { value: 'The mayor serves four years.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+    expect(mockWorkerInstance.postMessage).toHaveBeenLastCalledWith({
+      type: 'fact-check',
+      data: expect.objectContaining({ text: 'The mayor serves four years.', template: expect.objectContaining({ id: saved.id, version: 2 }) }),
+    });
+    expect(lastSaved('debatelens_prompt_template')).toBe(saved.id);
+  });
+
+  it('handles per-transcript errors', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'Error prone text here.', id: 'err-1', speaker: 'A' } 
+      });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'error', id: 'err-1', task: 'fact-check', error: 'API Timeout' } 
+      });
+    });
+
+    expect(await screen.findByText(/Error: API Timeout/i)).toBeInTheDocument();
+  });
+
+  it('renders partial verdicts while streaming and settles on the final one', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'Format 1 is here.', id: 'f1', speaker: 'A' } 
+      });
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'fact-check-stream', factCheck: { verdict: 'False', explanation: '' }, id: 'f1', isDone: false } 
+      });
+    });
+    expect(await screen.findByText('False')).toBeInTheDocument();
+    expect(screen.getByText('Analyzing...')).toBeInTheDocument();
+    expect(screen.getByText(/Analyzing Claim.../i)).toBeInTheDocument();
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'fact-check-stream', factCheck: { verdict: 'False', explanation: 'That is not right.' }, id: 'f1', isDone: true } 
+      });
+    });
+    expect(screen.getByText('That is not right.')).toBeInTheDocument();
+    expect(screen.queryByText(/Analyzing Claim.../i)).not.toBeInTheDocument();
+  });
+
+  it('highlights each claim inline and lists their verdicts', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    const text = 'Paris is the capital of France and it has 20 million people.';
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'transcription', text, id: 'mc', speaker: 'A' } });
+    });
+    await act(async () => {
+      mockWorkerInstance.onmessage({
+        data: {
+          status: 'fact-check-stream',
+          id: 'mc',
+          isDone: true,
+          factCheck: {
+            verdict: 'False',
+            explanation: '2 claims: 1 false, 1 true.',
+            claims: [
+              { verdict: 'True', explanation: 'Correct.', claim: { text: 'Paris is the capital of France', start: 0, end: 30 } },
+              { verdict: 'False', explanation: 'About 2 million.', claim: { text: 'it has 20 million people', start: 35, end: 59 } },
+            ],
+          },
+        },
+      });
+    });
+
+    const marks = document.querySelectorAll('mark');
+    expect(marks).toHaveLength(2);
+    expect(marks[1]).toHaveTextContent('it has 20 million people');
+    expect(marks[1]).toHaveClass('decoration-red-400');
+    expect(screen.getByText('2 claims: 1 false, 1 true.')).toBeInTheDocument();
+    expect(screen.getByText('About 2 million.')).toBeInTheDocument();
+  });
+
+  it('hides the verdict card for non-claims', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'Hello everyone and welcome.', id: 'n1', speaker: 'A' } 
+      });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'fact-check-stream', factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' }, id: 'n1', isDone: true } 
+      });
+    });
+
+    expect(await screen.findByText('Hello everyone and welcome.')).toBeInTheDocument();
+    expect(screen.queryByText('Unverified')).not.toBeInTheDocument();
+    expect(screen.queryByText(/Analyzing Claim.../i)).not.toBeInTheDocument();
+  });
+
+  it('imports pasted text into the knowledge base and shows indexing progress', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Knowledge Base'));
+    fireEvent.change(screen.getByPlaceholderText('Title'), { target: { value: 'Atlas' } });
+    fireEvent.change(screen.getByLabelText('Paste Text'), { target: { value: 'Paris is the capital of France.' } });
+    fireEvent.click(screen.getByText('Add Text'));
+
+    const indexCall = mockWorkerInstance.postMessage.mock.calls.find((call: any) => call[0].type === 'kb-index');
+    expect(indexCall[0].data).toEqual({
+      document: { id: expect.any(String), title: 'Atlas', type: 'text' },
+      passages: ['Paris is the capital of France.'],
+    });
+
+    const docId = indexCall[0].data.document.id;
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'kb-progress', id: docId, progress: 50 } });
+    });
+    expect(screen.getByText('50%')).toBeInTheDocument();
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'error', task: 'kb-index', id: docId, error: 'Out of memory' } });
+    });
+    expect(screen.getByText('Indexing failed: Out of memory')).toBeInTheDocument();
+    expect(screen.queryByText('50%')).not.toBeInTheDocument();
+  });
+
+  it('shows the knowledge base passages a verdict cites', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'Paris is the capital of France.', id: 's1', speaker: 'A' } 
+      });
+    });
+
+    const source = { ref: 1, documentId: 'doc1', title: 'Atlas', text: 'Paris is the capital of France.', score: 0.9 };
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: {
+          status: 'fact-check-stream',
+          factCheck: { verdict: 'True', explanation: 'Confirmed by [1].', sources: [source] },
+          id: 's1',
+          isDone: true,
+        } 
+      });
+    });
+
+    expect(await screen.findByText('Confirmed by [1].')).toBeInTheDocument();
+    expect(screen.getByText('Atlas')).toBeInTheDocument();
+    expect(screen.getByText('[1]')).toBeInTheDocument();
+  });
+
+  it('sends the confidence threshold chosen in settings with fact-checks', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    fireEvent.click(await screen.findByTitle('Settings'));
+    fireEvent.change(screen.getByLabelText(/Minimum Confidence/i), { target: { value: '0.6' } });
+    fireEvent.click(screen.getByText('Apply'));
+    expect(localStorage.setItem).toHaveBeenCalledWith('debatelens_confidence_threshold', '0.6');
+
+    fireEvent.change(screen.getByPlaceholderText(/Enter text to fact-check as Speaker A/i), { target: { value: 'This is a manual test claim.' } });
+    fireEvent.click(screen.getByText('Submit for Fact-Check'));
+
+    expect(mockWorkerInstance.postMessage).toHaveBeenCalledWith({
+      type: 'fact-check',
+      data: { text: 'This is a manual test claim.', id: expect.any(String), confidenceThreshold: 0.6 }
+    });
+  });
+
+  it('shows a confidence meter and explains downgraded verdicts', async () => {
+    render(<DebateLens />);
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: { status: 'transcription', text: 'The moon is made of cheese.', id: 'cf1', speaker: 'A' } 
+      });
+    });
+
+    await act(async () => {
+      mockWorkerInstance.onmessage({ 
+        data: {
+          status: 'fact-check-stream',
+          factCheck: { verdict: 'Unverified', explanation: 'Hard to say.', confidence: 0.42, downgradedFrom: 'False' },
+          id: 'cf1',
+          isDone: true,
+        } 
+      });
+    });
+
+    const meter = await screen.findByRole('meter');
+    expect(meter).toHaveAttribute('aria-valuenow', '42');
+    expect(screen.getByText('42%')).toBeInTheDocument();
+    expect(screen.getByText(/Model said False, below your confidence threshold/i)).toBeInTheDocument();
+  });
+
+  it('loads transcripts from localStorage on mount', async () => {
+    const savedTranscripts = [{ id: 'saved-1', text: 'Saved text is long.', speaker: 'A', isChecking: false, timestamp: Date.now() }];
+    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify(savedTranscripts));
+    
+    render(<DebateLens />);
+    
+    await act(async () => {
+      mockWorkerInstance.onmessage({ data: { status: 'ready' } });
+    });
+    
+    expect(await screen.findByText('Saved text is long.')).toBeInTheDocument();
+  });
+
+  it('handles localStorage parse error', async () => {
+    vi.mocked(localStorage.getItem).mockReturnValue('invalid-json');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    
+    render(<DebateLens />);
+    
+    expect(consoleSpy).toHaveBeenCalledWith('Error reading from localStorage key "debatelens_transcripts":', expect.any(Error));
+    consoleSpy.mockRestore();
   });
 
   it('handles manual text submission', async () => {
@@ -0,0 +1,133 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CLAIM_VERDICTS, ClaimVerdict, DebateAnalytics, verdictRate } from '@/lib/analytics';
+import { formatDuration } from '@/lib/sessions';
+import { findSpeaker, Speaker, SPEAKER_STYLES } from '@/lib/speakers';
+import { describeVerdicts, VerdictBar } from './TruthMeter';
+
+const VERDICT_TEXT: Record<ClaimVerdict, string> = {
+  True: "text-green-400",
+  False: "text-red-400",
+  Unverified: "text-yellow-400",
+};
+
+const BAR_FILL: Record<ClaimVerdict, string> = {
+  True: "bg-green-400",
+  False: "bg-red-400",
+  Unverified: "bg-yellow-400",
+};
+
+const clockTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function VerdictTimeline({ timeline }: { timeline: DebateAnalytics['timeline'] }) {
+  const peak = Math.max(...timeline.map(b => b.verdicts.True + b.verdicts.False + b.verdicts.Unverified), 1);
+
+  return (
+    <figure className="space-y-2">
+      <figcaption className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Verdicts over time</figcaption>
+      <ol className="flex items-end gap-1 h-28" aria-label="Verdict timeline">
+        {timeline.map((bucket, i) => {
+          const total = bucket.verdicts.True + bucket.verdicts.False + bucket.verdicts.Unverified;
+          return (
+            <li
+              key={i}
+              className="flex-1 flex flex-col-reverse h-full rounded-sm bg-slate-800/40 overflow-hidden"
+              title={`${clockTime(bucket.start)}–${clockTime(bucket.end)}: ${total > 0 ? describeVerdicts(bucket.verdicts) : 'no claims'}`}
+            >
+              {CLAIM_VERDICTS.map(v => bucket.verdicts[v] > 0 && (
+                <div key={v} className={BAR_FILL[v]} style={{ height: `${(bucket.verdicts[v] / peak) * 100}%` }} />
+              ))}
+            </li>
+          );
+        })}
+      </ol>
+      <div className="flex justify-between text-[10px] font-mono text-slate-500">
+        <span>{clockTime(timeline[0].start)}</span>
+        <span>{clockTime(timeline[timeline.length - 1].end)}</span>
+      </div>
+    </figure>
+  );
+}
+
+interface AnalyticsPanelProps {
+  analytics: DebateAnalytics;
+  speakers: Speaker[];
+  onClose: () => void;
+}
+
+export function AnalyticsPanel({ analytics, speakers, onClose }: AnalyticsPanelProps) {
+  const active = analytics.speakers.filter(s => s.transcripts > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Analytics">
+      <div className="w-full max-w-2xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Analytics</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Analytics"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {active.length === 0 ? (
+            <p className="text-xs text-slate-500">Nothing has been said in this session yet.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <p className="text-xs text-slate-400">
+                  <span className="font-bold text-slate-200">{analytics.claims} claim{analytics.claims === 1 ? '' : 's'} checked</span>
+                  {analytics.claims > 0 && `: ${describeVerdicts(analytics.verdicts)}`}
+                </p>
+                <VerdictBar counts={analytics.verdicts} className="h-2" />
+              </div>
+
+              <table className="w-full text-xs text-slate-300">
+                <caption className="text-left text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 pb-2">Speaker scorecard</caption>
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                    <th scope="col" className="text-left font-bold py-1">Speaker</th>
+                    <th scope="col" className="text-right font-bold py-1">Talk time</th>
+                    <th scope="col" className="text-right font-bold py-1">Claims</th>
+                    {CLAIM_VERDICTS.map(v => (
+                      <th key={v} scope="col" className={cn("text-right font-bold py-1", VERDICT_TEXT[v])}>{v}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {active.map(s => {
+                    const speaker = findSpeaker(speakers, s.speaker);
+                    return (
+                      <tr key={s.speaker} className="border-t border-slate-800">
+                        <th scope="row" className="text-left font-bold py-2">
+                          <span className="flex items-center gap-2">
+                            <span className={cn("w-2 h-2 rounded-full shrink-0", SPEAKER_STYLES[speaker.color].dot)} />
+                            {speaker.name}
+                          </span>
+                        </th>
+                        <td className="text-right font-mono py-2">{formatDuration(s.talkTimeMs)}</td>
+                        <td className="text-right font-mono py-2">{s.claims}</td>
+                        {CLAIM_VERDICTS.map(v => (
+                          <td key={v} className="text-right font-mono py-2">
+                            {s.verdicts[v]} <span className="opacity-50">({Math.round(verdictRate(s.verdicts, v) * 100)}%)</span>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {analytics.timeline.length > 0 && <VerdictTimeline timeline={analytics.timeline} />}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,66 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useDeferredValue } from 'react';
+import { Loader2 } from 'lucide-react';
 import { useDebateManager } from '@/hooks/useDebateManager';
+import { useSegmentAudio } from '@/hooks/useSegmentAudio';
+import { useTranscriptFilter } from '@/hooks/useTranscriptFilter';
 import { Header } from './Header';
 import { ManualInput } from './ManualInput';
 import { TranscriptList } from './TranscriptList';
 import { StatusOverlay } from './StatusOverlay';
-import { exportToMarkdown } from '@/lib/export-utils';
+import { SettingsPanel } from './SettingsPanel';
+import { KnowledgeBasePanel } from './KnowledgeBasePanel';
+import { PromptTemplatePanel } from './PromptTemplatePanel';
+import { RecordingImportBar } from './RecordingImportBar';
+import { RecheckBar } from './RecheckBar';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import { FilterBar } from './FilterBar';
+import { SpeakerRosterPanel } from './SpeakerRosterPanel';
+import { SessionBrowser } from './SessionBrowser';
+import { StorageWarningBar } from './StorageWarningBar';
+import { exportSession, ExportFormat } from '@/lib/export-utils';
+import { analyzeDebate } from '@/lib/analytics';
+import { filterTranscripts, isFilterActive } from '@/lib/transcript-filter';
+import { resolveModel } from '@/lib/model-registry';
+import { findSpeaker, speakerName } from '@/lib/speakers';
+import { storage } from '@/lib/storage';
 
+/** Waits for saved sessions to load before the manager reads them. */
 export default function DebateLens() {
+  const [storageLoaded, setStorageLoaded] = useState(storage.isLoaded);
+
+  useEffect(() => {
+    if (!storageLoaded) storage.load().then(() => setStorageLoaded(true));
+  }, [storageLoaded]);
+
+  if (!storageLoaded) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950 text-slate-400 text-sm gap-4">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+        Loading saved sessions...
+      </div>
+    );
+  }
+  return <DebateLensApp />;
+}
+
+function DebateLensApp() {
   const {
+    sessions,
+    activeSessionId,
+    createSession,
+    openSession,
+    importSession,
+    renameSession,
+    archiveSession,
+    deleteSession,
     transcripts,
+    partialTranscript,
+    speakers,
+    addSpeaker,
+    updateSpeaker,
+    removeSpeaker,
     activeSpeaker,
     setActiveSpeaker,
     status,
@@ -19,37 +69,95 @@ export default function DebateLens() {
     selectedDevice,
     setSelectedDevice,
     progress,
+    backend,
+    modelSelection,
+    changeModels,
+    confidenceThreshold,
+    changeConfidenceThreshold,
+    translate,
+    changeTranslate,
+    diarize,
+    changeDiarize,
+    audioLimitMB,
+    changeAudioLimit,
+    knowledge,
+    promptTemplates,
+    recording,
+    storageWarning,
+    dismissStorageWarning,
     vad,
     clearFeed,
     deleteTranscript,
     swapSpeaker,
+    editorName,
+    reviewVerdict,
+    revertVerdict,
+    recheckTranscript,
+    recheckAll,
+    stopRecheckAll,
+    recheckProgress,
+    restoreFactCheck,
     manualSubmit,
     toggleListening,
   } = useDebateManager();
+  const [showSettings, setShowSettings] = useState(false);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const { filter, updateFilter, clearFilter } = useTranscriptFilter();
+  const [filteredOutput, setFilteredOutput] = useState(false);
+  const filterActive = isFilterActive(filter);
+  // Passes over the whole feed lag behind streamed tokens and run when React is idle
+  const settledTranscripts = useDeferredValue(transcripts);
+  const visibleTranscripts = useMemo(
+    () => filterActive ? filterTranscripts(settledTranscripts, filter) : transcripts,
+    [filterActive, settledTranscripts, transcripts, filter]
+  );
+  // What copy and export use
+  const outputTranscripts = filterActive && filteredOutput ? visibleTranscripts : transcripts;
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+  const analytics = useMemo(() => analyzeDebate(settledTranscripts, speakers), [settledTranscripts, speakers]);
+  const speakingIds = useMemo(() => new Set(settledTranscripts.map(t => t.speaker)), [settledTranscripts]);
+  const { playingId, missingIds, play, stop } = useSegmentAudio();
+
+  const handleTogglePlay = useCallback((id: string) => {
+    if (playingId === id) stop();
+    else play(id);
+  }, [playingId, play, stop]);
 
   const handleCopy = useCallback(() => {
-    const text = transcripts.map(t => {
+    const text = outputTranscripts.map(t => {
       const verdict = t.factCheck?.verdict && t.factCheck.verdict !== 'NOT_A_CLAIM' 
         ? ` [Verdict: ${t.factCheck.verdict}]` 
         : '';
-      return `Speaker ${t.speaker}: ${t.text}${verdict}`;
+      return `${speakerName(speakers, t.speaker)}: ${t.text}${verdict}`;
     }).join('\n\n');
     navigator.clipboard.writeText(text);
-  }, [transcripts]);
+  }, [outputTranscripts, speakers]);
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    if (activeSession) exportSession(format, { session: activeSession, speakers, transcripts: outputTranscripts });
+  }, [activeSession, outputTranscripts, speakers]);
 
-  const handleExport = useCallback(() => {
-    exportToMarkdown(transcripts);
-  }, [transcripts]);
+  // A backup ignores the filters
+  const handleBackup = useCallback(() => {
+    if (activeSession) exportSession('json', { session: activeSession, speakers, transcripts });
+  }, [activeSession, transcripts, speakers]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
 
-      if (e.key === '1') setActiveSpeaker('A');
-      if (e.key === '2') setActiveSpeaker('B');
+      const shortcut = /^[1-9]$/.test(e.key) ? speakers[Number(e.key) - 1] : undefined;
+      if (shortcut) setActiveSpeaker(shortcut.id);
       if (e.key === 'Tab') {
         e.preventDefault();
-        setActiveSpeaker(prev => prev === 'A' ? 'B' : 'A');
+        setActiveSpeaker(prev => {
+          const index = speakers.findIndex(s => s.id === prev);
+          return speakers[(index + 1) % speakers.length].id;
+        });
       }
       if (e.key === 'm') toggleListening();
       if (e.key === 'c' && (e.ctrlKey || e.metaKey)) {
@@ -59,44 +167,188 @@ export default function DebateLens() {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [toggleListening, clearFeed, setActiveSpeaker]);
+  }, [toggleListening, clearFeed, setActiveSpeaker, speakers]);
+
+  const activeBackend = backend ?? 'webgpu';
+  const models = {
+    stt: resolveModel(modelSelection.stt, 'stt', activeBackend),
+    llm: resolveModel(modelSelection.llm, 'llm', activeBackend),
+  };
 
   if (status !== 'ready') {
-    return <StatusOverlay status={status} errorMessage={errorMessage} progress={progress} />;
+    return <StatusOverlay status={status} errorMessage={errorMessage} progress={progress} backend={backend} models={models} />;
   }
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-100 font-sans selection:bg-blue-500/30">
       <Header 
+        sessionName={activeSession?.name ?? 'Untitled Session'}
+        onOpenSessions={() => setShowSessions(true)}
+        analytics={analytics}
+        onOpenAnalytics={() => setShowAnalytics(true)}
         listening={vad.listening}
         userSpeaking={vad.userSpeaking}
         selectedDevice={selectedDevice}
         setSelectedDevice={setSelectedDevice}
         devices={devices}
+        speakers={speakers}
         activeSpeaker={activeSpeaker}
         setActiveSpeaker={setActiveSpeaker}
+        onOpenSpeakers={() => setShowSpeakers(true)}
         onCopy={handleCopy}
         onClear={clearFeed}
         onExport={handleExport}
+        onRecheckAll={recheckAll}
+        recheckDisabled={recheckProgress !== null || transcripts.length === 0}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenKnowledgeBase={() => setShowKnowledgeBase(true)}
+        onImportRecording={recording.importRecording}
+        importing={recording.job !== null}
         onToggleListening={toggleListening}
       />
 
+      <RecordingImportBar
+        job={recording.job}
+        error={recording.error}
+        onCancel={recording.cancel}
+      />
+
+      <RecheckBar progress={recheckProgress} onStop={stopRecheckAll} />
+
+      <StorageWarningBar
+        warning={storageWarning}
+        onExport={handleBackup}
+        onDismiss={dismissStorageWarning}
+      />
+
       <ManualInput 
-        activeSpeaker={activeSpeaker}
+        activeSpeaker={findSpeaker(speakers, activeSpeaker)}
         onManualSubmit={manualSubmit}
       />
 
+      <FilterBar
+        filter={filter}
+        speakers={speakers}
+        shown={visibleTranscripts.length}
+        total={transcripts.length}
+        onChange={updateFilter}
+        onClear={clearFilter}
+        filteredOutput={filteredOutput}
+        onFilteredOutputChange={setFilteredOutput}
+      />
+
       <TranscriptList 
-        transcripts={transcripts}
+        transcripts={visibleTranscripts}
+        speakers={speakers}
+        partial={partialTranscript}
         onDelete={deleteTranscript}
         onSwap={swapSpeaker}
+        playingId={playingId}
+        missingAudioIds={missingIds}
+        onTogglePlay={handleTogglePlay}
+        editorName={editorName}
+        onReview={reviewVerdict}
+        onRevertReview={revertVerdict}
+        onRecheck={recheckTranscript}
+        onRestoreFactCheck={restoreFactCheck}
+        highlight={filter.query}
+        filtered={filterActive && transcripts.length > 0}
       />
 
+      {showSettings && (
+        <SettingsPanel
+          backend={activeBackend}
+          models={{ stt: models.stt.id, llm: models.llm.id }}
+          onApplyModels={changeModels}
+          confidenceThreshold={confidenceThreshold}
+          onApplyConfidenceThreshold={changeConfidenceThreshold}
+          translate={translate}
+          onApplyTranslate={changeTranslate}
+          diarize={diarize}
+          onApplyDiarize={changeDiarize}
+          audioLimitMB={audioLimitMB}
+          onApplyAudioLimit={changeAudioLimit}
+          promptTemplate={promptTemplates.activeTemplate}
+          onOpenPromptTemplates={() => {
+            setShowSettings(false);
+            setShowPromptTemplates(true);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showPromptTemplates && (
+        <PromptTemplatePanel
+          templates={promptTemplates.templates}
+          activeTemplateId={promptTemplates.activeTemplate.id}
+          promptFormat={models.llm.promptFormat ?? 'phi3'}
+          canTest={status === 'ready'}
+          testResults={promptTemplates.testResults}
+          onUse={promptTemplates.selectTemplate}
+          onSave={promptTemplates.saveTemplate}
+          onDelete={promptTemplates.deleteTemplate}
+          onTest={promptTemplates.testTemplate}
+          onClearTest={promptTemplates.clearTest}
+          onClose={() => {
+            promptTemplates.clearTest();
+            setShowPromptTemplates(false);
+          }}
+        />
+      )}
+
+      {showSpeakers && (
+        <SpeakerRosterPanel
+          speakers={speakers}
+          speakingIds={speakingIds}
+          onAdd={addSpeaker}
+          onUpdate={updateSpeaker}
+          onRemove={removeSpeaker}
+          onClose={() => setShowSpeakers(false)}
+        />
+      )}
+
+      {showAnalytics && (
+        <AnalyticsPanel
+          analytics={analytics}
+          speakers={speakers}
+          onClose={() => setShowAnalytics(false)}
+        />
+      )}
+
+      {showSessions && (
+        <SessionBrowser
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onCreate={createSession}
+          onOpen={openSession}
+          onImport={importSession}
+          onRename={renameSession}
+          onArchive={archiveSession}
+          onDelete={deleteSession}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {showKnowledgeBase && (
+        <KnowledgeBasePanel
+          documents={knowledge.documents}
+          indexing={knowledge.indexing}
+          error={knowledge.error}
+          onImportFile={knowledge.importFile}
+          onImportText={knowledge.importText}
+          onDelete={knowledge.deleteDocument}
+          onClose={() => setShowKnowledgeBase(false)}
+        />
+      )}
+
       <footer className="px-6 py-3 text-[9px] flex justify-between items-center text-slate-600 uppercase tracking-[0.3em] font-bold border-t border-slate-900 bg-slate-950">
         <div className="flex gap-4">
-          <span>WebGPU Active</span>
-          <span>Whisper-Tiny</span>
-          <span>Phi-3 Mini</span>
+          <span className={backend === 'wasm' ? 'text-yellow-600' : undefined}>
+            {backend === 'wasm' ? 'WASM (CPU) Fallback' : 'WebGPU Active'}
+          </span>
+          <span>{models.stt.label}</span>
+          <span>{models.llm.label}</span>
+          {knowledge.documents.length > 0 && <span>{knowledge.documents.length} KB Docs</span>}
         </div>
         <div className="hidden sm:block">
           DebateLens v0.3.0 • Real-time Fact-Checking
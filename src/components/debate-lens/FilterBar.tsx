@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Speaker, SPEAKER_STYLES } from '@/lib/speakers';
+import { isFilterActive, ReviewFilter, TranscriptFilter, VERDICT_FILTERS } from '@/lib/transcript-filter';
+
+interface FilterBarProps {
+  filter: TranscriptFilter;
+  speakers: Speaker[];
+  shown: number;
+  total: number;
+  onChange: (changes: Partial<TranscriptFilter>) => void;
+  onClear: () => void;
+  /** Copy and export only the filtered transcripts. */
+  filteredOutput: boolean;
+  onFilteredOutputChange: (enabled: boolean) => void;
+}
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const minuteValue = (value: string) => value === '' || Number(value) < 0 ? undefined : Number(value);
+
+export function FilterBar({ filter, speakers, shown, total, onChange, onClear, filteredOutput, onFilteredOutputChange }: FilterBarProps) {
+  const active = isFilterActive(filter);
+  // Filters from a shared link start out visible
+  const [expanded, setExpanded] = useState(() => isFilterActive({ ...filter, query: '' }));
+  const chip = (pressed: boolean) => cn(
+    "px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-colors",
+    pressed ? "bg-slate-700 border-slate-500 text-slate-100" : "border-slate-700/50 text-slate-500 hover:text-slate-300"
+  );
+
+  return (
+    <div className="px-6 py-3 bg-slate-900/30 border-b border-slate-800/30 space-y-2 text-xs" role="search" aria-label="Filter transcripts">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-500" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => onChange({ query: e.target.value })}
+            placeholder="Search transcripts"
+            aria-label="Search transcripts"
+            className="w-full pl-8 pr-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <button
+          onClick={() => setExpanded(open => !open)}
+          aria-expanded={expanded}
+          className={cn(chip(expanded), "flex items-center gap-1.5")}
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          Filters
+        </button>
+
+        {active && (
+          <>
+            <span className="font-bold text-slate-400" aria-live="polite">Showing {shown} of {total}</span>
+            <button
+              onClick={onClear}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-slate-100"
+            >
+              <X className="w-3.5 h-3.5" />
+              Clear Filters
+            </button>
+          </>
+        )}
+      </div>
+
+      {expanded && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by speaker">
+              {speakers.map(speaker => (
+                <button
+                  key={speaker.id}
+                  onClick={() => onChange({ speakers: toggle(filter.speakers, speaker.id) })}
+                  aria-pressed={filter.speakers.includes(speaker.id)}
+                  className={cn(chip(filter.speakers.includes(speaker.id)), "flex items-center gap-1.5")}
+                >
+                  <span className={cn("w-1.5 h-1.5 rounded-full", SPEAKER_STYLES[speaker.color].dot)} />
+                  {speaker.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by verdict">
+              {VERDICT_FILTERS.map(verdict => (
+                <button
+                  key={verdict.id}
+                  onClick={() => onChange({ verdicts: toggle(filter.verdicts, verdict.id) })}
+                  aria-pressed={filter.verdicts.includes(verdict.id)}
+                  className={chip(filter.verdicts.includes(verdict.id))}
+                >
+                  {verdict.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-slate-500">
+            <label className="flex items-center gap-1.5">
+              From minute
+              <input
+                type="number"
+                min={0}
+                value={filter.fromMinute ?? ''}
+                onChange={(e) => onChange({ fromMinute: minuteValue(e.target.value) })}
+                className="w-16 px-2 py-1 bg-slate-800/50 border border-slate-700/50 rounded-lg text-slate-100 focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-1.5">
+              to
+              <input
+                type="number"
+                min={0}
+                value={filter.toMinute ?? ''}
+                onChange={(e) => onChange({ toMinute: minuteValue(e.target.value) })}
+                aria-label="To minute"
+                className="w-16 px-2 py-1 bg-slate-800/50 border border-slate-700/50 rounded-lg text-slate-100 focus:outline-none"
+              />
+            </label>
+            <select
+              value={filter.review}
+              onChange={(e) => onChange({ review: e.target.value as ReviewFilter })}
+              aria-label="Review status"
+              className="bg-slate-800/50 border border-slate-700/50 rounded-lg px-2 py-1 text-slate-300 focus:outline-none"
+            >
+              <option value="all">Reviewed or not</option>
+              <option value="reviewed">Reviewed only</option>
+              <option value="unreviewed">Unreviewed only</option>
+            </select>
+
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={filteredOutput}
+                onChange={(e) => onFilteredOutputChange(e.target.checked)}
+              />
+              Copy and export filtered view only
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
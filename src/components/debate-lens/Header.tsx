@@ -1,36 +1,69 @@
 'use client';
 
-import { Mic, MicOff, Copy, Trash2, Download } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Mic, MicOff, Copy, Trash2, Download, Settings, BookOpen, FileAudio, Users, Layers, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Speaker, SPEAKER_STYLES } from '@/lib/speakers';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export-utils';
+import type { DebateAnalytics } from '@/lib/analytics';
 import { AudioVisualizer } from './AudioVisualizer';
+import { TruthMeter } from './TruthMeter';
 
 interface HeaderProps {
+  sessionName: string;
+  onOpenSessions: () => void;
+  analytics: DebateAnalytics;
+  onOpenAnalytics: () => void;
   listening: boolean;
   userSpeaking: boolean;
   selectedDevice: string;
   setSelectedDevice: (id: string) => void;
   devices: MediaDeviceInfo[];
-  activeSpeaker: 'A' | 'B';
-  setActiveSpeaker: (s: 'A' | 'B') => void;
+  speakers: Speaker[];
+  activeSpeaker: string;
+  setActiveSpeaker: (id: string) => void;
+  onOpenSpeakers: () => void;
   onCopy: () => void;
   onClear: () => void;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
+  onRecheckAll: () => void;
+  /** A "re-check all" is running, or there is nothing to re-check. */
+  recheckDisabled: boolean;
+  onOpenSettings: () => void;
+  onOpenKnowledgeBase: () => void;
+  onImportRecording: (file: File) => void;
+  importing: boolean;
   onToggleListening: () => void;
 }
 
 export function Header({
+  sessionName,
+  onOpenSessions,
+  analytics,
+  onOpenAnalytics,
   listening,
   userSpeaking,
   selectedDevice,
   setSelectedDevice,
   devices,
+  speakers,
   activeSpeaker,
   setActiveSpeaker,
+  onOpenSpeakers,
   onCopy,
   onClear,
   onExport,
+  onRecheckAll,
+  recheckDisabled,
+  onOpenSettings,
+  onOpenKnowledgeBase,
+  onImportRecording,
+  importing,
   onToggleListening
 }: HeaderProps) {
+  const recordingInput = useRef<HTMLInputElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
   return (
     <header className="flex items-center justify-between px-6 py-4 border-b border-slate-800/50 bg-slate-900/40 backdrop-blur-xl sticky top-0 z-10">
       <div className="flex items-center gap-3">
@@ -39,9 +72,19 @@ export function Header({
           {(userSpeaking) && <div className="absolute inset-0 w-3 h-3 rounded-full bg-green-500 animate-ping opacity-75" />}
         </div>
         <h1 className="font-black text-2xl tracking-tighter italic uppercase">Debate<span className="text-blue-500 not-italic">Lens</span></h1>
+        <button
+          onClick={onOpenSessions}
+          className="flex items-center gap-2 ml-2 px-3 py-1.5 rounded-lg border border-slate-700/50 bg-slate-800/50 text-xs font-bold text-slate-300 hover:text-slate-100 max-w-[14rem]"
+          title="Sessions"
+        >
+          <Layers className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{sessionName}</span>
+        </button>
       </div>
 
       <div className="flex items-center gap-6">
+        <TruthMeter claims={analytics.claims} verdicts={analytics.verdicts} onClick={onOpenAnalytics} />
+
         <div className="flex flex-col items-center">
           <AudioVisualizer listening={listening} isSpeaking={userSpeaking} />
           <div className="text-[7px] text-slate-500 font-black uppercase tracking-widest mt-1">Audio Input Level</div>
@@ -58,27 +101,26 @@ export function Header({
         </div>
 
         <div className="flex bg-slate-800/50 rounded-xl p-1 border border-slate-700/50 shadow-inner">
+          {speakers.map((speaker, i) => (
+            <button
+              key={speaker.id}
+              onClick={() => setActiveSpeaker(speaker.id)}
+              className={cn(
+                "px-5 py-2 rounded-lg text-sm font-bold transition-all duration-300 flex items-center gap-2",
+                activeSpeaker === speaker.id
+                  ? cn(SPEAKER_STYLES[speaker.color].active, "scale-105")
+                  : "text-slate-400 hover:text-slate-200"
+              )}
+            >
+              {speaker.name} <span className="opacity-50 text-[10px] bg-black/20 px-1 rounded">{i + 1}</span>
+            </button>
+          ))}
           <button
-            onClick={() => setActiveSpeaker('A')}
-            className={cn(
-              "px-5 py-2 rounded-lg text-sm font-bold transition-all duration-300 flex items-center gap-2",
-              activeSpeaker === 'A'
-                ? "bg-blue-600 text-white shadow-[0_4px_20px_rgba(37,99,235,0.4)] scale-105"
-                : "text-slate-400 hover:text-slate-200"
-            )}
-          >
-            Speaker A <span className="opacity-50 text-[10px] bg-black/20 px-1 rounded">1</span>
-          </button>
-          <button
-            onClick={() => setActiveSpeaker('B')}
-            className={cn(
-              "px-5 py-2 rounded-lg text-sm font-bold transition-all duration-300 flex items-center gap-2",
-              activeSpeaker === 'B'
-                ? "bg-red-600 text-white shadow-[0_4px_20px_rgba(220,38,38,0.4)] scale-105"
-                : "text-slate-400 hover:text-slate-200"
-            )}
+            onClick={onOpenSpeakers}
+            className="px-2 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Manage Speakers"
           >
-            Speaker B <span className="opacity-50 text-[10px] bg-black/20 px-1 rounded">2</span>
+            <Users className="w-4 h-4" />
           </button>
         </div>
 
@@ -94,12 +136,46 @@ export function Header({
           >
             <Copy className="w-5 h-5" />
           </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(open => !open)}
+              className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-green-400 transition-all active:scale-95"
+              title="Export"
+              aria-haspopup="menu"
+              aria-expanded={showExportMenu}
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            {showExportMenu && (
+              <div
+                className="absolute right-0 top-full mt-2 w-48 py-1 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl z-20"
+                role="menu"
+                aria-label="Export format"
+              >
+                {EXPORT_FORMATS.map(format => (
+                  <button
+                    key={format.id}
+                    role="menuitem"
+                    onClick={() => {
+                      setShowExportMenu(false);
+                      onExport(format.id);
+                    }}
+                    className="w-full flex justify-between px-3 py-2 text-xs text-slate-300 hover:bg-slate-800 hover:text-slate-100"
+                  >
+                    {format.label}
+                    <span className="font-mono text-slate-500">.{format.extension}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button
-            onClick={onExport}
-            className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-green-400 transition-all active:scale-95"
-            title="Export to Markdown"
+            onClick={onRecheckAll}
+            disabled={recheckDisabled}
+            className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-sky-400 transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+            title="Re-check All"
           >
-            <Download className="w-5 h-5" />
+            <RefreshCw className="w-5 h-5" />
           </button>
           <button
             onClick={onClear}
@@ -108,6 +184,40 @@ export function Header({
           >
             <Trash2 className="w-5 h-5" />
           </button>
+          <input
+            ref={recordingInput}
+            type="file"
+            accept="audio/*,video/*"
+            className="hidden"
+            aria-label="Recording file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportRecording(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => recordingInput.current?.click()}
+            disabled={importing}
+            className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-slate-200 transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+            title="Import Recording"
+          >
+            <FileAudio className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onOpenKnowledgeBase}
+            className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-slate-200 transition-all active:scale-95"
+            title="Knowledge Base"
+          >
+            <BookOpen className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="p-2.5 hover:bg-slate-800 rounded-xl text-slate-400 hover:text-slate-200 transition-all active:scale-95"
+            title="Settings"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
         </div>
 
         <button
@@ -0,0 +1,142 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { X, Upload, FileText, Trash2, Loader2 } from 'lucide-react';
+import type { KnowledgeDocument } from '@/lib/knowledge-base';
+import type { IndexingJob } from '@/hooks/useKnowledgeBase';
+
+interface KnowledgeBasePanelProps {
+  documents: KnowledgeDocument[];
+  indexing: Record<string, IndexingJob>;
+  error: string | null;
+  onImportFile: (file: File) => void;
+  onImportText: (title: string, text: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export function KnowledgeBasePanel({
+  documents,
+  indexing,
+  error,
+  onImportFile,
+  onImportText,
+  onDelete,
+  onClose,
+}: KnowledgeBasePanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pasteTitle, setPasteTitle] = useState('');
+  const [pasteText, setPasteText] = useState('');
+
+  const handleFiles = (files: FileList | null) => {
+    Array.from(files ?? []).forEach(onImportFile);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handlePaste = () => {
+    if (!pasteText.trim()) return;
+    onImportText(pasteTitle.trim() || 'Pasted text', pasteText);
+    setPasteTitle('');
+    setPasteText('');
+  };
+
+  const jobs = Object.entries(indexing);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Knowledge Base">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Knowledge Base</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Knowledge Base"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Fact-checks cite matching passages from these documents. Everything is indexed and stored locally in your browser.
+          </p>
+
+          <div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".txt,.md,.markdown,.csv"
+              multiple
+              className="hidden"
+              aria-label="Import documents"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-dashed border-slate-700 text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200 hover:border-slate-500"
+            >
+              <Upload className="w-4 h-4" />
+              Import .txt, .md or .csv
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="kb-paste" className="block text-xs font-bold text-slate-500 uppercase tracking-widest">
+              Paste Text
+            </label>
+            <input
+              value={pasteTitle}
+              onChange={(e) => setPasteTitle(e.target.value)}
+              placeholder="Title"
+              className="w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              id="kb-paste"
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              placeholder="Paste text copied from a PDF or web page..."
+              rows={4}
+              className="w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+            <button
+              onClick={handlePaste}
+              disabled={!pasteText.trim()}
+              className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white"
+            >
+              Add Text
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <ul className="space-y-2">
+            {jobs.map(([id, job]) => (
+              <li key={id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40 text-sm text-slate-300">
+                <Loader2 className="w-4 h-4 animate-spin text-blue-400 shrink-0" />
+                <span className="truncate flex-1">{job.title}</span>
+                <span className="text-[10px] font-mono text-slate-500">{Math.round(job.progress)}%</span>
+              </li>
+            ))}
+            {documents.map(doc => (
+              <li key={doc.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40 text-sm text-slate-300">
+                <FileText className="w-4 h-4 text-slate-500 shrink-0" />
+                <span className="truncate flex-1">{doc.title}</span>
+                <span className="text-[10px] text-slate-500">{doc.passageCount} passages</span>
+                <button
+                  onClick={() => onDelete(doc.id)}
+                  className="p-1 hover:bg-red-500/20 rounded-lg text-slate-500 hover:text-red-400"
+                  title={`Delete ${doc.title}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+            {documents.length === 0 && jobs.length === 0 && (
+              <li className="text-xs text-slate-600 italic">No documents yet.</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
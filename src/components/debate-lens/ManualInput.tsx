@@ -2,9 +2,10 @@
 
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { Speaker, SPEAKER_STYLES } from '@/lib/speakers';
 
 interface ManualInputProps {
-  activeSpeaker: 'A' | 'B';
+  activeSpeaker: Speaker;
   onManualSubmit: (text: string) => void;
 }
 
@@ -28,11 +29,8 @@ export function ManualInput({ activeSpeaker, onManualSubmit }: ManualInputProps)
               Manual Input (for text fact-checking)
             </label>
             <span className="text-xs text-slate-500">
-              Speaker: <span className={cn(
-                "font-bold",
-                activeSpeaker === 'A' ? "text-blue-400" : "text-red-400"
-              )}>
-                {activeSpeaker}
+              Speaker: <span className={cn("font-bold", SPEAKER_STYLES[activeSpeaker.color].softText)}>
+                {activeSpeaker.name}
               </span>
             </span>
           </div>
@@ -40,7 +38,7 @@ export function ManualInput({ activeSpeaker, onManualSubmit }: ManualInputProps)
             id="manual-input"
             value={text}
             onChange={(e) => setText(e.target.value)}
-            placeholder={`Enter text to fact-check as Speaker ${activeSpeaker}`}
+            placeholder={`Enter text to fact-check as ${activeSpeaker.name}`}
             className="w-full px-4 py-3 bg-slate-800/50 border border-slate-700/50 rounded-xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
             rows={2}
             onKeyDown={(e) => {
@@ -52,8 +50,7 @@ export function ManualInput({ activeSpeaker, onManualSubmit }: ManualInputProps)
           />
           <div className="flex flex-wrap gap-2 mt-2">
             <span className="text-xs text-slate-500 flex items-center gap-1">
-              <span className={cn("w-2 h-2 rounded-full",
-                activeSpeaker === 'A' ? "bg-blue-500" : "bg-red-500")}></span>
+              <span className={cn("w-2 h-2 rounded-full", SPEAKER_STYLES[activeSpeaker.color].dot)}></span>
               Minimum 3 words required
             </span>
             <span className="text-xs text-slate-500">• Press Enter to submit</span>
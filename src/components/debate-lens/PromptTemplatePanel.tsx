@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Plus, Trash2, Loader2, FlaskConical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { buildFactCheckPrompt, findTemplate, validateTemplate } from '@/lib/prompt-templates';
+import { VERDICTS } from '@/lib/verdict-parser';
+import type { PromptFormat } from '@/lib/model-registry';
+import { MAX_TEST_SENTENCES, TemplateTestResult } from '@/hooks/usePromptTemplates';
+import type { FewShotExample, PromptTemplate, Verdict } from '@/types/worker-messages';
+
+interface PromptTemplatePanelProps {
+  templates: PromptTemplate[];
+  activeTemplateId: string;
+  /** Chat markup of the loaded LLM, for the preview. */
+  promptFormat: PromptFormat;
+  /** The worker is loaded and can run test fact-checks. */
+  canTest: boolean;
+  testResults: TemplateTestResult[];
+  onUse: (id: string) => void;
+  onSave: (draft: PromptTemplate) => PromptTemplate;
+  onDelete: (id: string) => void;
+  onTest: (template: PromptTemplate, sentences: string[]) => void;
+  onClearTest: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_SAMPLES = 'Unemployment fell to 4% last year.\nThe first Moon landing was in 1975.\nThank you all for being here tonight.';
+
+const VERDICT_TEXT: Record<Verdict, string> = {
+  True: "text-green-400",
+  False: "text-red-400",
+  Unverified: "text-yellow-400",
+  NOT_A_CLAIM: "text-slate-400",
+};
+
+const NEW_EXAMPLE: FewShotExample = { input: '', verdict: 'True', explanation: '', confidence: 0.9, claim: '' };
+
+const fieldClass = "w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2";
+
+export function PromptTemplatePanel({
+  templates,
+  activeTemplateId,
+  promptFormat,
+  canTest,
+  testResults,
+  onUse,
+  onSave,
+  onDelete,
+  onTest,
+  onClearTest,
+  onClose,
+}: PromptTemplatePanelProps) {
+  const [draft, setDraft] = useState<PromptTemplate>(() => findTemplate(templates, activeTemplateId));
+  const [samples, setSamples] = useState(DEFAULT_SAMPLES);
+  const saved = templates.find(t => t.id === draft.id);
+  const changed = JSON.stringify(saved) !== JSON.stringify(draft);
+  const errors = validateTemplate(draft);
+  const sentences = samples.split('\n').filter(s => s.trim());
+
+  const update = (changes: Partial<PromptTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateExample = (index: number, changes: Partial<FewShotExample>) => update({
+    examples: draft.examples.map((example, i) => i === index ? { ...example, ...changes } : example),
+  });
+
+  const edit = (id: string) => {
+    setDraft(findTemplate(templates, id));
+    onClearTest();
+  };
+
+  const handleSave = () => {
+    const template = onSave({ ...draft, rules: draft.rules.map(rule => rule.trim()).filter(Boolean) });
+    setDraft(template);
+  };
+
+  const handleDelete = () => {
+    onDelete(draft.id);
+    edit(activeTemplateId === draft.id ? templates[0].id : activeTemplateId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Prompt Templates">
+      <div className="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Prompt Templates</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Prompt Templates"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[14rem]">
+              <label htmlFor="template-select" className={labelClass}>Template</label>
+              <select id="template-select" value={draft.id} onChange={(e) => edit(e.target.value)} className={fieldClass}>
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.name} · v{t.version}{t.builtIn ? ' · preset' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {draft.id === activeTemplateId ? (
+              <span className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-blue-400">In use</span>
+            ) : saved && (
+              <button
+                onClick={() => onUse(draft.id)}
+                className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-200"
+              >
+                Use This Template
+              </button>
+            )}
+            {saved && !saved.builtIn && (
+              <button
+                onClick={handleDelete}
+                className="p-2 hover:bg-red-500/20 rounded-xl text-slate-500 hover:text-red-400"
+                title="Delete template"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {draft.builtIn && (
+            <p className="text-[11px] text-slate-500">Presets cannot be changed; saving your edits creates a custom copy.</p>
+          )}
+
+          <div>
+            <label htmlFor="template-name" className={labelClass}>Name</label>
+            <input id="template-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+          </div>
+
+          <div>
+            <label htmlFor="template-system" className={labelClass}>System Prompt</label>
+            <textarea id="template-system" value={draft.system} onChange={(e) => update({ system: e.target.value })} rows={3} className={cn(fieldClass, "resize-y")} />
+          </div>
+
+          <div>
+            <label htmlFor="template-rules" className={labelClass}>Rules, One Per Line</label>
+            <textarea id="template-rules" value={draft.rules.join('\n')} onChange={(e) => update({ rules: e.target.value.split('\n') })} rows={4} className={cn(fieldClass, "resize-y")} />
+          </div>
+
+          <div>
+            <label htmlFor="template-output" className={labelClass}>Output Format</label>
+            <textarea id="template-output" value={draft.outputFormat} onChange={(e) => update({ outputFormat: e.target.value })} rows={2} className={cn(fieldClass, "font-mono text-xs resize-y")} />
+          </div>
+
+          <fieldset className="space-y-3">
+            <legend className={labelClass}>Examples</legend>
+            {draft.examples.map((example, i) => (
+              <div key={i} className="p-3 rounded-xl bg-slate-800/30 space-y-2" role="group" aria-label={`Example ${i + 1}`}>
+                <div className="flex gap-2">
+                  <input value={example.input} onChange={(e) => updateExample(i, { input: e.target.value })} placeholder="Input sentence" aria-label="Input" className={fieldClass} />
+                  <button
+                    onClick={() => update({ examples: draft.examples.filter((_, j) => j !== i) })}
+                    className="p-2 hover:bg-red-500/20 rounded-xl text-slate-500 hover:text-red-400 shrink-0"
+                    title={`Remove example ${i + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <select value={example.verdict} onChange={(e) => updateExample(i, { verdict: e.target.value as Verdict })} aria-label="Verdict" className={cn(fieldClass, "w-40")}>
+                    {VERDICTS.map(v => <option key={v} value={v}>{v}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={example.confidence}
+                    onChange={(e) => updateExample(i, { confidence: Number(e.target.value) })}
+                    aria-label="Confidence"
+                    className={cn(fieldClass, "w-24")}
+                  />
+                  <input value={example.claim} onChange={(e) => updateExample(i, { claim: e.target.value })} placeholder="Claim, copied from the input" aria-label="Claim" className={fieldClass} />
+                </div>
+                <input value={example.explanation} onChange={(e) => updateExample(i, { explanation: e.target.value })} placeholder="Explanation" aria-label="Explanation" className={fieldClass} />
+              </div>
+            ))}
+            <button
+              onClick={() => update({ examples: [...draft.examples, NEW_EXAMPLE] })}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+            >
+              <Plus className="w-4 h-4" />
+              Add Example
+            </button>
+          </fieldset>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-1" role="alert">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <details className="text-xs">
+            <summary className="cursor-pointer font-bold uppercase tracking-widest text-slate-500">Preview Prompt</summary>
+            <pre className="mt-2 p-3 rounded-xl bg-slate-950 text-slate-400 whitespace-pre-wrap font-mono text-[11px]" aria-label="Prompt preview">
+              {buildFactCheckPrompt(sentences[0] ?? 'Example sentence.', promptFormat, { template: draft })}
+            </pre>
+          </details>
+
+          <div className="space-y-2">
+            <label htmlFor="template-samples" className={labelClass}>Sample Sentences, Up To {MAX_TEST_SENTENCES}</label>
+            <textarea id="template-samples" value={samples} onChange={(e) => setSamples(e.target.value)} rows={3} className={cn(fieldClass, "resize-y")} />
+            <button
+              onClick={() => onTest(draft, sentences)}
+              disabled={!canTest || errors.length > 0 || sentences.length === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200"
+            >
+              <FlaskConical className="w-4 h-4" />
+              Run Test
+            </button>
+            {testResults.length > 0 && (
+              <ol className="space-y-2" aria-label="Test results">
+                {testResults.map((result, i) => (
+                  <li key={i} className="px-3 py-2 rounded-xl bg-slate-800/40 text-sm space-y-1">
+                    <p className="text-slate-300">&ldquo;{result.sentence}&rdquo;</p>
+                    {result.error ? (
+                      <p className="text-xs text-red-400">{result.error}</p>
+                    ) : result.factCheck?.verdict ? (
+                      <p className="text-xs text-slate-400">
+                        <span className={cn("font-black uppercase tracking-widest mr-2", VERDICT_TEXT[result.factCheck.verdict])}>
+                          {result.factCheck.verdict === 'NOT_A_CLAIM' ? 'Not a claim' : result.factCheck.verdict}
+                        </span>
+                        {result.factCheck.explanation}
+                      </p>
+                    ) : null}
+                    {!result.isDone && (
+                      <p className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-blue-400/70">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Checking...
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0 || !changed}
+            className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white"
+          >
+            {draft.builtIn ? 'Save as Copy' : 'Save Template'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Loader2, X } from 'lucide-react';
+import type { RecheckProgress } from '@/hooks/useDebateManager';
+
+interface RecheckBarProps {
+  progress: RecheckProgress | null;
+  onStop: () => void;
+}
+
+export function RecheckBar({ progress, onStop }: RecheckBarProps) {
+  if (!progress) return null;
+
+  const percent = Math.round((progress.done / progress.total) * 100);
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-800/50 bg-slate-900/40 space-y-2" aria-label="Re-check all">
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-sky-400 shrink-0" />
+        <span className="truncate">
+          Re-checking transcript {progress.done + 1} of {progress.total}
+        </span>
+        <span className="ml-auto font-mono">{percent}%</span>
+        <button
+          onClick={onStop}
+          className="p-1 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-red-400"
+          title="Stop Re-check"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div
+        className="h-1 rounded-full bg-slate-800 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Loader2, X } from 'lucide-react';
+import type { RecordingImportJob } from '@/hooks/useRecordingImport';
+
+interface RecordingImportBarProps {
+  job: RecordingImportJob | null;
+  error: string | null;
+  onCancel: () => void;
+}
+
+export function RecordingImportBar({ job, error, onCancel }: RecordingImportBarProps) {
+  if (!job && !error) return null;
+
+  if (!job) {
+    return (
+      <div className="px-6 py-2 text-xs text-red-400 bg-red-500/5 border-b border-red-500/20" role="alert">
+        {error}
+      </div>
+    );
+  }
+
+  const percent = Math.round(job.progress * 100);
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-800/50 bg-slate-900/40 space-y-2" aria-label="Recording import">
+      <div className="flex items-center gap-3 text-xs text-slate-400">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-400 shrink-0" />
+        <span className="truncate">
+          <span className="font-bold text-slate-200">{job.fileName}</span>
+          {job.phase === 'decoding'
+            ? ' · Decoding audio...'
+            : ` · ${job.segments} segment${job.segments === 1 ? '' : 's'} transcribed`}
+        </span>
+        <span className="ml-auto font-mono">{percent}%</span>
+        <button
+          onClick={onCancel}
+          className="p-1 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-red-400"
+          title="Cancel Import"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div
+        className="h-1 rounded-full bg-slate-800 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
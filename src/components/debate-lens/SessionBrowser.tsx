@@ -0,0 +1,226 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { X, Plus, Trash2, Archive, ArchiveRestore, FolderOpen, Upload, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDuration, SessionSummary } from '@/lib/sessions';
+import type { SessionImportReport } from '@/lib/session-import';
+
+interface SessionBrowserProps {
+  sessions: SessionSummary[];
+  activeSessionId: string;
+  onCreate: (name: string) => void;
+  onOpen: (id: string) => void;
+  onImport: (file: File, target: 'new' | 'current') => Promise<SessionImportReport>;
+  onRename: (id: string, name: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export function SessionBrowser({
+  sessions,
+  activeSessionId,
+  onCreate,
+  onOpen,
+  onImport,
+  onRename,
+  onArchive,
+  onDelete,
+  onClose,
+}: SessionBrowserProps) {
+  const [newName, setNewName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const visible = sessions.filter(s => showArchived || !s.archived || s.id === activeSessionId);
+  const archivedCount = sessions.filter(s => s.archived).length;
+  const importInput = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<'new' | 'current'>('new');
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<SessionImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    setReport(null);
+    setImportError(null);
+    try {
+      setReport(await onImport(file, importTarget));
+    } catch (err) {
+      setImportError(`Could not import ${file.name}: ${(err as Error).message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleCreate = () => {
+    onCreate(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Sessions">
+      <div className="w-full max-w-xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Sessions</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Sessions"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Each session keeps its own transcripts and speakers. Recording always goes into the open session.
+          </p>
+
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              placeholder="New session name"
+              aria-label="New session name"
+              className="flex-1 min-w-0 bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              New Session
+            </button>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              ref={importInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              aria-label="Session file"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => importInput.current?.click()}
+              disabled={importing}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-xl border border-dashed border-slate-700 text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200 hover:border-slate-500 disabled:opacity-40"
+            >
+              {importing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+              Import JSON Export
+            </button>
+            <select
+              value={importTarget}
+              onChange={(e) => setImportTarget(e.target.value as 'new' | 'current')}
+              aria-label="Import into"
+              className="bg-slate-800/50 border border-slate-700/50 text-xs rounded-xl px-2 py-1 text-slate-300 focus:outline-none"
+            >
+              <option value="new">Into a new session</option>
+              <option value="current">Into the open session</option>
+            </select>
+          </div>
+
+          {importError && <p className="text-xs text-red-400" role="alert">{importError}</p>}
+          {report && (
+            <div className="text-xs text-slate-400 space-y-1" role="status">
+              <p>
+                Imported {report.imported} transcript{report.imported === 1 ? '' : 's'} into <span className="font-bold text-slate-200">{report.sessionName}</span>
+                {report.renamed > 0 && ` · ${report.renamed} given new ids`}
+                {report.duplicates > 0 && ` · ${report.duplicates} already present`}
+              </p>
+              {report.rejected.length > 0 && (
+                <details className="text-amber-400">
+                  <summary>{report.rejected.length} record{report.rejected.length === 1 ? '' : 's'} rejected</summary>
+                  <ul className="mt-1 space-y-0.5 text-slate-500">
+                    {report.rejected.map((r, i) => (
+                      <li key={i}>
+                        {r.index !== undefined && `#${r.index + 1} `}{r.id && <code>{r.id}</code>}: {r.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          <ul className="space-y-2">
+            {visible.map(session => {
+              const active = session.id === activeSessionId;
+              return (
+                <li
+                  key={session.id}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40",
+                    active && "ring-1 ring-blue-500/50",
+                    session.archived && "opacity-60"
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <input
+                      defaultValue={session.name}
+                      onBlur={(e) => {
+                        if (e.target.value.trim()) onRename(session.id, e.target.value);
+                        else e.target.value = session.name;
+                      }}
+                      aria-label={`Name of session ${session.name}`}
+                      className="w-full bg-transparent text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+                    />
+                    <div className="flex gap-3 px-1 text-[10px] text-slate-500">
+                      <span>{new Date(session.createdAt).toLocaleDateString()}</span>
+                      <span>{formatDuration(session.durationMs)}</span>
+                      <span>{session.claimCount} claims</span>
+                      <span>{session.transcriptCount} transcripts</span>
+                      {session.archived && <span className="uppercase tracking-widest">Archived</span>}
+                    </div>
+                  </div>
+                  {active ? (
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-blue-400 px-1">Open</span>
+                  ) : (
+                    <button
+                      onClick={() => onOpen(session.id)}
+                      className="p-1 hover:bg-slate-700 rounded-lg text-slate-500 hover:text-slate-200"
+                      title={`Open ${session.name}`}
+                    >
+                      <FolderOpen className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onArchive(session.id, !session.archived)}
+                    className="p-1 hover:bg-slate-700 rounded-lg text-slate-500 hover:text-slate-200"
+                    title={session.archived ? `Unarchive ${session.name}` : `Archive ${session.name}`}
+                  >
+                    {session.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    className="p-1 hover:bg-red-500/20 rounded-lg text-slate-500 hover:text-red-400"
+                    title={`Delete ${session.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Show archived ({archivedCount})
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
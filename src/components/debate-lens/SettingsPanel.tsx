@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Cpu } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getModel, listModels } from '@/lib/model-registry';
+import { AUDIO_LIMIT_OPTIONS_MB } from '@/lib/audio-store';
+import type { InferenceBackend, ModelSelection, PromptTemplate } from '@/types/worker-messages';
+
+interface SettingsPanelProps {
+  backend: InferenceBackend;
+  models: ModelSelection;
+  onApplyModels: (selection: ModelSelection) => void;
+  confidenceThreshold: number;
+  onApplyConfidenceThreshold: (threshold: number) => void;
+  translate: boolean;
+  onApplyTranslate: (enabled: boolean) => void;
+  diarize: boolean;
+  onApplyDiarize: (enabled: boolean) => void;
+  audioLimitMB: number;
+  onApplyAudioLimit: (limitMB: number) => void;
+  /** Fact-check prompt template in use. */
+  promptTemplate: PromptTemplate;
+  onOpenPromptTemplates: () => void;
+  onClose: () => void;
+}
+
+const MODEL_FIELDS: { kind: keyof ModelSelection; label: string }[] = [
+  { kind: 'stt', label: 'Speech Recognition' },
+  { kind: 'llm', label: 'Fact-Check Language Model' },
+];
+
+export function SettingsPanel({
+  backend,
+  models,
+  onApplyModels,
+  confidenceThreshold,
+  onApplyConfidenceThreshold,
+  translate,
+  onApplyTranslate,
+  diarize,
+  onApplyDiarize,
+  audioLimitMB,
+  onApplyAudioLimit,
+  promptTemplate,
+  onOpenPromptTemplates,
+  onClose,
+}: SettingsPanelProps) {
+  const [draft, setDraft] = useState<ModelSelection>(models);
+  const [draftThreshold, setDraftThreshold] = useState(confidenceThreshold);
+  const changed = draft.stt !== models.stt || draft.llm !== models.llm;
+  const [draftTranslate, setDraftTranslate] = useState(translate);
+  const multilingual = !!getModel(draft.stt)?.multilingual;
+  const [draftAudioLimit, setDraftAudioLimit] = useState(audioLimitMB);
+  const [draftDiarize, setDraftDiarize] = useState(diarize);
+  const preferencesChanged = draftThreshold !== confidenceThreshold
+    || draftTranslate !== translate
+    || draftAudioLimit !== audioLimitMB
+    || draftDiarize !== diarize;
+
+  const handleApply = () => {
+    if (draftThreshold !== confidenceThreshold) onApplyConfidenceThreshold(draftThreshold);
+    if (draftTranslate !== translate) onApplyTranslate(draftTranslate);
+    if (draftAudioLimit !== audioLimitMB) onApplyAudioLimit(draftAudioLimit);
+    if (draftDiarize !== diarize) onApplyDiarize(draftDiarize);
+    if (changed) onApplyModels(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Settings">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Settings"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {MODEL_FIELDS.map(({ kind, label }) => (
+            <div key={kind}>
+              <label htmlFor={`model-${kind}`} className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">
+                {label}
+              </label>
+              <select
+                id={`model-${kind}`}
+                value={draft[kind]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [kind]: e.target.value }))}
+                className="w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {listModels(kind, backend).map(m => (
+                  <option key={m.id} value={m.id}>
+                    {m.label} · {m.device === 'webgpu' ? 'WebGPU' : 'CPU'} · {m.dtype}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <div>
+            <span className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Fact-Check Prompt</span>
+            <div className="flex items-center gap-3">
+              <span className="flex-1 text-sm text-slate-100">{promptTemplate.name} · v{promptTemplate.version}</span>
+              <button
+                onClick={onOpenPromptTemplates}
+                className="px-3 py-1.5 rounded-xl text-xs font-bold uppercase tracking-widest bg-slate-800 hover:bg-slate-700 text-slate-200"
+              >
+                Edit Templates
+              </button>
+            </div>
+            <p className="mt-1 text-[11px] text-slate-500">
+              Presets tune the instructions for politics, health or economics. Each verdict records the template version it was checked with.
+            </p>
+          </div>
+
+          <label className={cn("flex items-start gap-3", !multilingual && "opacity-50")}>
+            <input
+              type="checkbox"
+              checked={draftTranslate}
+              disabled={!multilingual}
+              onChange={(e) => setDraftTranslate(e.target.checked)}
+              className="mt-0.5 accent-blue-500"
+            />
+            <span>
+              <span className="block text-xs font-bold text-slate-500 uppercase tracking-widest">Translate to English</span>
+              <span className="block mt-1 text-[11px] text-slate-500">
+                {multilingual
+                  ? 'Non-English speech is shown alongside an English translation, which is what gets fact-checked.'
+                  : 'Choose a multilingual speech model to detect languages and translate.'}
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={draftDiarize}
+              onChange={(e) => setDraftDiarize(e.target.checked)}
+              className="mt-0.5 accent-blue-500"
+            />
+            <span>
+              <span className="block text-xs font-bold text-slate-500 uppercase tracking-widest">Detect Speakers Automatically</span>
+              <span className="block mt-1 text-[11px] text-slate-500">
+                Speech is attributed to A or B by voice. Swapping a transcript&apos;s speaker corrects later ones too.
+              </span>
+            </span>
+          </label>
+
+          <div>
+            <label htmlFor="confidence-threshold" className="flex justify-between text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">
+              Minimum Confidence
+              <span className="font-mono text-slate-300">{draftThreshold > 0 ? `${Math.round(draftThreshold * 100)}%` : 'Off'}</span>
+            </label>
+            <input
+              id="confidence-threshold"
+              type="range"
+              min={0}
+              max={0.95}
+              step={0.05}
+              value={draftThreshold}
+              onChange={(e) => setDraftThreshold(Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+            <p className="mt-1 text-[11px] text-slate-500">
+              True and False verdicts the model is less sure of than this are shown as Unverified.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="audio-limit" className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">
+              Audio Storage
+            </label>
+            <select
+              id="audio-limit"
+              value={draftAudioLimit}
+              onChange={(e) => setDraftAudioLimit(Number(e.target.value))}
+              className="w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {AUDIO_LIMIT_OPTIONS_MB.map(mb => (
+                <option key={mb} value={mb}>{mb > 0 ? `Up to ${mb} MB` : "Don't keep audio"}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-[11px] text-slate-500">
+              Speech is kept for playback from the transcript; the oldest audio is dropped once the limit is reached.
+            </p>
+          </div>
+
+          {backend === 'wasm' && (
+            <p className="flex items-center gap-2 text-xs text-yellow-400/80">
+              <Cpu className="w-3.5 h-3.5" />
+              WebGPU is unavailable, so only CPU models are listed.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {changed ? 'Apply & Reload Models' : preferencesChanged ? 'Apply' : 'Done'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
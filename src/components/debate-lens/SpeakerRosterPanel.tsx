@@ -0,0 +1,93 @@
+'use client';
+
+import { X, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_SPEAKERS, Speaker, SPEAKER_COLOR_NAMES, SPEAKER_STYLES, SpeakerColor } from '@/lib/speakers';
+
+interface SpeakerRosterPanelProps {
+  speakers: Speaker[];
+  /** Speakers with transcripts, which cannot be removed. */
+  speakingIds: Set<string>;
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<Omit<Speaker, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+export function SpeakerRosterPanel({
+  speakers,
+  speakingIds,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onClose,
+}: SpeakerRosterPanelProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6" role="dialog" aria-label="Speakers">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="font-black text-sm uppercase tracking-[0.2em] text-slate-300">Speakers</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-800 rounded-lg text-slate-500 hover:text-slate-200"
+            title="Close Speakers"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Press a speaker&apos;s number to attribute what follows to them. Names are used in copies and exports.
+          </p>
+
+          <ul className="space-y-2">
+            {speakers.map((speaker, i) => {
+              const speaking = speakingIds.has(speaker.id);
+              return (
+                <li key={speaker.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/40">
+                  <kbd className="text-[10px] font-mono bg-slate-800 px-1.5 py-0.5 rounded border border-slate-700 text-slate-400">{i + 1}</kbd>
+                  <span className={cn("w-2.5 h-2.5 rounded-full shrink-0", SPEAKER_STYLES[speaker.color].dot)} />
+                  <input
+                    value={speaker.name}
+                    onChange={(e) => onUpdate(speaker.id, { name: e.target.value })}
+                    onBlur={(e) => {
+                      if (!e.target.value.trim()) onUpdate(speaker.id, { name: `Speaker ${speaker.id}` });
+                    }}
+                    aria-label={`Name of speaker ${i + 1}`}
+                    className="flex-1 min-w-0 bg-transparent text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+                  />
+                  <select
+                    value={speaker.color}
+                    onChange={(e) => onUpdate(speaker.id, { color: e.target.value as SpeakerColor })}
+                    aria-label={`Colour of speaker ${i + 1}`}
+                    className="bg-slate-800/50 border border-slate-700/50 text-xs rounded-lg px-2 py-1 text-slate-300 focus:outline-none"
+                  >
+                    {SPEAKER_COLOR_NAMES.map(color => <option key={color} value={color}>{color}</option>)}
+                  </select>
+                  <button
+                    onClick={() => onRemove(speaker.id)}
+                    disabled={speaking || speakers.length === 1}
+                    className="p-1 hover:bg-red-500/20 rounded-lg text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:pointer-events-none"
+                    title={speaking ? `${speaker.name} has transcripts` : `Remove ${speaker.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <button
+            onClick={onAdd}
+            disabled={speakers.length >= MAX_SPEAKERS}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add Speaker
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
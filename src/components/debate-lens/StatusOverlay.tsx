@@ -2,20 +2,26 @@
 
 import { motion } from 'framer-motion';
 import { Loader2, AlertCircle } from 'lucide-react';
+import type { ModelEntry } from '@/lib/model-registry';
+import type { InferenceBackend } from '@/types/worker-messages';
 
 interface StatusOverlayProps {
   status: 'initializing' | 'loading' | 'ready' | 'error';
   errorMessage: string | null;
   progress: { stt: number; llm: number };
+  backend: InferenceBackend | null;
+  models: { stt: ModelEntry; llm: ModelEntry };
 }
 
-export function StatusOverlay({ status, errorMessage, progress }: StatusOverlayProps) {
+export function StatusOverlay({ status, errorMessage, progress, backend, models }: StatusOverlayProps) {
+  const isFallback = backend === 'wasm';
+
   if (status === 'error') {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-slate-950 text-white p-8">
         <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
         <h1 className="text-2xl font-bold mb-2">Initialization Failed</h1>
-        <p className="text-slate-400 text-center max-w-md">{errorMessage || 'An unknown error occurred while initializing WebGPU or loading models.'}</p>
+        <p className="text-slate-400 text-center max-w-md">{errorMessage || 'An unknown error occurred while initializing the inference backend or loading models.'}</p>
         <button
           onClick={() => window.location.reload()}
           className="mt-8 px-6 py-2 bg-blue-600 rounded-lg font-bold hover:bg-blue-700 transition-colors"
@@ -39,16 +45,22 @@ export function StatusOverlay({ status, errorMessage, progress }: StatusOverlayP
         <h1 className="text-2xl font-bold mb-2 text-center text-balance tracking-tight">Initializing DebateLens</h1>
         <p className="text-slate-400 mb-8 text-center max-w-md">
           {progress.stt === 0 && progress.llm === 0
-            ? "Setting up WebGPU environment..."
+            ? (isFallback ? "Setting up WASM (CPU) environment..." : "Setting up WebGPU environment...")
             : "Downloading and loading AI models..."}
         </p>
 
+        {isFallback && (
+          <div className="mb-8 px-4 py-2 rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-yellow-300 text-xs max-w-md text-center">
+            WebGPU is unavailable. Running on the CPU with lighter models; fact-checks will be slower and less precise.
+          </div>
+        )}
+
         <div className="w-full max-w-md space-y-6">
           <div>
             <div className="flex justify-between text-sm font-medium mb-2">
               <span className="flex items-center gap-2">
                 <span className="bg-blue-500/20 text-blue-400 px-2 py-1 rounded text-xs">STT</span>
-                Whisper Speech Recognition
+                {models.stt.label} Speech Recognition
               </span>
               <span className="text-slate-300">{Math.round(progress.stt || 0)}%</span>
             </div>
@@ -65,7 +77,7 @@ export function StatusOverlay({ status, errorMessage, progress }: StatusOverlayP
             <div className="flex justify-between text-sm font-medium mb-2">
               <span className="flex items-center gap-2">
                 <span className="bg-purple-500/20 text-purple-400 px-2 py-1 rounded text-xs">LLM</span>
-                Phi-3 Mini Language Model
+                {models.llm.label} Language Model
               </span>
               <span className="text-slate-300">{Math.round(progress.llm || 0)}%</span>
             </div>
@@ -93,7 +105,7 @@ export function StatusOverlay({ status, errorMessage, progress }: StatusOverlayP
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-blue-400 mt-1">•</span>
-                  <span>Initializing WebGPU for hardware acceleration</span>
+                  <span>{isFallback ? 'Initializing WASM for CPU inference' : 'Initializing WebGPU for hardware acceleration'}</span>
                 </li>
                 <li className="flex items-start gap-2">
                   <span className="text-blue-400 mt-1">•</span>
@@ -105,7 +117,7 @@ export function StatusOverlay({ status, errorMessage, progress }: StatusOverlayP
         </div>
 
         <p className="mt-8 text-slate-600 text-[10px] uppercase tracking-[0.2em] font-medium border-t border-slate-900 pt-4">
-          Requires WebGPU • First-time setup may take 1-3 minutes
+          {isFallback ? 'CPU Mode' : 'WebGPU Accelerated'} • First-time setup may take 1-3 minutes
         </p>
       </div>
     );
@@ -0,0 +1,34 @@
+'use client';
+
+import { AlertTriangle, X } from 'lucide-react';
+import type { StorageWarning } from '@/lib/storage';
+
+interface StorageWarningBarProps {
+  warning: StorageWarning | null;
+  onExport: () => void;
+  onDismiss: () => void;
+}
+
+export function StorageWarningBar({ warning, onExport, onDismiss }: StorageWarningBarProps) {
+  if (!warning) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-6 py-2 text-xs text-amber-300 bg-amber-500/5 border-b border-amber-500/20" role="alert">
+      <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+      <span className="flex-1">{warning.message}</span>
+      <button
+        onClick={onExport}
+        className="px-2 py-1 rounded-lg font-bold uppercase tracking-widest text-[10px] hover:bg-amber-500/10"
+      >
+        Export Now
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1 hover:bg-slate-800 rounded-lg text-amber-400/70 hover:text-amber-300"
+        title="Dismiss Warning"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -1,41 +1,233 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle2, XCircle, AlertCircle, Loader2, Trash2, ArrowLeftRight } from 'lucide-react';
+import { CheckCircle2, XCircle, AlertCircle, Loader2, Trash2, ArrowLeftRight, Play, Square, VolumeX, HelpCircle, PenLine, UserCheck, MinusCircle, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Transcript } from '@/hooks/useDebateManager';
+import { segmentByClaims } from '@/lib/claims';
+import { LOW_SPEAKER_CONFIDENCE } from '@/lib/diarization';
+import { Speaker, SPEAKER_STYLES } from '@/lib/speakers';
+import { isHumanVerdict, latestReview, ReviewChange } from '@/lib/reviews';
+import { describeRun, isCurrentRun } from '@/lib/fact-check-history';
+import { getModel } from '@/lib/model-registry';
+import { splitByQuery } from '@/lib/transcript-filter';
+import type { FactCheck, KnowledgeSource, Verdict, VerdictReview } from '@/types/worker-messages';
+import { VerdictReviewForm } from './VerdictReviewForm';
+
+const CLAIM_HIGHLIGHT: Record<Verdict, string> = {
+  True: "bg-green-500/15 decoration-green-400",
+  False: "bg-red-500/15 decoration-red-400",
+  Unverified: "bg-yellow-500/15 decoration-yellow-400",
+  NOT_A_CLAIM: "",
+};
+
+const VERDICT_TEXT: Record<Verdict, string> = {
+  True: "text-green-400",
+  False: "text-red-400",
+  Unverified: "text-yellow-400",
+  NOT_A_CLAIM: "text-slate-400",
+};
+
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+const METER_FILL: Record<Verdict, string> = {
+  True: "bg-green-400",
+  False: "bg-red-400",
+  Unverified: "bg-yellow-400",
+  NOT_A_CLAIM: "bg-slate-400",
+};
+
+function ConfidenceMeter({ check }: { check: FactCheck }) {
+  if (check.confidence === undefined) return null;
+  const percent = Math.round(check.confidence * 100);
+  // A downgraded verdict's confidence belongs to the label it was downgraded from
+  const label = check.downgradedFrom ?? check.verdict;
+
+  return (
+    <div className="mt-4 flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest opacity-80">
+      <span className="shrink-0">Confidence</span>
+      <div
+        className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden"
+        role="meter"
+        aria-label={`${label} confidence`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className={cn("h-full rounded-full", METER_FILL[label])} style={{ width: `${percent}%` }} />
+      </div>
+      <span className="font-mono shrink-0">{percent}%</span>
+    </div>
+  );
+}
+
+function SourceList({ sources }: { sources: KnowledgeSource[] }) {
+  if (sources.length === 0) return null;
+  return (
+    <ol className="mt-3 space-y-1.5 text-xs" aria-label="Sources">
+      {sources.map(src => (
+        <li key={src.ref} className="flex gap-2 opacity-80">
+          <span className="font-mono opacity-60 shrink-0">[{src.ref}]</span>
+          <span>
+            <span className="font-bold">{src.title}</span>
+            <span className="opacity-70"> &mdash; &ldquo;{src.text.length > 160 ? `${src.text.slice(0, 160)}…` : src.text}&rdquo;</span>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** The self-contained claim the model judged, when the spoken one referred to earlier turns. */
+function ResolvedClaim({ text }: { text: string }) {
+  return (
+    <p className="mt-2 text-xs opacity-70">
+      Checked as <span className="italic">&ldquo;{text}&rdquo;</span>
+    </p>
+  );
+}
+
+const REVIEW_ACTIONS: Record<VerdictReview['action'], string> = {
+  override: 'set verdict to',
+  note: 'added a note on',
+  revert: 'reverted to model verdict',
+};
+
+function ReviewHistory({ reviews }: { reviews: VerdictReview[] }) {
+  return (
+    <details className="mt-3 text-xs opacity-80">
+      <summary className="cursor-pointer font-bold uppercase tracking-widest text-[10px]">Review history ({reviews.length})</summary>
+      <ol className="mt-2 space-y-1.5" aria-label="Review history">
+        {reviews.map((review, i) => (
+          <li key={i}>
+            <span className="font-bold">{review.editor}</span> {REVIEW_ACTIONS[review.action]}{' '}
+            {review.action !== 'revert' && <span className="font-bold">{review.verdict}</span>}
+            {review.action === 'revert' && ` (${review.verdict})`}
+            <span className="opacity-60"> · {new Date(review.at).toLocaleString()}</span>
+            {review.note && <p className="opacity-80 italic">&ldquo;{review.note}&rdquo;</p>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
+
+/** `text` with search matches marked. */
+function Highlighted({ text, query }: { text: string; query: string }) {
+  if (!query.trim()) return <>{text}</>;
+  return (
+    <>
+      {splitByQuery(text, query).map((part, i) => part.match ? (
+        <mark key={i} className="bg-blue-500/40 text-inherit rounded-sm" data-testid="search-match">{part.text}</mark>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+const modelLabel = (id: string) => getModel(id)?.label ?? id;
+
+function FactCheckHistory({ check, runs, align, onRestore }: {
+  check: FactCheck | undefined;
+  runs: FactCheck[];
+  align: 'left' | 'right';
+  onRestore?: (checkedAt: number) => void;
+}) {
+  return (
+    <details className={cn("w-full text-xs text-slate-400", align === 'right' && "text-right")}>
+      <summary className="cursor-pointer font-bold uppercase tracking-widest text-[10px]">Fact-check history ({runs.length})</summary>
+      <ol className="mt-2 space-y-1.5" aria-label="Fact-check history">
+        {[...runs].reverse().map((run, i) => (
+          <li key={i} className={cn("flex items-center gap-2", align === 'right' && "flex-row-reverse")}>
+            <span className={cn("font-black text-[10px] uppercase tracking-[0.2em]", VERDICT_TEXT[run.verdict])}>
+              {run.verdict === 'NOT_A_CLAIM' ? 'Not a claim' : run.verdict}
+            </span>
+            {run.confidence !== undefined && <span className="font-mono opacity-60">{Math.round(run.confidence * 100)}%</span>}
+            <span className="truncate" title={run.explanation}>
+              {describeRun(run, modelLabel)}
+              {run.checkedAt !== undefined && <span className="opacity-60"> · {new Date(run.checkedAt).toLocaleString()}</span>}
+            </span>
+            {isCurrentRun(check, run) ? (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-blue-400">In use</span>
+            ) : onRestore && run.checkedAt !== undefined && (
+              <button
+                onClick={() => onRestore(run.checkedAt!)}
+                className="px-2 py-0.5 rounded bg-slate-800 text-slate-300 hover:text-slate-100 text-[10px] font-bold uppercase tracking-widest"
+              >
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
 
 interface TranscriptItemProps {
   transcript: Transcript;
+  speaker: Speaker;
+  side: 'left' | 'right';
   onDelete: (id: string) => void;
   onSwap: (id: string) => void;
+  isPlaying?: boolean;
+  /** False once playback found the stored audio evicted. */
+  audioAvailable?: boolean;
+  onTogglePlay?: (id: string) => void;
+  editorName?: string;
+  onReview?: (id: string, change: ReviewChange) => void;
+  onRevertReview?: (id: string) => void;
+  onRecheck?: (id: string) => void;
+  onRestoreFactCheck?: (id: string, checkedAt: number) => void;
+  /** Search text to mark in the transcript. */
+  highlight?: string;
+  /** Play the entrance animation; off for rows scrolled back into view. */
+  animateIn?: boolean;
 }
 
-export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: TranscriptItemProps) => {
+export const TranscriptItem = React.memo(({ transcript: t, speaker, side, onDelete, onSwap, isPlaying = false, audioAvailable = true, onTogglePlay, editorName = '', onReview, onRevertReview, onRecheck, onRestoreFactCheck, highlight = '', animateIn = true }: TranscriptItemProps) => {
+  const [reviewing, setReviewing] = useState(false);
+  const claims = t.factCheck?.claims ?? [];
+  const reviewed = isHumanVerdict(t.factCheck);
+  const lastReview = latestReview(t.factCheck);
+  // Claims are located in the text that was fact-checked
+  const segments = segmentByClaims(t.translation ?? t.text, claims);
+  const speakerUncertain = t.speakerConfidence !== undefined && t.speakerConfidence < LOW_SPEAKER_CONFIDENCE;
+  const style = SPEAKER_STYLES[speaker.color];
+  const left = side === 'left';
+
   return (
     <motion.div
-      layout
-      initial={{ opacity: 0, y: 30, scale: 0.95 }}
+      initial={animateIn ? { opacity: 0, y: 30, scale: 0.95 } : false}
       animate={{ opacity: 1, y: 0, scale: 1 }}
       transition={{ type: "spring", damping: 25, stiffness: 200 }}
       className={cn(
         "flex flex-col max-w-[85%] md:max-w-[70%] space-y-3",
-        t.speaker === 'A' ? "self-start" : "self-end items-end"
+        left ? "self-start" : "self-end items-end"
       )}
     >
       <div className={cn(
         "px-6 py-5 rounded-3xl text-lg md:text-xl shadow-2xl transition-all duration-700 leading-relaxed relative group overflow-hidden",
-        t.speaker === 'A' 
-          ? "bg-slate-900/80 rounded-tl-none border-l-4 border-blue-500/50" 
-          : "bg-slate-900/80 rounded-tr-none border-r-4 border-red-500/50 text-right",
-        t.isChecking && (t.speaker === 'A' ? "shadow-[0_0_50px_rgba(59,130,246,0.3)] border-blue-400" : "shadow-[0_0_50px_rgba(239,68,68,0.3)] border-red-400")
+        left 
+          ? "bg-slate-900/80 rounded-tl-none border-l-4" 
+          : "bg-slate-900/80 rounded-tr-none border-r-4 text-right",
+        style.border,
+        t.isChecking && style.glow
       )}>
         {t.isChecking && (
           <motion.div 
             className={cn(
               "absolute inset-0 opacity-20 pointer-events-none",
-              t.speaker === 'A' ? "bg-gradient-to-r from-blue-600/0 via-blue-600/50 to-blue-600/0" : "bg-gradient-to-r from-red-600/0 via-red-600/50 to-red-600/0"
+              "bg-gradient-to-r",
+              style.sweep
             )}
             animate={{ x: ['-100%', '100%'] }}
             transition={{ repeat: Infinity, duration: 2, ease: "linear" }}
@@ -44,8 +236,43 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
         
         <div className={cn(
           "absolute top-4 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 z-20",
-          t.speaker === 'A' ? "right-4" : "left-4"
+          left ? "right-4" : "left-4",
+          isPlaying && "opacity-100"
         )}>
+          {t.hasAudio && onTogglePlay && (audioAvailable ? (
+            <button
+              onClick={() => onTogglePlay(t.id)}
+              className={cn(
+                "p-1.5 hover:bg-emerald-500/20 rounded-lg hover:text-emerald-400",
+                isPlaying ? "text-emerald-400" : "text-slate-500"
+              )}
+              title={isPlaying ? "Stop audio" : "Play audio"}
+            >
+              {isPlaying ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+          ) : (
+            <span className="p-1.5 text-slate-700" title="Audio no longer stored">
+              <VolumeX className="w-4 h-4" />
+            </span>
+          ))}
+          {onRecheck && !t.isChecking && (
+            <button
+              onClick={() => onRecheck(t.id)}
+              className="p-1.5 hover:bg-sky-500/20 rounded-lg text-slate-500 hover:text-sky-400"
+              title="Re-check"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          )}
+          {onReview && !t.isChecking && (
+            <button
+              onClick={() => setReviewing(open => !open)}
+              className="p-1.5 hover:bg-violet-500/20 rounded-lg text-slate-500 hover:text-violet-400"
+              title="Review verdict"
+            >
+              <PenLine className="w-4 h-4" />
+            </button>
+          )}
           <button
             onClick={() => onSwap(t.id)}
             className="p-1.5 hover:bg-blue-500/20 rounded-lg text-slate-500 hover:text-blue-400"
@@ -64,14 +291,46 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
 
         <div className={cn(
           "flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] mb-3",
-          t.speaker === 'A' ? "text-blue-500" : "text-red-500 justify-end"
+          style.text,
+          !left && "justify-end"
         )}>
-          {t.speaker === 'A' && <div className="w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]" />}
-          Speaker {t.speaker}
-          {t.speaker === 'B' && <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />}
+          {left && <div className={cn("w-2 h-2 rounded-full", style.dot)} />}
+          {speaker.name}
+          {speakerUncertain && (
+            <span
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 tracking-widest"
+              title={`Detected speaker is uncertain (${Math.round(t.speakerConfidence! * 100)}%). Swap it if it is wrong.`}
+            >
+              <HelpCircle className="w-3 h-3" />
+              Unsure
+            </span>
+          )}
+          {t.language && (
+            <span className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 tracking-widest" title={languageName(t.language)}>
+              {t.language}
+            </span>
+          )}
+          {!left && <div className={cn("w-2 h-2 rounded-full", style.dot)} />}
         </div>
-        <span className="text-slate-100 font-medium relative z-10">
-          {t.text}
+        {t.translation && (
+          <p className="text-slate-400 font-medium relative z-10 mb-3" lang={t.language}><Highlighted text={t.text} query={highlight} /></p>
+        )}
+        <span
+          className="text-slate-100 font-medium relative z-10"
+          lang={t.translation ? 'en' : t.language}
+          title={t.translation ? 'English translation' : undefined}
+        >
+          {segments.map((segment, i) => segment.claim ? (
+            <mark
+              key={i}
+              className={cn("text-inherit rounded px-0.5 underline decoration-2 underline-offset-4", CLAIM_HIGHLIGHT[segment.claim.verdict])}
+              title={`${segment.claim.verdict}: ${segment.claim.explanation}`}
+            >
+              <Highlighted text={segment.text} query={highlight} />
+            </mark>
+          ) : (
+            <Highlighted key={i} text={segment.text} query={highlight} />
+          ))}
         </span>
       </div>
 
@@ -81,7 +340,7 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
           animate={{ opacity: 1 }}
           className={cn(
             "flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-blue-400/70",
-            t.speaker === 'B' && "flex-row-reverse"
+            !left && "flex-row-reverse"
           )}
         >
           <Loader2 className="w-3 h-3 animate-spin" />
@@ -89,7 +348,24 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
         </motion.div>
       )}
 
-      {t.factCheck && t.factCheck.verdict !== 'NOT_A_CLAIM' && (
+      {reviewing && onReview && (
+        <VerdictReviewForm
+          check={t.factCheck}
+          editorName={editorName}
+          align={side}
+          onSave={(change) => {
+            onReview(t.id, change);
+            setReviewing(false);
+          }}
+          onRevert={() => {
+            onRevertReview?.(t.id);
+            setReviewing(false);
+          }}
+          onCancel={() => setReviewing(false)}
+        />
+      )}
+
+      {t.factCheck && (t.factCheck.verdict !== 'NOT_A_CLAIM' || reviewed) && (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
           animate={{ opacity: 1, scale: 1 }}
@@ -97,7 +373,8 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
             "p-5 rounded-2xl border text-sm w-full shadow-xl backdrop-blur-md relative overflow-hidden",
             t.factCheck.verdict === 'True' && "bg-green-500/10 border-green-500/30 text-green-50",
             t.factCheck.verdict === 'False' && "bg-red-500/10 border-red-500/30 text-red-50",
-            t.factCheck.verdict === 'Unverified' && "bg-yellow-500/10 border-yellow-500/30 text-yellow-50"
+            t.factCheck.verdict === 'Unverified' && "bg-yellow-500/10 border-yellow-500/30 text-yellow-50",
+            t.factCheck.verdict === 'NOT_A_CLAIM' && "bg-slate-500/10 border-slate-500/30 text-slate-200"
           )}
         >
           <div className={cn(
@@ -109,12 +386,63 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
             {t.factCheck.verdict === 'True' && <CheckCircle2 className="w-4 h-4" />}
             {t.factCheck.verdict === 'False' && <XCircle className="w-4 h-4" />}
             {t.factCheck.verdict === 'Unverified' && <AlertCircle className="w-4 h-4" />}
-            {t.factCheck.verdict}
+            {t.factCheck.verdict === 'NOT_A_CLAIM' && <MinusCircle className="w-4 h-4" />}
+            {t.factCheck.verdict === 'NOT_A_CLAIM' ? 'Not a claim' : t.factCheck.verdict}
+            {reviewed && lastReview && (
+              <span
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-violet-500/15 text-violet-300 tracking-widest"
+                title={`Reviewed by ${lastReview.editor} on ${new Date(lastReview.at).toLocaleString()}`}
+              >
+                <UserCheck className="w-3 h-3" />
+                Human Reviewed
+              </span>
+            )}
           </div>
           <p className="opacity-90 leading-relaxed font-medium">
             {t.factCheck.explanation}
           </p>
+          {t.factCheck.downgradedFrom && (
+            <p className="mt-2 text-xs opacity-70">
+              Model said {t.factCheck.downgradedFrom}, below your confidence threshold.
+            </p>
+          )}
+          {t.factCheck.modelVerdict && (
+            <p className="mt-2 text-xs opacity-70">
+              Model said {t.factCheck.modelVerdict.verdict}
+              {t.factCheck.modelVerdict.confidence !== undefined && ` (${Math.round(t.factCheck.modelVerdict.confidence * 100)}%)`}
+              {t.factCheck.modelVerdict.explanation && `: ${t.factCheck.modelVerdict.explanation}`}
+            </p>
+          )}
+          {claims.length <= 1 && t.factCheck.resolvedClaim && <ResolvedClaim text={t.factCheck.resolvedClaim} />}
+          <ConfidenceMeter check={t.factCheck} />
+
+          {claims.length <= 1 && <SourceList sources={t.factCheck.sources ?? []} />}
+
+          {claims.length > 1 && (
+            <ul className="mt-4 space-y-3 border-t border-white/10 pt-4">
+              {claims.map((c, i) => (
+                <li key={i} className="space-y-1">
+                  <div className="flex items-start gap-2">
+                    <span className={cn("font-black text-[10px] uppercase tracking-[0.2em] shrink-0 mt-0.5", VERDICT_TEXT[c.verdict])}>
+                      {c.verdict}
+                    </span>
+                    <span className="italic opacity-90">&ldquo;{c.claim?.text}&rdquo;</span>
+                    {c.confidence !== undefined && (
+                      <span className="ml-auto font-mono text-[10px] opacity-60 shrink-0" title={c.downgradedFrom ? `Downgraded from ${c.downgradedFrom}` : undefined}>
+                        {Math.round(c.confidence * 100)}%
+                      </span>
+                    )}
+                  </div>
+                  {c.resolvedClaim && <ResolvedClaim text={c.resolvedClaim} />}
+                  <p className="opacity-70 text-xs leading-relaxed">{c.explanation}</p>
+                  <SourceList sources={c.sources ?? []} />
+                </li>
+              ))}
+            </ul>
+          )}
           
+          {t.factCheck.reviews && t.factCheck.reviews.length > 0 && <ReviewHistory reviews={t.factCheck.reviews} />}
+
           <div className={cn(
             "absolute top-0 right-0 w-24 h-24 blur-[40px] opacity-20 -mr-12 -mt-12 rounded-full",
             t.factCheck.verdict === 'True' && "bg-green-500",
@@ -123,6 +451,15 @@ export const TranscriptItem = React.memo(({ transcript: t, onDelete, onSwap }: T
           )} />
         </motion.div>
       )}
+
+      {!t.isChecking && t.factCheckHistory && t.factCheckHistory.length > 1 && (
+        <FactCheckHistory
+          check={t.factCheck}
+          runs={t.factCheckHistory}
+          align={side}
+          onRestore={onRestoreFactCheck && (checkedAt => onRestoreFactCheck(t.id, checkedAt))}
+        />
+      )}
     </motion.div>
   );
 });
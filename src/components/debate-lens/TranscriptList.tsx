@@ -1,81 +1,165 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
-import { AnimatePresence } from 'framer-motion';
-import { Mic, Loader2 } from 'lucide-react';
-import { Transcript } from '@/hooks/useDebateManager';
+import { useRef, useMemo, useLayoutEffect, ReactNode } from 'react';
+import { Mic, Loader2, SearchX, ArrowDown } from 'lucide-react';
+import { PartialTranscript, Transcript } from '@/hooks/useDebateManager';
+import { useVirtualList } from '@/hooks/useVirtualList';
+import { cn } from '@/lib/utils';
+import { findSpeaker, Speaker, speakerSide } from '@/lib/speakers';
+import type { ReviewChange } from '@/lib/reviews';
 import { TranscriptItem } from './TranscriptItem';
 
 interface TranscriptListProps {
   transcripts: Transcript[];
+  speakers: Speaker[];
+  partial?: PartialTranscript | null;
   onDelete: (id: string) => void;
   onSwap: (id: string) => void;
+  playingId?: string | null;
+  missingAudioIds?: Set<string>;
+  onTogglePlay?: (id: string) => void;
+  editorName?: string;
+  onReview?: (id: string, change: ReviewChange) => void;
+  onRevertReview?: (id: string) => void;
+  onRecheck?: (id: string) => void;
+  onRestoreFactCheck?: (id: string, checkedAt: number) => void;
+  /** Search text to mark in each transcript. */
+  highlight?: string;
+  /** Transcripts are hidden by filters, so an empty list is not an empty session. */
+  filtered?: boolean;
 }
 
-export function TranscriptList({ transcripts, onDelete, onSwap }: TranscriptListProps) {
-  const scrollRef = useRef<HTMLDivElement>(null);
+/** Reports its height whenever it changes, so the list can size the spacers standing in for unmounted rows. */
+function MeasuredRow({ id, onMeasure, children }: { id: string; onMeasure: (id: string, height: number) => void; children: ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-    }
-  }, [transcripts]);
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const measure = () => onMeasure(id, el.offsetHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [id, onMeasure]);
+
+  return <div ref={ref} className="pb-8">{children}</div>;
+}
+
+export function TranscriptList({ transcripts, speakers, partial, onDelete, onSwap, playingId, missingAudioIds, onTogglePlay, editorName, onReview, onRevertReview, onRecheck, onRestoreFactCheck, highlight, filtered = false }: TranscriptListProps) {
+  const ids = useMemo(() => transcripts.map(t => t.id), [transcripts]);
+  const { scrollRef, onScroll, start, end, paddingTop, paddingBottom, measureRow, following, jumpToLive } = useVirtualList<HTMLElement>(ids, partial?.text);
 
   return (
-    <main 
-      ref={scrollRef}
-      className="flex-1 overflow-y-auto p-6 md:p-8 space-y-8 scroll-smooth"
-    >
-      <AnimatePresence mode="popLayout" initial={false}>
-        {transcripts.map((t) => (
-          <TranscriptItem 
-            key={t.id} 
-            transcript={t} 
-            onDelete={onDelete} 
-            onSwap={onSwap} 
-          />
+    <div className="relative flex-1 min-h-0 flex flex-col">
+      <main 
+        ref={scrollRef}
+        onScroll={onScroll}
+        className="flex-1 overflow-y-auto p-6 md:p-8"
+      >
+        <div style={{ height: paddingTop }} aria-hidden="true" />
+        {transcripts.slice(start, end).map((t, i) => (
+          <MeasuredRow key={t.id} id={t.id} onMeasure={measureRow}>
+            <TranscriptItem 
+              transcript={t} 
+              speaker={findSpeaker(speakers, t.speaker)}
+              side={speakerSide(speakers, t.speaker)}
+              onDelete={onDelete} 
+              onSwap={onSwap} 
+              isPlaying={playingId === t.id}
+              audioAvailable={!missingAudioIds?.has(t.id)}
+              onTogglePlay={onTogglePlay}
+              editorName={editorName}
+              onReview={onReview}
+              onRevertReview={onRevertReview}
+              onRecheck={onRecheck}
+              onRestoreFactCheck={onRestoreFactCheck}
+              highlight={highlight}
+              // Only a row arriving at the live end animates, not one scrolled back into view
+              animateIn={following && start + i === transcripts.length - 1}
+            />
+          </MeasuredRow>
         ))}
-      </AnimatePresence>
-      
-      {transcripts.length === 0 && (
-        <div className="h-full flex flex-col items-center justify-center text-slate-500 space-y-6 opacity-30">
-          <div className="relative">
-            <div className="w-24 h-24 rounded-full border-2 border-dashed border-slate-700 flex items-center justify-center">
-              <Mic className="w-10 h-10" />
-            </div>
-            <div className="absolute -bottom-2 -right-2 bg-slate-950 p-1">
-              <Loader2 className="w-6 h-6 animate-spin-slow text-slate-800" />
+        <div style={{ height: paddingBottom }} aria-hidden="true" />
+
+        {partial?.text && (
+          <div
+            className={cn(
+              "flex flex-col max-w-[85%] md:max-w-[70%]",
+              speakerSide(speakers, partial.speaker) === 'left' ? "self-start" : "self-end items-end ml-auto"
+            )}
+            aria-live="polite"
+            data-testid="partial-transcript"
+          >
+            <div className={cn(
+              "px-6 py-5 rounded-3xl text-lg md:text-xl leading-relaxed bg-slate-900/40 border border-dashed border-slate-800",
+              speakerSide(speakers, partial.speaker) === 'left' ? "rounded-tl-none" : "rounded-tr-none text-right"
+            )}>
+              <div className="text-[10px] font-black uppercase tracking-[0.2em] mb-3 text-slate-600">
+                {findSpeaker(speakers, partial.speaker).name} · Listening...
+              </div>
+              <span className="text-slate-500 italic">{partial.text}</span>
             </div>
           </div>
-          <div className="text-center space-y-1">
-            <p className="text-xl font-bold tracking-tight">System Ready</p>
-            <p className="text-sm">Speak into your microphone to begin analysis</p>
+        )}
+        
+        {transcripts.length === 0 && filtered && (
+          <div className="h-full flex flex-col items-center justify-center text-slate-500 space-y-3 opacity-60">
+            <SearchX className="w-10 h-10" />
+            <p className="text-sm">No transcripts match the filters.</p>
           </div>
-        </div>
-      )}
+        )}
 
-      <style jsx global>{`
-        .animate-spin-slow {
-          animation: spin 3s linear infinite;
-        }
-        @keyframes spin {
-          from { transform: rotate(0deg); }
-          to { transform: rotate(360deg); }
-        }
-        ::-webkit-scrollbar {
-          width: 8px;
-        }
-        ::-webkit-scrollbar-track {
-          background: transparent;
-        }
-        ::-webkit-scrollbar-thumb {
-          background: #1e293b;
-          border-radius: 10px;
-        }
-        ::-webkit-scrollbar-thumb:hover {
-          background: #334155;
-        }
-      `}</style>
-    </main>
+        {transcripts.length === 0 && !filtered && !partial?.text && (
+          <div className="h-full flex flex-col items-center justify-center text-slate-500 space-y-6 opacity-30">
+            <div className="relative">
+              <div className="w-24 h-24 rounded-full border-2 border-dashed border-slate-700 flex items-center justify-center">
+                <Mic className="w-10 h-10" />
+              </div>
+              <div className="absolute -bottom-2 -right-2 bg-slate-950 p-1">
+                <Loader2 className="w-6 h-6 animate-spin-slow text-slate-800" />
+              </div>
+            </div>
+            <div className="text-center space-y-1">
+              <p className="text-xl font-bold tracking-tight">System Ready</p>
+              <p className="text-sm">Speak into your microphone to begin analysis</p>
+            </div>
+          </div>
+        )}
+
+        <style jsx global>{`
+          .animate-spin-slow {
+            animation: spin 3s linear infinite;
+          }
+          @keyframes spin {
+            from { transform: rotate(0deg); }
+            to { transform: rotate(360deg); }
+          }
+          ::-webkit-scrollbar {
+            width: 8px;
+          }
+          ::-webkit-scrollbar-track {
+            background: transparent;
+          }
+          ::-webkit-scrollbar-thumb {
+            background: #1e293b;
+            border-radius: 10px;
+          }
+          ::-webkit-scrollbar-thumb:hover {
+            background: #334155;
+          }
+        `}</style>
+      </main>
+
+      {!following && (
+        <button
+          onClick={jumpToLive}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold uppercase tracking-widest shadow-xl"
+        >
+          <ArrowDown className="w-3.5 h-3.5" />
+          Jump to Live
+        </button>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,50 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { CLAIM_VERDICTS, ClaimVerdict, VerdictCounts, verdictRate } from '@/lib/analytics';
+
+const SEGMENT_FILL: Record<ClaimVerdict, string> = {
+  True: "bg-green-400",
+  False: "bg-red-400",
+  Unverified: "bg-yellow-400",
+};
+
+/** "3 true (60%), 1 false (20%), 1 unverified (20%)" */
+export function describeVerdicts(counts: VerdictCounts): string {
+  return CLAIM_VERDICTS
+    .map(v => `${counts[v]} ${v.toLowerCase()} (${Math.round(verdictRate(counts, v) * 100)}%)`)
+    .join(', ');
+}
+
+/** True, False and Unverified shares of the claims as one stacked bar. */
+export function VerdictBar({ counts, className }: { counts: VerdictCounts; className?: string }) {
+  return (
+    <div className={cn("flex h-1.5 rounded-full bg-white/10 overflow-hidden", className)}>
+      {CLAIM_VERDICTS.map(v => counts[v] > 0 && (
+        <div key={v} className={SEGMENT_FILL[v]} style={{ width: `${verdictRate(counts, v) * 100}%` }} />
+      ))}
+    </div>
+  );
+}
+
+interface TruthMeterProps {
+  claims: number;
+  verdicts: VerdictCounts;
+  onClick: () => void;
+}
+
+/** Compact, live share of true claims for the header; opens the analytics view. */
+export function TruthMeter({ claims, verdicts, onClick }: TruthMeterProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="flex flex-col gap-1 w-28 px-2 py-1 rounded-lg hover:bg-slate-800/60 text-left"
+      title={claims > 0 ? `Truth meter: ${describeVerdicts(verdicts)}` : 'Truth meter: no claims checked yet'}
+    >
+      <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+        {claims > 0 ? `${Math.round(verdictRate(verdicts, 'True') * 100)}% True` : 'No claims yet'}
+      </span>
+      <VerdictBar counts={verdicts} className="w-full" />
+    </button>
+  );
+}
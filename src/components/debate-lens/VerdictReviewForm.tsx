@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { isHumanVerdict, ReviewChange } from '@/lib/reviews';
+import type { FactCheck, Verdict } from '@/types/worker-messages';
+
+const VERDICT_OPTIONS: { value: Verdict; label: string }[] = [
+  { value: 'True', label: 'True' },
+  { value: 'False', label: 'False' },
+  { value: 'Unverified', label: 'Unverified' },
+  { value: 'NOT_A_CLAIM', label: 'Not a claim' },
+];
+
+interface VerdictReviewFormProps {
+  check?: FactCheck;
+  editorName: string;
+  align: 'left' | 'right';
+  onSave: (change: ReviewChange) => void;
+  onRevert: () => void;
+  onCancel: () => void;
+}
+
+export function VerdictReviewForm({ check, editorName, align, onSave, onRevert, onCancel }: VerdictReviewFormProps) {
+  const [editor, setEditor] = useState(editorName);
+  const [verdict, setVerdict] = useState<Verdict>(check?.verdict ?? 'Unverified');
+  const [explanation, setExplanation] = useState(check?.explanation ?? '');
+  const [note, setNote] = useState('');
+  const changed = verdict !== check?.verdict || explanation.trim() !== (check?.explanation ?? '');
+  const canSave = editor.trim() !== '' && explanation.trim() !== '' && (changed || note.trim() !== '');
+
+  const inputClass = "w-full bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-3 py-2 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <form
+      className={cn("w-full p-4 rounded-2xl border border-slate-700/50 bg-slate-900/80 space-y-3 text-left", align === 'right' && "self-end")}
+      aria-label="Review verdict"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSave) onSave({ editor: editor.trim(), verdict, explanation: explanation.trim(), note });
+      }}
+    >
+      <div className="flex gap-2">
+        <select
+          value={verdict}
+          onChange={(e) => setVerdict(e.target.value as Verdict)}
+          aria-label="Verdict"
+          className="bg-slate-800/50 border border-slate-700/50 text-sm rounded-xl px-2 py-2 text-slate-100 focus:outline-none"
+        >
+          {VERDICT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <input
+          value={editor}
+          onChange={(e) => setEditor(e.target.value)}
+          aria-label="Reviewer name"
+          placeholder="Your name"
+          className={inputClass}
+        />
+      </div>
+      <textarea
+        value={explanation}
+        onChange={(e) => setExplanation(e.target.value)}
+        aria-label="Explanation"
+        placeholder="Why this verdict?"
+        rows={3}
+        className={cn(inputClass, "resize-none")}
+      />
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        aria-label="Review note"
+        placeholder="Note for other editors (optional)"
+        rows={2}
+        className={cn(inputClass, "resize-none")}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white"
+        >
+          Save Review
+        </button>
+        {isHumanVerdict(check) && (
+          <button
+            type="button"
+            onClick={onRevert}
+            className="px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200"
+          >
+            Revert to Model Verdict
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="ml-auto px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest text-slate-500 hover:text-slate-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -2,7 +2,7 @@
 import { renderHook } from '@testing-library/react';
 import { useAudioProcessor } from './useAudioProcessor';
 import { useMicVAD } from '@ricky0123/vad-react';
-import { vi, describe, it, expect } from 'vitest';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
 
 vi.mock('@ricky0123/vad-react', () => ({
   useMicVAD: vi.fn(),
@@ -48,4 +48,42 @@ describe('useAudioProcessor', () => {
 
     expect(onSpeechEndMock).toHaveBeenCalledWith(testAudio);
   });
+
+  describe('interim audio', () => {
+    let options: any;
+    const frame = () => new Float32Array(512);
+
+    beforeEach(() => {
+      (useMicVAD as any).mockImplementation((opts: any) => {
+        options = opts;
+        return { loading: false, errored: false };
+      });
+    });
+
+    it('emits the utterance so far about once a second while speaking', () => {
+      const interim = { onSpeechPartial: vi.fn(), onSpeechDiscarded: vi.fn() };
+      renderHook(() => useAudioProcessor(vi.fn(), undefined, interim));
+
+      // Frames before speech starts are ignored
+      options.onFrameProcessed({}, frame());
+      options.onSpeechStart();
+      for (let i = 0; i < 40; i++) options.onFrameProcessed({}, frame());
+
+      expect(interim.onSpeechPartial).toHaveBeenCalledTimes(1);
+      expect(interim.onSpeechPartial.mock.calls[0][0]).toHaveLength(32 * 512);
+
+      options.onSpeechEnd(new Float32Array(1));
+      for (let i = 0; i < 40; i++) options.onFrameProcessed({}, frame());
+      expect(interim.onSpeechPartial).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports misfires so interim text can be dropped', () => {
+      const interim = { onSpeechPartial: vi.fn(), onSpeechDiscarded: vi.fn() };
+      renderHook(() => useAudioProcessor(vi.fn(), undefined, interim));
+
+      options.onSpeechStart();
+      options.onVADMisfire();
+      expect(interim.onSpeechDiscarded).toHaveBeenCalled();
+    });
+  });
 });
@@ -1,16 +1,71 @@
+import { useRef } from "react";
 import { useMicVAD } from "@ricky0123/vad-react";
+import { ONNX_WASM_BASE_PATH, PARTIAL_TRANSCRIPT_INTERVAL_MS, PARTIAL_TRANSCRIPT_WINDOW_S, SAMPLE_RATE } from "@/lib/constants";
+
+const PARTIAL_INTERVAL_SAMPLES = (PARTIAL_TRANSCRIPT_INTERVAL_MS / 1000) * SAMPLE_RATE;
+const PARTIAL_WINDOW_SAMPLES = PARTIAL_TRANSCRIPT_WINDOW_S * SAMPLE_RATE;
+
+export interface InterimCallbacks {
+  /** Receives the audio of the utterance in progress, about once per interval. */
+  onSpeechPartial: (audio: Float32Array) => void;
+  /** The utterance in progress was a misfire and will not be transcribed. */
+  onSpeechDiscarded: () => void;
+}
+
+function concatFrames(frames: Float32Array[]): Float32Array {
+  const audio = new Float32Array(frames.reduce((n, f) => n + f.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    audio.set(frame, offset);
+    offset += frame.length;
+  }
+  return audio;
+}
 
 export function useAudioProcessor(
   onSpeechEnd: (audio: Float32Array) => void,
-  deviceId?: string
+  deviceId?: string,
+  interim?: InterimCallbacks
 ) {
+  const speakingRef = useRef(false);
+  const framesRef = useRef<Float32Array[]>([]);
+  const sinceLastPartialRef = useRef(0);
+
+  const resetUtterance = (speaking: boolean) => {
+    speakingRef.current = speaking;
+    framesRef.current = [];
+    sinceLastPartialRef.current = 0;
+  };
+
   const vad = useMicVAD({
     baseAssetPath: "/",
-    onnxWASMBasePath: "https://cdn.jsdelivr.net/npm/onnxruntime-web@1.23.2/dist/",
+    onnxWASMBasePath: ONNX_WASM_BASE_PATH,
     model: "v5",
     // 500ms silence detection
     redemptionMs: 500,
+    onSpeechStart: () => {
+      resetUtterance(true);
+    },
+    onFrameProcessed: (_probabilities, frame) => {
+      if (!interim || !speakingRef.current) return;
+
+      const frames = framesRef.current;
+      frames.push(frame.slice());
+      const maxFrames = Math.floor(PARTIAL_WINDOW_SAMPLES / frame.length);
+      if (frames.length > maxFrames) frames.splice(0, frames.length - maxFrames);
+
+      sinceLastPartialRef.current += frame.length;
+      if (sinceLastPartialRef.current < PARTIAL_INTERVAL_SAMPLES) return;
+
+      sinceLastPartialRef.current = 0;
+      interim.onSpeechPartial(concatFrames(frames));
+    },
+    onVADMisfire: () => {
+      resetUtterance(false);
+      interim?.onSpeechDiscarded();
+    },
     onSpeechEnd: (audio) => {
+      resetUtterance(false);
       onSpeechEnd(audio);
     },
     ...(deviceId ? { deviceId } : {}),
@@ -1,51 +1,162 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useAudioProcessor } from './useAudioProcessor';
-import { DEBOUNCE_MS } from '@/lib/constants';
-import { WorkerRequest, WorkerResponse } from '@/types/worker-messages';
-import { storage, pruneTranscripts } from '@/lib/storage';
-
-export interface FactCheck {
-  verdict: 'True' | 'False' | 'Unverified' | 'NOT_A_CLAIM';
-  explanation: string;
-}
+import { useKnowledgeBase } from './useKnowledgeBase';
+import { usePromptTemplates } from './usePromptTemplates';
+import { useRecordingImport } from './useRecordingImport';
+import { DEBOUNCE_MS, SAMPLE_RATE } from '@/lib/constants';
+import { FactCheck, InferenceBackend, ModelSelection, WorkerRequest, WorkerResponse } from '@/types/worker-messages';
+import { storage, pruneTranscripts, StorageWarning } from '@/lib/storage';
+import { recordRun } from '@/lib/fact-check-history';
+import { conversationContext } from '@/lib/conversation-context';
+import { DEFAULT_TEMPLATE_ID } from '@/lib/prompt-templates';
+import { applyReview, DEFAULT_EDITOR_NAME, ReviewChange, revertReview, withModelResult } from '@/lib/reviews';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '@/lib/confidence';
+import { TimedWord, toTimedWords } from '@/lib/timestamps';
+import { audioStore, DEFAULT_AUDIO_LIMIT_MB } from '@/lib/audio-store';
+import { encodeWav } from '@/lib/wav';
+import { createSpeaker, rosterForTranscripts, Speaker } from '@/lib/speakers';
+import { defaultSessionName, sessionStore, SessionSummary, summarizeTranscripts } from '@/lib/sessions';
+import { mergeSpeakers, mergeTranscripts, parseSessionExport, RejectedRecord, SessionImportReport } from '@/lib/session-import';
+
+export type { FactCheck, Verdict } from '@/types/worker-messages';
 
 export interface Transcript {
   id: string;
   text: string;
-  speaker: 'A' | 'B';
+  /** Roster id; see `speakers` for the display name and colour. */
+  speaker: string;
   isChecking: boolean;
   timestamp: number;
   lastUpdated: number;
+  /** Word timings from the speech recognizer; absent for typed transcripts. */
+  words?: TimedWord[];
+  /** Spoken language detected by a multilingual speech model. */
+  language?: string;
+  /** English translation of `text`; fact-checks run on this when present. */
+  translation?: string;
+  /** Diarization's certainty about `speaker`; absent for manual attribution. */
+  speakerConfidence?: number;
+  /** Whether utterance audio was stored for playback; it may since have been evicted. */
+  hasAudio?: boolean;
   factCheck?: FactCheck;
+  /** Model results for the current text, oldest first, so re-checks can be compared. */
+  factCheckHistory?: FactCheck[];
+}
+
+type TranscriptionDetails = Pick<WorkerResponse, 'chunks' | 'language' | 'translation' | 'speakerConfidence'>;
+
+/** Interim text for the utterance still being spoken, replaced by the final transcription. */
+export interface PartialTranscript {
+  id: string;
+  text: string;
+  speaker: string;
+}
+
+/** How far a "re-check all" has got; `done` transcripts are finished. */
+export interface RecheckProgress {
+  done: number;
+  total: number;
 }
 
 export type AppStatus = 'initializing' | 'loading' | 'ready' | 'error';
 
-const STORAGE_KEY = 'debatelens_transcripts';
-const MAX_TRANSCRIPTS = 100;
+const MODELS_STORAGE_KEY = 'debatelens_models';
+const THRESHOLD_STORAGE_KEY = 'debatelens_confidence_threshold';
+const TRANSLATE_STORAGE_KEY = 'debatelens_translate';
+const AUDIO_LIMIT_STORAGE_KEY = 'debatelens_audio_limit_mb';
+const DIARIZE_STORAGE_KEY = 'debatelens_diarize';
+const EDITOR_STORAGE_KEY = 'debatelens_editor_name';
+const MAX_TRANSCRIPTS = 5000;
+/** Session size at which users are told the oldest transcripts will soon be dropped. */
+const TRANSCRIPT_WARNING_AT = 4500;
 
 export function useDebateManager() {
-  const [transcripts, setTranscripts] = useState<Transcript[]>(() => {
-    const saved = storage.get<Transcript[]>(STORAGE_KEY, []);
-    return saved.map(t => ({ ...t, isChecking: false }));
-  });
-
-  const [activeSpeaker, setActiveSpeaker] = useState<'A' | 'B'>('A');
+  const [initialSession] = useState(() => sessionStore.open());
+  const [activeSessionId, setActiveSessionId] = useState(initialSession.session.id);
+  const [sessions, setSessions] = useState<SessionSummary[]>(() => sessionStore.list());
+  const [transcripts, setTranscripts] = useState<Transcript[]>(() =>
+    initialSession.data.transcripts.map(t => ({ ...t, isChecking: false }))
+  );
+
+  // Saved transcripts may predate the roster or name speakers it lacks
+  const [speakers, setSpeakers] = useState<Speaker[]>(() =>
+    rosterForTranscripts(initialSession.data.speakers, transcripts)
+  );
+  const [activeSpeaker, setActiveSpeaker] = useState<string>(() => speakers[0].id);
   const [status, setStatus] = useState<AppStatus>('initializing');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDevice, setSelectedDevice] = useState<string>('');
   const [progress, setProgress] = useState<{ stt: number; llm: number }>({ stt: 0, llm: 0 });
   const [isWorkerBusy, setIsWorkerBusy] = useState(false);
+  const [backend, setBackend] = useState<InferenceBackend | null>(null);
+  const [modelSelection, setModelSelection] = useState<Partial<ModelSelection>>(() =>
+    storage.get<Partial<ModelSelection>>(MODELS_STORAGE_KEY, {})
+  );
+  const [loadedModels, setLoadedModels] = useState<ModelSelection | null>(null);
+  const [translate, setTranslate] = useState<boolean>(() => storage.get<boolean>(TRANSLATE_STORAGE_KEY, false));
+  const [diarize, setDiarize] = useState<boolean>(() => storage.get<boolean>(DIARIZE_STORAGE_KEY, false));
+  const [editorName, setEditorName] = useState<string>(() => storage.get<string>(EDITOR_STORAGE_KEY, DEFAULT_EDITOR_NAME));
+  const [partialTranscript, setPartialTranscript] = useState<PartialTranscript | null>(null);
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(() =>
+    storage.get<number>(THRESHOLD_STORAGE_KEY, DEFAULT_CONFIDENCE_THRESHOLD)
+  );
+  const [audioLimitMB, setAudioLimitMB] = useState<number>(() =>
+    storage.get<number>(AUDIO_LIMIT_STORAGE_KEY, DEFAULT_AUDIO_LIMIT_MB)
+  );
   
   const workerRef = useRef<Worker | null>(null);
   const factCheckTimers = useRef<Record<string, NodeJS.Timeout>>({});
   const activeSpeakerRef = useRef(activeSpeaker);
+  const speakersRef = useRef(speakers);
+  const transcriptsRef = useRef(transcripts);
+  const statusRef = useRef(status);
+  const activeSessionRef = useRef(activeSessionId);
+  /** Session each in-flight transcription belongs to, so a switch drops stale results. */
+  const transcriptionSessions = useRef<Record<string, string>>({});
+  const modelSelectionRef = useRef(modelSelection);
+  const confidenceThresholdRef = useRef(confidenceThreshold);
+  const translateRef = useRef(translate);
+  const diarizeRef = useRef(diarize);
+  /** Shared by the interim and final transcriptions of the utterance in progress. */
+  const utteranceIdRef = useRef<string | null>(null);
+  /** Wall-clock start of each utterance awaiting transcription. */
+  const audioStartTimes = useRef<Record<string, number>>({});
+  const audioLimitRef = useRef(audioLimitMB);
+  /** Copies of utterance audio awaiting transcription, kept for playback. */
+  const pendingAudio = useRef<Record<string, Float32Array>>({});
+  /** Wall-clock span of imported recording segments awaiting transcription. */
+  const recordedSpans = useRef<Record<string, { start: number; end: number }>>({});
+  const promptTemplates = usePromptTemplates(workerRef);
+  const { activeTemplate, handleWorkerMessage: handleTemplateMessage } = promptTemplates;
+  const activeTemplateRef = useRef(activeTemplate);
 
   useEffect(() => {
     activeSpeakerRef.current = activeSpeaker;
   }, [activeSpeaker]);
 
+  useEffect(() => {
+    speakersRef.current = speakers;
+  }, [speakers]);
+
+  useEffect(() => {
+    transcriptsRef.current = transcripts;
+  }, [transcripts]);
+
+  useEffect(() => {
+    statusRef.current = status;
+  }, [status]);
+
+  useEffect(() => {
+    activeTemplateRef.current = activeTemplate;
+  }, [activeTemplate]);
+
+  const [storageWarning, setStorageWarning] = useState<StorageWarning | null>(null);
+  /** Session whose transcript-limit warning was dismissed. */
+  const [limitWarningDismissed, setLimitWarningDismissed] = useState<string | null>(null);
+
+  useEffect(() => storage.subscribe(setStorageWarning), []);
+
   // Fetch devices
   useEffect(() => {
     if (typeof navigator !== 'undefined' && navigator.mediaDevices) {
@@ -59,7 +170,37 @@ export function useDebateManager() {
     }
   }, [selectedDevice]);
 
-  const triggerFactCheck = useCallback((text: string, id: string) => {
+  /**
+   * Drops the pending debounce and tells the worker to forget any queued or
+   * running fact-check for a transcript that no longer exists in its old form.
+   */
+  const cancelFactCheck = useCallback((id: string) => {
+    if (factCheckTimers.current[id]) {
+      clearTimeout(factCheckTimers.current[id]);
+      delete factCheckTimers.current[id];
+    }
+    const request: WorkerRequest = { type: 'cancel', data: { id } };
+    workerRef.current?.postMessage(request);
+  }, []);
+
+  const postFactCheck = useCallback((text: string, id: string, speaker: string) => {
+    const threshold = confidenceThresholdRef.current;
+    const context = conversationContext(transcriptsRef.current, id, speaker, speakersRef.current);
+    const template = activeTemplateRef.current;
+    const request: WorkerRequest = {
+      type: 'fact-check',
+      data: {
+        text,
+        id,
+        ...(threshold > 0 && { confidenceThreshold: threshold }),
+        ...(context && { context }),
+        ...(template.id !== DEFAULT_TEMPLATE_ID && { template }),
+      }
+    };
+    workerRef.current?.postMessage(request);
+  }, []);
+
+  const triggerFactCheck = useCallback((text: string, id: string, speaker: string) => {
     if (factCheckTimers.current[id]) {
       clearTimeout(factCheckTimers.current[id]);
     }
@@ -69,16 +210,79 @@ export function useDebateManager() {
         t.id === id ? { ...t, isChecking: true } : t
       ));
       
-      const request: WorkerRequest = {
-        type: 'fact-check',
-        data: { text, id }
-      };
-      workerRef.current?.postMessage(request);
+      postFactCheck(text, id, speaker);
       delete factCheckTimers.current[id];
     }, DEBOUNCE_MS);
+  }, [postFactCheck]);
+
+  /** Transcripts waiting for "re-check all", sent one at a time so the worker's queue cap never drops them. */
+  const recheckQueue = useRef<string[]>([]);
+  const recheckingId = useRef<string | null>(null);
+  const [recheckProgress, setRecheckProgress] = useState<RecheckProgress | null>(null);
+
+  /** Fact-checks a transcript again straight away, with the current model and prompts. */
+  const recheckTranscript = useCallback((id: string) => {
+    const transcript = transcriptsRef.current.find(t => t.id === id);
+    if (!transcript) return false;
+    cancelFactCheck(id);
+    setTranscripts(prev => prev.map(t => t.id === id ? { ...t, isChecking: true } : t));
+    postFactCheck(transcript.translation ?? transcript.text, id, transcript.speaker);
+    return true;
+  }, [cancelFactCheck, postFactCheck]);
+
+  /** Sends the next queued re-check, skipping transcripts deleted meanwhile. */
+  const postNextRecheck = useCallback(() => {
+    let id: string | undefined;
+    while ((id = recheckQueue.current.shift()) !== undefined) {
+      if (recheckTranscript(id)) break;
+    }
+    recheckingId.current = id ?? null;
+    const remaining = recheckQueue.current.length;
+    setRecheckProgress(prev => id && prev ? { ...prev, done: prev.total - remaining - 1 } : null);
+  }, [recheckTranscript]);
+
+  const recheckAll = useCallback(() => {
+    if (recheckingId.current || transcriptsRef.current.length === 0) return;
+    recheckQueue.current = transcriptsRef.current.map(t => t.id);
+    setRecheckProgress({ done: 0, total: recheckQueue.current.length });
+    postNextRecheck();
+  }, [postNextRecheck]);
+
+  /** Drops the re-checks not yet sent; the one running still finishes. */
+  const stopRecheckAll = useCallback(() => {
+    recheckQueue.current = [];
+    recheckingId.current = null;
+    setRecheckProgress(null);
   }, []);
 
-  const handleTranscription = useCallback((text: string, id: string, speaker: 'A' | 'B') => {
+  /** Stores an utterance's audio under the transcript it ended up in. */
+  const saveAudio = useCallback((audio: Float32Array, utteranceId: string, transcriptId: string, createdAt: number) => {
+    const wav = encodeWav(audio, SAMPLE_RATE);
+    const clip = {
+      id: utteranceId,
+      transcriptId,
+      wav,
+      bytes: wav.size,
+      durationMs: (audio.length / SAMPLE_RATE) * 1000,
+      createdAt,
+    };
+    audioStore.save(clip, audioLimitRef.current * 1024 * 1024)
+      .catch(err => console.error('Error storing audio:', err));
+  }, []);
+
+  const handleTranscription = useCallback((text: string, id: string, speaker: string, details: TranscriptionDetails = {}) => {
+    const { chunks = [], language, translation, speakerConfidence } = details;
+    const audioStart = audioStartTimes.current[id];
+    delete audioStartTimes.current[id];
+    const audio = pendingAudio.current[id];
+    delete pendingAudio.current[id];
+    const span = recordedSpans.current[id];
+    delete recordedSpans.current[id];
+    const session = transcriptionSessions.current[id];
+    delete transcriptionSessions.current[id];
+    if (session && session !== activeSessionRef.current) return;
+    const words = audioStart !== undefined && chunks.length > 0 ? toTimedWords(chunks, audioStart) : undefined;
+
     const trimmedText = text.trim();
     const wordCount = trimmedText.split(/\s+/).length;
     const fillers = /^(um|uh|ah|er|basically|actually|literally|honestly|you know|i mean|so|well|like)\s*,?\s*/i;
@@ -86,102 +290,156 @@ export function useDebateManager() {
     
     if (wordCount < 2 || cleanText.length < 5) return;
 
-    setTranscripts(prev => {
-      const lastTranscript = prev[prev.length - 1];
-      const now = Date.now();
-
-      if (lastTranscript && 
-          lastTranscript.speaker === speaker && 
-          (now - lastTranscript.lastUpdated) < 3000) {
-        
-        const mergedText = `${lastTranscript.text} ${trimmedText}`;
-        const newTranscripts = prev.map((t, idx) => 
-          idx === prev.length - 1 
-            ? { ...t, text: mergedText, lastUpdated: now, isChecking: false } 
-            : t
-        );
-
-        triggerFactCheck(mergedText, lastTranscript.id);
-        return newTranscripts;
-      }
-
-      const newTranscript: Transcript = {
-        id,
-        text: trimmedText,
-        speaker,
-        isChecking: false,
-        timestamp: now,
+    // Decided outside the updater so the worker and audio side effects run once
+    const current = transcriptsRef.current;
+    const lastTranscript = current[current.length - 1];
+    // Imported segments are timed by where they fall in the recording
+    const now = span?.end ?? Date.now();
+
+    if (lastTranscript &&
+        lastTranscript.speaker === speaker &&
+        lastTranscript.language === language &&
+        (now - lastTranscript.lastUpdated) < 3000) {
+
+      const mergedText = `${lastTranscript.text} ${trimmedText}`;
+      const mergedTranslation = translation || lastTranscript.translation
+        ? `${lastTranscript.translation ?? lastTranscript.text} ${translation ?? trimmedText}`
+        : undefined;
+      const merge = (t: Transcript): Transcript => ({
+        ...t,
+        text: mergedText,
+        translation: mergedTranslation,
         lastUpdated: now,
-      };
+        isChecking: false,
+        // Earlier runs judged the shorter text
+        factCheckHistory: undefined,
+        words: words ? [...(t.words ?? []), ...words] : t.words,
+        hasAudio: t.hasAudio || !!audio,
+        speakerConfidence: t.speakerConfidence === undefined || speakerConfidence === undefined
+          ? t.speakerConfidence ?? speakerConfidence
+          : Math.min(t.speakerConfidence, speakerConfidence),
+      });
+      // Another result may arrive before the next render reads the ref
+      transcriptsRef.current = current.map(t => t.id === lastTranscript.id ? merge(t) : t);
+      setTranscripts(prev => prev.map(t => t.id === lastTranscript.id ? merge(t) : t));
+
+      // The old text's verdict is stale once the segment grows
+      if (lastTranscript.isChecking) cancelFactCheck(lastTranscript.id);
+      if (audio) saveAudio(audio, id, lastTranscript.id, now);
+      triggerFactCheck(mergedTranslation ?? mergedText, lastTranscript.id, lastTranscript.speaker);
+      return;
+    }
 
-      triggerFactCheck(trimmedText, id);
-      const updated = [...prev, newTranscript];
-      return pruneTranscripts(updated, MAX_TRANSCRIPTS);
-    });
-  }, [triggerFactCheck]);
+    const newTranscript: Transcript = {
+      id,
+      text: trimmedText,
+      speaker,
+      isChecking: false,
+      timestamp: span?.start ?? now,
+      lastUpdated: now,
+      words,
+      language,
+      translation,
+      hasAudio: audio ? true : undefined,
+      speakerConfidence,
+    };
+    const updated = [...current, newTranscript];
+    const pruned = pruneTranscripts(updated, MAX_TRANSCRIPTS);
+    transcriptsRef.current = pruned;
+    setTranscripts(prev => pruneTranscripts([...prev, newTranscript], MAX_TRANSCRIPTS));
+
+    triggerFactCheck(translation ?? trimmedText, id, speaker);
+    if (audio) saveAudio(audio, id, id, now);
+    if (pruned.length < updated.length) {
+      const dropped = updated.slice(0, updated.length - pruned.length).filter(t => t.hasAudio).map(t => t.id);
+      audioStore.deleteForTranscripts(dropped).catch(err => console.error('Error deleting audio:', err));
+    }
+  }, [triggerFactCheck, cancelFactCheck, saveAudio]);
 
-  const handleFactCheckStream = useCallback((result: string, id: string, isDone: boolean) => {
+  const handleFactCheckStream = useCallback((factCheck: FactCheck, id: string, isDone: boolean) => {
+    const checkedAt = Date.now();
     setTranscripts(prev => prev.map(t => {
-      if (t.id === id) {
-        const trimmedResult = result.trim();
-
-        if (trimmedResult === 'NOT_A_CLAIM' || trimmedResult.includes('NOT_A_CLAIM')) {
-          return {
-            ...t,
-            isChecking: false,
-            factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' }
-          };
-        }
+      if (t.id !== id) return t;
 
-        let verdict: 'True' | 'False' | 'Unverified' | null = null;
-        let explanation = '';
-
-        let verdictMatch = result.match(/\[VERDICT\]\s*([Tt]rue|[Ff]alse|[Uu]nverified)\s*(.*)/i);
-        if (!verdictMatch) verdictMatch = result.match(/\[([Tt]rue|[Ff]alse|[Uu]nverified)\]\s*(.*)/);
-        if (!verdictMatch) verdictMatch = result.match(/([Tt]rue|[Ff]alse|[Uu]nverified):\s*(.*)/);
-        if (!verdictMatch) verdictMatch = result.match(/([Tt]rue|[Ff]alse|[Uu]nverified)\s*\|\s*(.*)/);
-        if (!verdictMatch) verdictMatch = result.match(/([Tt]rue|[Ff]alse|[Uu]nverified)\s*[-–—]\s*(.*)/);
-
-        if (verdictMatch) {
-          const matchedVerdict = verdictMatch[1].toLowerCase();
-          verdict = (matchedVerdict.charAt(0).toUpperCase() + matchedVerdict.slice(1)) as 'True' | 'False' | 'Unverified';
-          explanation = verdictMatch[2].trim() || 'Analyzing...';
-        } else {
-          const verdictWordMatch = result.match(/\b([Tt]rue|[Ff]alse|[Uu]nverified)\b/i);
-          if (verdictWordMatch) {
-            const matchedVerdict = verdictWordMatch[1].toLowerCase();
-            verdict = (matchedVerdict.charAt(0).toUpperCase() + matchedVerdict.slice(1)) as 'True' | 'False' | 'Unverified';
-            explanation = result.replace(verdictWordMatch[0], '').replace('[VERDICT]', '').trim() || 'Analyzing...';
-          }
-        }
-
-        if (verdict) {
-          return { ...t, isChecking: !isDone, factCheck: { verdict, explanation } };
-        }
+      const explanation = factCheck.verdict === 'NOT_A_CLAIM' ? '' : factCheck.explanation || 'Analyzing...';
+      if (!isDone) return { ...t, isChecking: true, factCheck: withModelResult(t.factCheck, { ...factCheck, explanation }) };
 
-        const cleanDisplayResult = result.replace('[VERDICT]', '').trim();
-        return {
-          ...t,
-          isChecking: !isDone,
-          factCheck: { verdict: 'Unverified', explanation: cleanDisplayResult || 'Analyzing...' }
-        };
-      }
-      return t;
+      const result = { ...factCheck, explanation, checkedAt };
+      return {
+        ...t,
+        isChecking: false,
+        factCheck: withModelResult(t.factCheck, result),
+        factCheckHistory: recordRun(t.factCheckHistory, result),
+      };
     }));
-  }, []);
-
-  const onSpeechEnd = useCallback((audio: Float32Array) => {
-    const id = Math.random().toString(36).substring(7);
+    if (isDone && id === recheckingId.current) postNextRecheck();
+  }, [postNextRecheck]);
+
+  /** The worker's queue was full; the transcript keeps its last result and "re-check all" moves on. */
+  const handleFactCheckDropped = useCallback((id: string) => {
+    setTranscripts(prev => prev.map(t => t.id === id ? { ...t, isChecking: false } : t));
+    if (id === recheckingId.current) postNextRecheck();
+  }, [postNextRecheck]);
+
+  const postTranscription = useCallback((audio: Float32Array, id: string, startedAt: number) => {
+    audioStartTimes.current[id] = startedAt;
+    transcriptionSessions.current[id] = activeSessionRef.current;
+    // The worker takes ownership of the buffer, so playback needs its own copy
+    if (audioLimitRef.current > 0) pendingAudio.current[id] = audio.slice();
     if (workerRef.current) {
       const request: WorkerRequest = {
         type: 'transcribe',
-        data: { audio, id, speaker: activeSpeakerRef.current }
+        data: {
+          audio,
+          id,
+          speaker: activeSpeakerRef.current,
+          ...(translateRef.current && { translate: true }),
+          ...(diarizeRef.current && { diarize: true, speakers: speakersRef.current.map(s => s.id) }),
+        }
       };
       workerRef.current.postMessage(request, [audio.buffer]);
     }
   }, []);
 
-  const { vad } = useAudioProcessor(onSpeechEnd, selectedDevice);
+  const onSpeechEnd = useCallback((audio: Float32Array) => {
+    const id = utteranceIdRef.current ?? Math.random().toString(36).substring(7);
+    utteranceIdRef.current = null;
+    // The VAD hands over the utterance as soon as it ends
+    postTranscription(audio, id, Date.now() - (audio.length / SAMPLE_RATE) * 1000);
+  }, [postTranscription]);
+
+  const submitRecordedSegment = useCallback((audio: Float32Array, start: number, end: number) => {
+    const id = Math.random().toString(36).substring(7);
+    recordedSpans.current[id] = { start, end };
+    postTranscription(audio, id, start);
+    return id;
+  }, [postTranscription]);
+
+  const onSpeechPartial = useCallback((audio: Float32Array) => {
+    utteranceIdRef.current ??= Math.random().toString(36).substring(7);
+    const request: WorkerRequest = {
+      type: 'transcribe-partial',
+      data: { audio, id: utteranceIdRef.current, speaker: activeSpeakerRef.current }
+    };
+    workerRef.current?.postMessage(request, [audio.buffer]);
+  }, []);
+
+  const onSpeechDiscarded = useCallback(() => {
+    utteranceIdRef.current = null;
+    setPartialTranscript(null);
+  }, []);
+
+  const { vad } = useAudioProcessor(onSpeechEnd, selectedDevice, { onSpeechPartial, onSpeechDiscarded });
+  const knowledge = useKnowledgeBase(workerRef);
+  const { handleWorkerMessage: handleKnowledgeMessage } = knowledge;
+  // Subtitle exports are timed from the recording, not from its first speech
+  const recordingStarted = useCallback((origin: number) => {
+    sessionStore.update(activeSessionRef.current, { recordingOrigin: origin });
+    setSessions(sessionStore.list());
+  }, []);
+  const transcriberReady = useCallback(() => workerRef.current !== null && statusRef.current === 'ready', []);
+  const recording = useRecordingImport(submitRecordedSegment, recordingStarted, transcriberReady);
+  const { handleWorkerMessage: handleRecordingMessage } = recording;
 
   useEffect(() => {
     const w = new Worker(new URL('../workers/inference.worker.ts', import.meta.url), {
@@ -189,15 +447,32 @@ export function useDebateManager() {
     });
 
     w.onmessage = (e: MessageEvent<WorkerResponse>) => {
-      const { status, progress: p, model, text, id, speaker, error, isDone, busy } = e.data;
+      const { status, progress: p, model, text, chunks, language, translation, id, speaker, speakerConfidence, error, isDone, busy, backend: b, models, factCheck, task } = e.data;
+      if (handleKnowledgeMessage(e.data)) return;
+      if (handleTemplateMessage(e.data)) return;
+      handleRecordingMessage(e.data);
 
       if (busy !== undefined) setIsWorkerBusy(busy);
+      if (b) setBackend(b);
+      if (models) setLoadedModels(models);
       if (status === 'ready') setStatus('ready');
+      if (status === 'transcription-partial' && text !== undefined && id && speaker) {
+        // Ignore interim results for an utterance that was discarded or already finalized
+        setPartialTranscript(prev =>
+          id === utteranceIdRef.current || prev?.id === id ? { id, text: text.trim(), speaker } : prev
+        );
+      }
+      if (status === 'error' && task === 'transcribe-partial') return;
       if (status === 'error') {
         if (id) {
+          delete audioStartTimes.current[id];
+          delete pendingAudio.current[id];
+          delete recordedSpans.current[id];
+          setPartialTranscript(prev => prev?.id === id ? null : prev);
           setTranscripts(prev => prev.map(t =>
-            t.id === id ? { ...t, isChecking: false, factCheck: { verdict: 'Unverified', explanation: `Error: ${error}` } } : t
+            t.id === id ? { ...t, isChecking: false, factCheck: withModelResult(t.factCheck, { verdict: 'Unverified', explanation: `Error: ${error}` }) } : t
           ));
+          if (id === recheckingId.current) postNextRecheck();
         } else {
           setStatus('error');
           setErrorMessage(error || 'An unknown error occurred');
@@ -209,41 +484,204 @@ export function useDebateManager() {
           setProgress(prev => ({ ...prev, [model]: p }));
         }
       }
-      if (status === 'transcription' && text && id && speaker) {
-        handleTranscription(text, id, speaker);
+      if (status === 'transcription' && id) {
+        setPartialTranscript(prev => prev?.id === id ? null : prev);
+        if (text && speaker) handleTranscription(text, id, speaker, { chunks, language, translation, speakerConfidence });
       }
-      if (status === 'fact-check-stream' && text && id) {
-        handleFactCheckStream(text, id, !!isDone);
+      if (status === 'fact-check-stream' && factCheck && id) {
+        handleFactCheckStream(factCheck, id, !!isDone);
       }
+      if (status === 'fact-check-dropped' && id) handleFactCheckDropped(id);
     };
 
-    const loadRequest: WorkerRequest = { type: 'load' };
+    const loadRequest: WorkerRequest = { type: 'load', data: { models: modelSelectionRef.current } };
     w.postMessage(loadRequest);
     workerRef.current = w;
 
     return () => w.terminate();
-  }, [handleTranscription, handleFactCheckStream]);
+  }, [handleTranscription, handleFactCheckStream, handleFactCheckDropped, handleKnowledgeMessage, handleTemplateMessage, handleRecordingMessage, postNextRecheck]);
 
   // Persistence
   useEffect(() => {
-    storage.set(STORAGE_KEY, transcripts);
-  }, [transcripts]);
+    sessionStore.save(activeSessionId, { transcripts, speakers });
+  }, [activeSessionId, transcripts, speakers]);
+
+  /** Drops queued work for the current feed; a new debate may also have new voices. */
+  const resetPipeline = useCallback(() => {
+    Object.values(factCheckTimers.current).forEach(clearTimeout);
+    factCheckTimers.current = {};
+    stopRecheckAll();
+    const request: WorkerRequest = { type: 'cancel-all' };
+    workerRef.current?.postMessage(request);
+    const reset: WorkerRequest = { type: 'diarize-reset' };
+    workerRef.current?.postMessage(reset);
+    utteranceIdRef.current = null;
+    setPartialTranscript(null);
+  }, [stopRecheckAll]);
 
   const clearFeed = useCallback(() => {
     if (confirm('Clear all transcripts?')) {
+      resetPipeline();
+      const cleared = transcriptsRef.current.map(t => t.id);
       setTranscripts([]);
-      storage.remove(STORAGE_KEY);
+      audioStore.deleteForTranscripts(cleared).catch(err => console.error('Error clearing audio:', err));
     }
+  }, [resetPipeline]);
+
+  const { cancel: cancelRecordingImport } = recording;
+
+  const openSession = useCallback((id: string) => {
+    if (id === activeSessionRef.current) return;
+    resetPipeline();
+    cancelRecordingImport();
+    const data = sessionStore.load(id);
+    const roster = rosterForTranscripts(data.speakers, data.transcripts);
+    sessionStore.setActiveId(id);
+    activeSessionRef.current = id;
+    setActiveSessionId(id);
+    setTranscripts(data.transcripts.map(t => ({ ...t, isChecking: false })));
+    setSpeakers(roster);
+    setActiveSpeaker(roster[0].id);
+    setSessions(sessionStore.list());
+  }, [resetPipeline, cancelRecordingImport]);
+
+  const createSession = useCallback((name?: string) => {
+    const session = sessionStore.create(name?.trim() || defaultSessionName(Date.now()));
+    openSession(session.id);
+  }, [openSession]);
+
+  const renameSession = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    sessionStore.update(id, { name: name.trim() });
+    setSessions(sessionStore.list());
   }, []);
 
+  const archiveSession = useCallback((id: string, archived: boolean) => {
+    sessionStore.update(id, { archived });
+    setSessions(sessionStore.list());
+  }, []);
+
+  const deleteSession = useCallback((id: string) => {
+    if (!confirm('Delete this session and its transcripts?')) return;
+    const removed = id === activeSessionRef.current ? transcripts : sessionStore.load(id).transcripts;
+    audioStore.deleteForTranscripts(removed.map(t => t.id)).catch(err => console.error('Error deleting audio:', err));
+    sessionStore.remove(id);
+
+    if (id !== activeSessionRef.current) {
+      setSessions(sessionStore.list());
+      return;
+    }
+    const next = sessionStore.list().find(s => !s.archived);
+    if (next) openSession(next.id);
+    else createSession();
+  }, [transcripts, openSession, createSession]);
+
+  // The stored summary of the open session lags its live transcripts
+  const sessionSummaries = useMemo(() => sessions.map(s =>
+    s.id === activeSessionId ? { ...s, ...summarizeTranscripts(transcripts) } : s
+  ), [sessions, activeSessionId, transcripts]);
+  const activeSessionName = sessionSummaries.find(s => s.id === activeSessionId)?.name;
+
+  /**
+   * Merges a JSON export into a new session, or into the open one. Throws
+   * when the file is unreadable or the result would not fit in a session.
+   */
+  const importSession = useCallback(async (file: File, target: 'new' | 'current'): Promise<SessionImportReport> => {
+    const parsed = parseSessionExport(await file.text());
+    const base = target === 'new' ? { transcripts: [], speakers: [] } : { transcripts, speakers };
+    const { roster, ids } = mergeSpeakers(base.speakers, parsed.speakers, parsed.transcripts);
+
+    const rejected: RejectedRecord[] = [...parsed.rejected];
+    const incoming = parsed.transcripts.flatMap(t => {
+      const speaker = ids.get(t.speaker);
+      if (speaker) return [{ ...t, speaker }];
+      rejected.push({ id: t.id, reason: `no room on the roster for ${parsed.speakers.find(s => s.id === t.speaker)?.name ?? `Speaker ${t.speaker}`}` });
+      return [];
+    });
+    const merged = mergeTranscripts(base.transcripts, incoming, sessionStore.transcriptIds());
+    if (merged.transcripts.length > MAX_TRANSCRIPTS) {
+      throw new Error(`A session holds at most ${MAX_TRANSCRIPTS} transcripts; this import would make ${merged.transcripts.length}.`);
+    }
+
+    let sessionName = activeSessionName ?? parsed.name;
+    if (target === 'new') {
+      const session = sessionStore.create(parsed.name, { transcripts: merged.transcripts, speakers: roster });
+      sessionName = session.name;
+      openSession(session.id);
+    } else {
+      setSpeakers(roster);
+      setTranscripts(merged.transcripts);
+    }
+    return {
+      sessionName,
+      imported: merged.transcripts.length - base.transcripts.length,
+      renamed: merged.renamed,
+      duplicates: merged.duplicates,
+      rejected,
+    };
+  }, [transcripts, speakers, activeSessionName, openSession]);
+
+  const warning: StorageWarning | null = storageWarning ?? (
+    transcripts.length >= TRANSCRIPT_WARNING_AT && limitWarningDismissed !== activeSessionId
+      ? {
+          kind: 'transcript-limit',
+          message: `This session has ${transcripts.length} of ${MAX_TRANSCRIPTS} transcripts. Beyond that the oldest are dropped, so export it or start a new session to keep everything.`,
+        }
+      : null
+  );
+
+  const dismissWarning = useCallback(() => {
+    if (storageWarning) setStorageWarning(null);
+    else setLimitWarningDismissed(activeSessionId);
+  }, [storageWarning, activeSessionId]);
+
   const deleteTranscript = useCallback((id: string) => {
+    cancelFactCheck(id);
     setTranscripts(prev => prev.filter(t => t.id !== id));
+    audioStore.deleteForTranscripts([id]).catch(err => console.error('Error deleting audio:', err));
+    // A cancelled check never reports back, so "re-check all" moves on here
+    if (id === recheckingId.current) postNextRecheck();
+  }, [cancelFactCheck, postNextRecheck]);
+
+  /**
+   * Moves a transcript to the next speaker on the roster. A manual
+   * correction always wins, and teaches diarization the voice.
+   */
+  const swapSpeaker = useCallback((id: string) => {
+    const transcript = transcriptsRef.current.find(t => t.id === id);
+    if (!transcript) return;
+    const roster = speakersRef.current;
+    const index = roster.findIndex(s => s.id === transcript.speaker);
+    const speaker = roster[(index + 1) % roster.length].id;
+
+    setTranscripts(prev => prev.map(t => t.id === id ? { ...t, speaker, speakerConfidence: undefined } : t));
+    if (transcript.speakerConfidence !== undefined) {
+      const request: WorkerRequest = { type: 'diarize-override', data: { id, speaker } };
+      workerRef.current?.postMessage(request);
+    }
   }, []);
 
-  const swapSpeaker = useCallback((id: string) => {
-    setTranscripts(prev => prev.map(t => 
-      t.id === id ? { ...t, speaker: t.speaker === 'A' ? 'B' : 'A' } : t
+  /** Applies an editor's verdict or note; the editor's name is remembered for next time. */
+  const reviewVerdict = useCallback((id: string, change: ReviewChange) => {
+    setEditorName(change.editor);
+    storage.set(EDITOR_STORAGE_KEY, change.editor);
+    const at = Date.now();
+    setTranscripts(prev => prev.map(t => t.id === id ? { ...t, factCheck: applyReview(t.factCheck, change, at) } : t));
+  }, []);
+
+  const revertVerdict = useCallback((id: string) => {
+    const at = Date.now();
+    setTranscripts(prev => prev.map(t =>
+      t.id === id && t.factCheck ? { ...t, factCheck: revertReview(t.factCheck, editorName, at) } : t
     ));
+  }, [editorName]);
+
+  /** Puts an earlier result from the transcript's history back in effect. */
+  const restoreFactCheck = useCallback((id: string, checkedAt: number) => {
+    setTranscripts(prev => prev.map(t => {
+      const run = t.id === id ? t.factCheckHistory?.find(r => r.checkedAt === checkedAt) : undefined;
+      return run ? { ...t, factCheck: withModelResult(t.factCheck, run) } : t;
+    }));
   }, []);
 
   const manualSubmit = useCallback((text: string) => {
@@ -267,14 +705,71 @@ export function useDebateManager() {
         return pruneTranscripts(updated, MAX_TRANSCRIPTS);
       });
 
-      const request: WorkerRequest = {
-        type: 'fact-check',
-        data: { text, id }
-      };
-      workerRef.current?.postMessage(request);
+      postFactCheck(text, id, activeSpeakerRef.current);
     }
+  }, [postFactCheck]);
+
+  const changeModels = useCallback((selection: ModelSelection) => {
+    modelSelectionRef.current = selection;
+    setModelSelection(selection);
+    storage.set(MODELS_STORAGE_KEY, selection);
+
+    setProgress(prev => ({
+      stt: selection.stt === loadedModels?.stt ? prev.stt : 0,
+      llm: selection.llm === loadedModels?.llm ? prev.llm : 0,
+    }));
+    setStatus('loading');
+
+    const request: WorkerRequest = { type: 'load', data: { models: selection } };
+    workerRef.current?.postMessage(request);
+  }, [loadedModels]);
+
+  const changeConfidenceThreshold = useCallback((threshold: number) => {
+    confidenceThresholdRef.current = threshold;
+    setConfidenceThreshold(threshold);
+    storage.set(THRESHOLD_STORAGE_KEY, threshold);
+  }, []);
+
+  const changeTranslate = useCallback((enabled: boolean) => {
+    translateRef.current = enabled;
+    setTranslate(enabled);
+    storage.set(TRANSLATE_STORAGE_KEY, enabled);
+  }, []);
+
+  const changeAudioLimit = useCallback((limitMB: number) => {
+    audioLimitRef.current = limitMB;
+    setAudioLimitMB(limitMB);
+    storage.set(AUDIO_LIMIT_STORAGE_KEY, limitMB);
+    const pending = limitMB > 0 ? audioStore.enforceLimit(limitMB * 1024 * 1024) : audioStore.clear();
+    pending.catch(err => console.error('Error applying audio limit:', err));
   }, []);
 
+  const changeDiarize = useCallback((enabled: boolean) => {
+    diarizeRef.current = enabled;
+    setDiarize(enabled);
+    storage.set(DIARIZE_STORAGE_KEY, enabled);
+  }, []);
+
+  const addSpeaker = useCallback(() => {
+    setSpeakers(prev => {
+      const speaker = createSpeaker(prev);
+      return speaker ? [...prev, speaker] : prev;
+    });
+  }, []);
+
+  const updateSpeaker = useCallback((id: string, changes: Partial<Omit<Speaker, 'id'>>) => {
+    setSpeakers(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  }, []);
+
+  /** Speakers with transcripts stay on the roster so their names keep resolving. */
+  const removeSpeaker = useCallback((id: string) => {
+    if (transcripts.some(t => t.speaker === id)) return;
+    const remaining = speakers.filter(s => s.id !== id);
+    if (remaining.length === 0) return;
+    setSpeakers(remaining);
+    if (activeSpeaker === id) setActiveSpeaker(remaining[0].id);
+  }, [transcripts, speakers, activeSpeaker]);
+
   const toggleListening = useCallback(() => {
     if (vad.listening) {
       vad.pause();
@@ -284,7 +779,20 @@ export function useDebateManager() {
   }, [vad]);
 
   return {
+    sessions: sessionSummaries,
+    activeSessionId,
+    createSession,
+    openSession,
+    importSession,
+    renameSession,
+    archiveSession,
+    deleteSession,
     transcripts,
+    partialTranscript,
+    speakers,
+    addSpeaker,
+    updateSpeaker,
+    removeSpeaker,
     activeSpeaker,
     setActiveSpeaker,
     status,
@@ -294,10 +802,35 @@ export function useDebateManager() {
     setSelectedDevice,
     progress,
     isWorkerBusy,
+    backend,
+    modelSelection,
+    loadedModels,
+    changeModels,
+    confidenceThreshold,
+    changeConfidenceThreshold,
+    translate,
+    changeTranslate,
+    diarize,
+    changeDiarize,
+    audioLimitMB,
+    changeAudioLimit,
+    knowledge,
+    promptTemplates,
+    recording,
+    storageWarning: warning,
+    dismissStorageWarning: dismissWarning,
     vad,
     clearFeed,
     deleteTranscript,
     swapSpeaker,
+    editorName,
+    reviewVerdict,
+    revertVerdict,
+    recheckTranscript,
+    recheckAll,
+    stopRecheckAll,
+    recheckProgress,
+    restoreFactCheck,
     manualSubmit,
     toggleListening,
   };
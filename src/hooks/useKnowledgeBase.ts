@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, RefObject } from 'react';
+import { WorkerRequest, WorkerResponse } from '@/types/worker-messages';
+import {
+  KnowledgeDocument,
+  knowledgeBase,
+  chunkText,
+  csvToText,
+  documentTypeFromName,
+} from '@/lib/knowledge-base';
+
+export interface IndexingJob {
+  title: string;
+  progress: number;
+}
+
+/**
+ * Imports local documents into the worker's retrieval index and tracks
+ * which documents are available for fact-checking.
+ */
+export function useKnowledgeBase(workerRef: RefObject<Worker | null>) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [indexing, setIndexing] = useState<Record<string, IndexingJob>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDocuments(await knowledgeBase.listDocuments());
+    } catch (err) {
+      console.error('Error reading knowledge base:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    knowledgeBase.listDocuments()
+      .then(setDocuments)
+      .catch(err => console.error('Error reading knowledge base:', err));
+  }, []);
+
+  const importText = useCallback((title: string, text: string, type: KnowledgeDocument['type'] = 'text') => {
+    const passages = chunkText(type === 'csv' ? csvToText(text) : text);
+    if (passages.length === 0) {
+      setError(`"${title}" has no text to import.`);
+      return;
+    }
+
+    const id = Math.random().toString(36).substring(7);
+    setError(null);
+    setIndexing(prev => ({ ...prev, [id]: { title, progress: 0 } }));
+
+    const request: WorkerRequest = {
+      type: 'kb-index',
+      data: { document: { id, title, type }, passages },
+    };
+    workerRef.current?.postMessage(request);
+  }, [workerRef]);
+
+  const importFile = useCallback(async (file: File) => {
+    importText(file.name, await file.text(), documentTypeFromName(file.name));
+  }, [importText]);
+
+  const deleteDocument = useCallback(async (id: string) => {
+    try {
+      await knowledgeBase.deleteDocument(id);
+    } catch (err) {
+      setError(`Could not delete document: ${(err as Error).message}`);
+    }
+    const request: WorkerRequest = { type: 'kb-refresh' };
+    workerRef.current?.postMessage(request);
+    await refresh();
+  }, [workerRef, refresh]);
+
+  /** Handles knowledge-base worker messages. Returns true if the message was consumed. */
+  const handleWorkerMessage = useCallback((msg: WorkerResponse): boolean => {
+    const { status, id, progress, error: workerError, task } = msg;
+    if (!id) return false;
+
+    if (status === 'kb-progress' && progress !== undefined) {
+      setIndexing(prev => prev[id] ? { ...prev, [id]: { ...prev[id], progress } } : prev);
+      return true;
+    }
+    if (status === 'kb-indexed' || (status === 'error' && task === 'kb-index')) {
+      setIndexing(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      if (status === 'error') setError(`Indexing failed: ${workerError}`);
+      refresh();
+      return true;
+    }
+    return false;
+  }, [refresh]);
+
+  return {
+    documents,
+    indexing,
+    error,
+    importText,
+    importFile,
+    deleteDocument,
+    handleWorkerMessage,
+  };
+}
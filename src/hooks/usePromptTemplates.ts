@@ -0,0 +1,126 @@
+import { useState, useRef, useCallback, useMemo, RefObject } from 'react';
+import { storage } from '@/lib/storage';
+import { copyTemplate, DEFAULT_TEMPLATE_ID, findTemplate, PROMPT_PRESETS, reviseTemplate } from '@/lib/prompt-templates';
+import type { FactCheck, PromptTemplate, WorkerRequest, WorkerResponse } from '@/types/worker-messages';
+
+const TEMPLATES_STORAGE_KEY = 'debatelens_prompt_templates';
+const ACTIVE_TEMPLATE_STORAGE_KEY = 'debatelens_prompt_template';
+/** Fact-check ids for template tests, kept apart from transcript ids. */
+const TEST_ID_PREFIX = 'template-test-';
+/** Sample sentences per test run; the worker queues at most ten fact-checks. */
+export const MAX_TEST_SENTENCES = 5;
+
+export interface TemplateTestResult {
+  sentence: string;
+  factCheck?: FactCheck;
+  error?: string;
+  isDone: boolean;
+}
+
+/**
+ * Preset and custom fact-check prompt templates, the one in use, and test
+ * runs of a draft template against sample sentences.
+ */
+export function usePromptTemplates(workerRef: RefObject<Worker | null>) {
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(() =>
+    storage.get<PromptTemplate[]>(TEMPLATES_STORAGE_KEY, [])
+  );
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(() =>
+    storage.get<string>(ACTIVE_TEMPLATE_STORAGE_KEY, DEFAULT_TEMPLATE_ID)
+  );
+  const [testResults, setTestResults] = useState<TemplateTestResult[]>([]);
+  /** Worker ids of the current test run, by sentence index. */
+  const testIds = useRef<string[]>([]);
+
+  const templates = useMemo(() => [...PROMPT_PRESETS, ...customTemplates], [customTemplates]);
+  const activeTemplate = findTemplate(templates, activeTemplateId);
+
+  const updateCustomTemplates = useCallback((update: (prev: PromptTemplate[]) => PromptTemplate[]) => {
+    setCustomTemplates(prev => {
+      const next = update(prev);
+      storage.set(TEMPLATES_STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const selectTemplate = useCallback((id: string) => {
+    setActiveTemplateId(id);
+    storage.set(ACTIVE_TEMPLATE_STORAGE_KEY, id);
+  }, []);
+
+  /**
+   * Saves a draft over its custom template, or as a new custom template if
+   * it started from a preset. Returns what was saved.
+   */
+  const saveTemplate = useCallback((draft: PromptTemplate): PromptTemplate => {
+    const saved = customTemplates.find(t => t.id === draft.id);
+    const template = saved
+      ? reviseTemplate(saved, draft)
+      : copyTemplate(draft, `custom-${Math.random().toString(36).substring(7)}`);
+    updateCustomTemplates(prev => saved ? prev.map(t => t.id === template.id ? template : t) : [...prev, template]);
+    return template;
+  }, [customTemplates, updateCustomTemplates]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    updateCustomTemplates(prev => prev.filter(t => t.id !== id));
+    if (id === activeTemplateId) selectTemplate(DEFAULT_TEMPLATE_ID);
+  }, [activeTemplateId, selectTemplate, updateCustomTemplates]);
+
+  const cancelTest = useCallback(() => {
+    testIds.current.forEach(id => {
+      const request: WorkerRequest = { type: 'cancel', data: { id } };
+      workerRef.current?.postMessage(request);
+    });
+    testIds.current = [];
+  }, [workerRef]);
+
+  /** Fact-checks sample sentences with a template that need not be saved yet. */
+  const testTemplate = useCallback((template: PromptTemplate, sentences: string[]) => {
+    cancelTest();
+    const samples = sentences.map(s => s.trim()).filter(Boolean).slice(0, MAX_TEST_SENTENCES);
+    const run = Math.random().toString(36).substring(7);
+    testIds.current = samples.map((_, i) => `${TEST_ID_PREFIX}${run}-${i}`);
+    setTestResults(samples.map(sentence => ({ sentence, isDone: false })));
+
+    samples.forEach((text, i) => {
+      const request: WorkerRequest = { type: 'fact-check', data: { text, id: testIds.current[i], template } };
+      workerRef.current?.postMessage(request);
+    });
+  }, [cancelTest, workerRef]);
+
+  const clearTest = useCallback(() => {
+    cancelTest();
+    setTestResults([]);
+  }, [cancelTest]);
+
+  /** Handles results of template tests. Returns true if the message was consumed. */
+  const handleWorkerMessage = useCallback((msg: WorkerResponse): boolean => {
+    const { status, id, factCheck, isDone, error } = msg;
+    if (!id?.startsWith(TEST_ID_PREFIX)) return false;
+
+    // Results from an earlier run are dropped
+    const index = testIds.current.indexOf(id);
+    if (index === -1) return true;
+
+    if (status === 'fact-check-stream' && factCheck) {
+      setTestResults(prev => prev.map((r, i) => i === index ? { ...r, factCheck, isDone: !!isDone } : r));
+    } else if (status === 'error') {
+      setTestResults(prev => prev.map((r, i) => i === index ? { ...r, error: error ?? 'Unknown error', isDone: true } : r));
+    } else if (status === 'fact-check-dropped') {
+      setTestResults(prev => prev.map((r, i) => i === index ? { ...r, error: 'Not checked: too many fact-checks were waiting.', isDone: true } : r));
+    }
+    return true;
+  }, []);
+
+  return {
+    templates,
+    activeTemplate,
+    selectTemplate,
+    saveTemplate,
+    deleteTemplate,
+    testResults,
+    testTemplate,
+    clearTest,
+    handleWorkerMessage,
+  };
+}
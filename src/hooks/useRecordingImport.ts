@@ -0,0 +1,115 @@
+import { useState, useRef, useCallback } from 'react';
+import { WorkerResponse } from '@/types/worker-messages';
+import { decodeAudioFile, segmentRecording } from '@/lib/audio-import';
+import { SAMPLE_RATE } from '@/lib/constants';
+
+export interface RecordingImportJob {
+  fileName: string;
+  phase: 'decoding' | 'transcribing';
+  /** Fraction of the recording segmented and transcribed so far. */
+  progress: number;
+  segments: number;
+}
+
+/**
+ * Sends a segment of speech for transcription. `start` and `end` are
+ * wall-clock times in ms; returns the id the transcription will arrive under.
+ */
+export type SubmitSegment = (audio: Float32Array, start: number, end: number) => string;
+
+/** Whether a worker is loaded and able to take segments now. */
+export type TranscriberReady = () => boolean;
+
+/** Longest wait for one segment's transcription before the import gives up. */
+export const SEGMENT_TIMEOUT_MS = 120_000;
+
+const NOT_READY = 'The speech model is not ready. Wait for it to finish loading, then import the recording again.';
+
+/** Called with the wall-clock time (epoch ms) the recording is placed at, before its first segment. */
+export type RecordingStarted = (origin: number) => void;
+
+/**
+ * Fact-checks a recorded debate after the fact. The file is decoded, split
+ * into utterances by the non-real-time VAD and fed one segment at a time
+ * through the live transcription pipeline, so fact-checks keep pace with it.
+ * The recording is placed on the session clock starting at the moment of import.
+ */
+export function useRecordingImport(submitSegment: SubmitSegment, onStart: RecordingStarted, isReady: TranscriberReady) {
+  const [job, setJob] = useState<RecordingImportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+  const pendingRef = useRef<{ id: string; resolve: () => void } | null>(null);
+
+  const settlePending = useCallback(() => {
+    pendingRef.current?.resolve();
+    pendingRef.current = null;
+  }, []);
+
+  const importRecording = useCallback(async (file: File) => {
+    cancelledRef.current = false;
+    setError(null);
+    if (!isReady()) {
+      setError(NOT_READY);
+      return;
+    }
+    setJob({ fileName: file.name, phase: 'decoding', progress: 0, segments: 0 });
+
+    try {
+      const audio = await decodeAudioFile(file);
+      const durationMs = (audio.length / SAMPLE_RATE) * 1000;
+      const origin = Date.now();
+      onStart(origin);
+      let segments = 0;
+      setJob(prev => prev && { ...prev, phase: 'transcribing' });
+
+      for await (const segment of segmentRecording(audio)) {
+        if (cancelledRef.current) break;
+        // The worker may have been reset by a model switch, or crashed
+        if (!isReady()) throw new Error(NOT_READY);
+        const id = submitSegment(segment.audio, origin + segment.start, origin + segment.end);
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            pendingRef.current = null;
+            reject(new Error(`A segment was not transcribed within ${SEGMENT_TIMEOUT_MS / 1000} seconds, so the import stopped. Transcripts so far are kept.`));
+          }, SEGMENT_TIMEOUT_MS);
+          pendingRef.current = {
+            id,
+            resolve: () => {
+              clearTimeout(timer);
+              resolve();
+            },
+          };
+        });
+        segments++;
+        setJob(prev => prev && { ...prev, progress: Math.min(segment.end / durationMs, 1), segments });
+        if (cancelledRef.current) break;
+      }
+      if (!cancelledRef.current && segments === 0) {
+        setError(`No speech was found in "${file.name}".`);
+      }
+    } catch (err) {
+      console.error('Error importing recording:', err);
+      setError((err as Error).message);
+    } finally {
+      pendingRef.current = null;
+      setJob(null);
+    }
+  }, [submitSegment, onStart, isReady]);
+
+  /** Stops after the segment being transcribed; transcripts so far are kept. */
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    settlePending();
+  }, [settlePending]);
+
+  /**
+   * Watches for the transcription of the segment in flight. Never consumes
+   * the message; the transcript itself is handled by the debate manager.
+   */
+  const handleWorkerMessage = useCallback((msg: WorkerResponse) => {
+    if (!pendingRef.current || msg.id !== pendingRef.current.id) return;
+    if (msg.status === 'transcription' || msg.status === 'error') settlePending();
+  }, [settlePending]);
+
+  return { job, error, importRecording, cancel, handleWorkerMessage };
+}
@@ -0,0 +1,63 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { audioStore, type AudioClip } from '@/lib/audio-store';
+
+/**
+ * Plays back the stored audio of a transcript, one clip per merged utterance.
+ */
+export function useSegmentAudio() {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [missingIds, setMissingIds] = useState<Set<string>>(() => new Set());
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlsRef = useRef<string[]>([]);
+
+  const stop = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.onended = null;
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    urlsRef.current = [];
+    setPlayingId(null);
+  }, []);
+
+  const play = useCallback(async (transcriptId: string) => {
+    stop();
+
+    let clips: AudioClip[];
+    try {
+      clips = await audioStore.getClips(transcriptId);
+    } catch (err) {
+      console.error('Error reading stored audio:', err);
+      clips = [];
+    }
+    if (clips.length === 0) {
+      // Evicted by the storage limit or never stored
+      setMissingIds(prev => new Set(prev).add(transcriptId));
+      return;
+    }
+
+    const urls = clips.map(c => URL.createObjectURL(c.wav));
+    const audio = new Audio(urls[0]);
+    let index = 0;
+    audio.onended = () => {
+      if (++index >= urls.length) return stop();
+      audio.src = urls[index];
+      audio.play();
+    };
+
+    urlsRef.current = urls;
+    audioRef.current = audio;
+    setPlayingId(transcriptId);
+    try {
+      await audio.play();
+    } catch (err) {
+      console.error('Audio playback failed:', err);
+      stop();
+    }
+  }, [stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { playingId, missingIds, play, stop };
+}
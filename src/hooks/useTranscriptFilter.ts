@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EMPTY_FILTER, filterFromSearchParams, TranscriptFilter, writeFilterParams } from '@/lib/transcript-filter';
+
+/**
+ * Feed filters, kept in the page URL so a filtered view can be bookmarked
+ * or shared. Other query parameters are left alone.
+ */
+export function useTranscriptFilter() {
+  const [filter, setFilter] = useState<TranscriptFilter>(() =>
+    typeof window === 'undefined' ? EMPTY_FILTER : filterFromSearchParams(new URLSearchParams(window.location.search))
+  );
+
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const params = new URLSearchParams(search);
+    writeFilterParams(params, filter);
+    const query = params.toString();
+    if ((query ? `?${query}` : '') !== search) {
+      window.history.replaceState(window.history.state, '', `${pathname}${query ? `?${query}` : ''}${hash}`);
+    }
+  }, [filter]);
+
+  const updateFilter = useCallback((changes: Partial<TranscriptFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const clearFilter = useCallback(() => setFilter(EMPTY_FILTER), []);
+
+  return { filter, updateFilter, clearFilter };
+}
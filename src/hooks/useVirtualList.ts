@@ -0,0 +1,83 @@
+import { useState, useRef, useCallback, useMemo, useLayoutEffect } from 'react';
+import { INITIAL_ROWS, isAtBottom, rowOffsets, visibleRange } from '@/lib/virtual-list';
+
+interface Viewport {
+  scrollTop: number;
+  height: number;
+}
+
+/**
+ * Windowed rendering for a long, growing list of variable-height rows.
+ * Only rows near the viewport are mounted; the rest are stood in for by
+ * spacers sized from measured (or estimated) row heights. While the user
+ * is at the bottom the list follows new content, and scrolling up stops it.
+ *
+ * `followKey` is anything besides the rows that changes the content height
+ * at the bottom, such as interim text.
+ */
+export function useVirtualList<T extends HTMLElement>(keys: string[], followKey?: unknown) {
+  const scrollRef = useRef<T>(null);
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  /** Null until mounted; a height of 0 means nothing is laid out, so every row is rendered. */
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [following, setFollowing] = useState(true);
+
+  const offsets = useMemo(() => rowOffsets(keys, heights), [keys, heights]);
+  const total = offsets[keys.length];
+
+  const range = viewport === null
+    ? { start: Math.max(0, keys.length - INITIAL_ROWS), end: keys.length }
+    : viewport.height === 0
+      ? { start: 0, end: keys.length }
+      : visibleRange(offsets, viewport.scrollTop, viewport.height);
+
+  const readViewport = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewport(prev => prev?.scrollTop === el.scrollTop && prev.height === el.clientHeight
+      ? prev
+      : { scrollTop: el.scrollTop, height: el.clientHeight });
+  }, []);
+
+  const onScroll = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    readViewport();
+    setFollowing(isAtBottom(el.scrollTop, el.clientHeight, el.scrollHeight));
+  }, [readViewport]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    readViewport();
+    const observer = new ResizeObserver(readViewport);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [readViewport]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !following) return;
+    el.scrollTop = el.scrollHeight;
+    readViewport();
+  }, [following, total, followKey, readViewport]);
+
+  /** Records a rendered row's height; rows above the viewport keep their place through native scroll anchoring. */
+  const measureRow = useCallback((key: string, height: number) => {
+    setHeights(prev => prev.get(key) === height ? prev : new Map(prev).set(key, height));
+  }, []);
+
+  const jumpToLive = useCallback(() => setFollowing(true), []);
+
+  return {
+    scrollRef,
+    onScroll,
+    start: range.start,
+    end: range.end,
+    paddingTop: offsets[range.start],
+    paddingBottom: total - offsets[range.end],
+    measureRow,
+    following,
+    jumpToLive,
+  };
+}
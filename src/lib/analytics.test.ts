@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDebate, claimVerdicts, verdictRate } from './analytics';
+import { applyReview } from './reviews';
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { Speaker } from './speakers';
+
+const speakers: Speaker[] = [
+  { id: 'A', name: 'Moderator', color: 'blue' },
+  { id: 'B', name: 'Dana Ruiz', color: 'red' },
+  { id: 'C', name: 'Lee Park', color: 'green' },
+];
+
+const transcript = (overrides: Partial<Transcript> = {}): Transcript => ({
+  id: 't1',
+  text: 'Taxes went up.',
+  speaker: 'A',
+  isChecking: false,
+  timestamp: 0,
+  lastUpdated: 0,
+  ...overrides,
+});
+
+describe('analytics', () => {
+  it('counts each checked claim, with an editor verdict standing for the transcript', () => {
+    const multi = transcript({
+      factCheck: {
+        verdict: 'False',
+        explanation: '2 claims.',
+        claims: [{ verdict: 'True', explanation: '' }, { verdict: 'False', explanation: '' }, { verdict: 'NOT_A_CLAIM', explanation: '' }],
+      },
+    });
+    expect(claimVerdicts(multi)).toEqual(['True', 'False']);
+
+    const reviewed = { ...multi, factCheck: applyReview(multi.factCheck, { editor: 'Sam', verdict: 'Unverified', explanation: 'Disputed.' }, 1) };
+    expect(claimVerdicts(reviewed)).toEqual(['Unverified']);
+
+    expect(claimVerdicts(transcript({ factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' } }))).toEqual([]);
+    expect(claimVerdicts(transcript({ isChecking: true, factCheck: { verdict: 'True', explanation: 'Analyzing...' } }))).toEqual([]);
+  });
+
+  it('builds a per-speaker scorecard', () => {
+    const analytics = analyzeDebate([
+      transcript({ timestamp: 1_000, lastUpdated: 5_000, factCheck: { verdict: 'True', explanation: '' } }),
+      transcript({
+        id: 't2',
+        speaker: 'B',
+        timestamp: 6_000,
+        lastUpdated: 6_000,
+        words: [{ text: 'Crime', start: 5_000, end: 5_500 }, { text: 'fell.', start: 5_500, end: 7_000 }],
+        factCheck: { verdict: 'False', explanation: '' },
+      }),
+      transcript({ id: 't3', speaker: 'A', timestamp: 8_000, lastUpdated: 9_000, factCheck: { verdict: 'Unverified', explanation: '' } }),
+      transcript({ id: 't4', speaker: 'Z', timestamp: 9_000, lastUpdated: 10_000 }),
+    ], speakers);
+
+    expect(analytics.speakers.map(s => s.speaker)).toEqual(['A', 'B', 'C', 'Z']);
+    expect(analytics.speakers[0]).toEqual({
+      speaker: 'A',
+      talkTimeMs: 5_000,
+      transcripts: 2,
+      claims: 2,
+      verdicts: { True: 1, False: 0, Unverified: 1 },
+    });
+    expect(analytics.speakers[1]).toMatchObject({ talkTimeMs: 2_000, claims: 1, verdicts: { False: 1 } });
+    expect(analytics.speakers[2]).toMatchObject({ transcripts: 0, claims: 0 });
+    expect(analytics.claims).toBe(3);
+    expect(verdictRate(analytics.verdicts, 'True')).toBeCloseTo(1 / 3);
+    expect(verdictRate(analytics.speakers[2].verdicts, 'True')).toBe(0);
+  });
+
+  it('places verdicts on a timeline by when they were spoken', () => {
+    const { timeline } = analyzeDebate([
+      transcript({ timestamp: 0, lastUpdated: 1_000, factCheck: { verdict: 'True', explanation: '' } }),
+      transcript({ id: 't2', timestamp: 5_500, lastUpdated: 6_000, factCheck: { verdict: 'False', explanation: '' } }),
+      transcript({ id: 't3', timestamp: 11_000, lastUpdated: 12_000, factCheck: { verdict: 'False', explanation: '' } }),
+    ], speakers, 4);
+
+    expect(timeline.map(b => [b.start, b.end])).toEqual([[0, 3_000], [3_000, 6_000], [6_000, 9_000], [9_000, 12_000]]);
+    expect(timeline.map(b => b.verdicts)).toEqual([
+      { True: 1, False: 0, Unverified: 0 },
+      { True: 0, False: 1, Unverified: 0 },
+      { True: 0, False: 0, Unverified: 0 },
+      { True: 0, False: 1, Unverified: 0 },
+    ]);
+    expect(analyzeDebate([transcript()], speakers).timeline).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { Verdict } from '@/types/worker-messages';
+import { isHumanVerdict } from './reviews';
+import type { Speaker } from './speakers';
+
+export type ClaimVerdict = Exclude<Verdict, 'NOT_A_CLAIM'>;
+
+export const CLAIM_VERDICTS: ClaimVerdict[] = ['True', 'False', 'Unverified'];
+
+export type VerdictCounts = Record<ClaimVerdict, number>;
+
+export interface SpeakerStats {
+  /** Roster id. */
+  speaker: string;
+  talkTimeMs: number;
+  transcripts: number;
+  claims: number;
+  verdicts: VerdictCounts;
+}
+
+/** Claims judged in one slice of the session, by when they were spoken. */
+export interface TimelineBucket {
+  start: number;
+  end: number;
+  verdicts: VerdictCounts;
+}
+
+export interface DebateAnalytics {
+  /** Roster order, then any speaker missing from the roster. */
+  speakers: SpeakerStats[];
+  claims: number;
+  verdicts: VerdictCounts;
+  timeline: TimelineBucket[];
+}
+
+/** Slices the verdict timeline is divided into. */
+export const TIMELINE_BUCKETS = 12;
+
+const noVerdicts = (): VerdictCounts => ({ True: 0, False: 0, Unverified: 0 });
+
+const isClaimVerdict = (verdict: Verdict): verdict is ClaimVerdict => verdict !== 'NOT_A_CLAIM';
+
+/** Spoken span from word timings, or when the transcript was first and last updated. */
+export function transcriptSpan(t: Transcript): { start: number; end: number } {
+  if (t.words?.length) return { start: t.words[0].start, end: t.words[t.words.length - 1].end };
+  return { start: t.timestamp, end: t.lastUpdated ?? t.timestamp };
+}
+
+/**
+ * Settled verdicts of the claims a transcript makes. An editor's verdict
+ * stands for the whole transcript; checks still running are left out.
+ */
+export function claimVerdicts(t: Transcript): ClaimVerdict[] {
+  const check = t.factCheck;
+  if (!check || t.isChecking) return [];
+  if (!isHumanVerdict(check) && check.claims?.length) return check.claims.map(c => c.verdict).filter(isClaimVerdict);
+  return isClaimVerdict(check.verdict) ? [check.verdict] : [];
+}
+
+/** Share of `counts` with `verdict`, 0-1; 0 when there are no claims. */
+export function verdictRate(counts: VerdictCounts, verdict: ClaimVerdict): number {
+  const total = counts.True + counts.False + counts.Unverified;
+  return total > 0 ? counts[verdict] / total : 0;
+}
+
+function buildTimeline(transcripts: Transcript[], bucketCount: number): TimelineBucket[] {
+  const claims = transcripts.flatMap(t => {
+    const verdicts = claimVerdicts(t);
+    return verdicts.length > 0 ? [{ at: transcriptSpan(t).start, verdicts }] : [];
+  });
+  if (claims.length === 0) return [];
+
+  const start = Math.min(...transcripts.map(t => transcriptSpan(t).start));
+  const end = Math.max(...transcripts.map(t => transcriptSpan(t).end));
+  const width = Math.max(end - start, 1) / bucketCount;
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    start: Math.round(start + i * width),
+    end: Math.round(start + (i + 1) * width),
+    verdicts: noVerdicts(),
+  }));
+  for (const claim of claims) {
+    const bucket = buckets[Math.min(Math.floor((claim.at - start) / width), bucketCount - 1)];
+    claim.verdicts.forEach(v => bucket.verdicts[v]++);
+  }
+  return buckets;
+}
+
+/** Per-speaker scorecard, overall verdict counts and a verdict timeline for a session. */
+export function analyzeDebate(transcripts: Transcript[], speakers: Speaker[], bucketCount = TIMELINE_BUCKETS): DebateAnalytics {
+  const stats = new Map<string, SpeakerStats>();
+  const statsFor = (speaker: string) => {
+    if (!stats.has(speaker)) stats.set(speaker, { speaker, talkTimeMs: 0, transcripts: 0, claims: 0, verdicts: noVerdicts() });
+    return stats.get(speaker)!;
+  };
+  speakers.forEach(s => statsFor(s.id));
+
+  const verdicts = noVerdicts();
+  let claims = 0;
+  for (const t of transcripts) {
+    const s = statsFor(t.speaker);
+    const { start, end } = transcriptSpan(t);
+    s.talkTimeMs += end - start;
+    s.transcripts++;
+    for (const verdict of claimVerdicts(t)) {
+      s.claims++;
+      s.verdicts[verdict]++;
+      verdicts[verdict]++;
+      claims++;
+    }
+  }
+
+  return { speakers: [...stats.values()], claims, verdicts, timeline: buildTimeline(transcripts, bucketCount) };
+}
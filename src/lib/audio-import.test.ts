@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { mixToMono } from './audio-import';
+
+describe('mixToMono', () => {
+  it('passes a single channel through', () => {
+    const channel = new Float32Array([0.1, -0.2]);
+    expect(mixToMono([channel])).toBe(channel);
+  });
+
+  it('averages channels', () => {
+    const mono = mixToMono([new Float32Array([1, 0.5, -1]), new Float32Array([0, 0.5, 1])]);
+    expect(Array.from(mono)).toEqual([0.5, 0.5, 0]);
+  });
+});
@@ -0,0 +1,51 @@
+import { ONNX_WASM_BASE_PATH, SAMPLE_RATE } from './constants';
+
+/** A stretch of speech found in a recording, with times in ms from its start. */
+export interface RecordedSegment {
+  audio: Float32Array;
+  start: number;
+  end: number;
+}
+
+/**
+ * Averages the channels of a decoded recording into one.
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Decodes the audio track of an audio or video file to mono samples at the
+ * speech model's sample rate.
+ */
+export async function decodeAudioFile(file: File): Promise<Float32Array> {
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`Could not decode audio from "${file.name}".`);
+  }
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return mixToMono(channels);
+}
+
+/**
+ * Splits decoded audio into utterances with the non-real-time VAD.
+ */
+export async function* segmentRecording(audio: Float32Array): AsyncGenerator<RecordedSegment> {
+  const { NonRealTimeVAD } = await import('@ricky0123/vad-web');
+  const vad = await NonRealTimeVAD.new({
+    modelURL: '/silero_vad_legacy.onnx',
+    ortConfig: ort => {
+      ort.env.wasm.wasmPaths = ONNX_WASM_BASE_PATH;
+    },
+  });
+  yield* vad.run(audio, SAMPLE_RATE);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { audioStore, type AudioClip } from './audio-store';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+const clip = (id: string, bytes: number, createdAt: number, transcriptId = id): AudioClip => ({
+  id,
+  transcriptId,
+  wav: new Blob(),
+  bytes,
+  durationMs: 1_000,
+  createdAt,
+});
+
+async function storedIds(): Promise<string[]> {
+  const db = await openDatabase('debatelens_audio', 2, () => {});
+  try {
+    const keys = await requestToPromise(db.transaction('clips', 'readonly').objectStore('clips').getAllKeys());
+    return keys.map(String).sort();
+  } finally {
+    db.close();
+  }
+}
+
+describe('audioStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, 'indexedDB');
+  });
+
+  it('keeps everything under the limit', async () => {
+    await audioStore.save(clip('a', 300, 1), 1_200);
+    await audioStore.save(clip('b', 400, 2), 1_200);
+    await audioStore.save(clip('c', 500, 3), 1_200);
+
+    expect(await storedIds()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('evicts the oldest clips until the rest fit', async () => {
+    await audioStore.save(clip('b', 400, 2), 900);
+    await audioStore.save(clip('a', 300, 1), 900);
+    await audioStore.save(clip('c', 500, 3), 900);
+    expect(await storedIds()).toEqual(['b', 'c']);
+
+    await audioStore.enforceLimit(600);
+    expect(await storedIds()).toEqual(['c']);
+  });
+
+  it('keeps the running total when clips are replaced, deleted or cleared', async () => {
+    await audioStore.save(clip('a', 300, 1, 't1'), 1_000);
+    await audioStore.save(clip('a', 500, 1, 't1'), 1_000);
+    await audioStore.save(clip('b', 400, 2, 't2'), 1_000);
+    expect(await storedIds()).toEqual(['a', 'b']);
+
+    await audioStore.deleteForTranscripts(['t1']);
+    await audioStore.save(clip('c', 600, 3, 't3'), 1_000);
+    expect(await storedIds()).toEqual(['b', 'c']);
+
+    await audioStore.clear();
+    await audioStore.save(clip('d', 1_000, 4), 1_000);
+    expect(await storedIds()).toEqual(['d']);
+  });
+
+  it('totals clips saved before the total was kept', async () => {
+    const db = await openDatabase('debatelens_audio', 1, created => {
+      created.createObjectStore('clips', { keyPath: 'id' }).createIndex('transcriptId', 'transcriptId');
+    });
+    const tx = db.transaction('clips', 'readwrite');
+    tx.objectStore('clips').put(clip('a', 300, 1));
+    tx.objectStore('clips').put(clip('b', 400, 2));
+    await transactionDone(tx);
+    db.close();
+
+    await audioStore.save(clip('c', 500, 3), 900);
+
+    expect(await storedIds()).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,145 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+
+/** One utterance of audio. A merged transcript owns several clips. */
+export interface AudioClip {
+  /** Utterance id the audio was transcribed under. */
+  id: string;
+  transcriptId: string;
+  wav: Blob;
+  bytes: number;
+  durationMs: number;
+  createdAt: number;
+}
+
+const DB_NAME = 'debatelens_audio';
+const DB_VERSION = 2;
+// Running size of all clips, so saving a clip never has to read them all
+const TOTAL_BYTES_KEY = 'totalBytes';
+
+export const AUDIO_LIMIT_OPTIONS_MB = [0, 25, 100, 250, 500];
+export const DEFAULT_AUDIO_LIMIT_MB = 100;
+
+function openAudioStore(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+    if (oldVersion < 1) {
+      const clips = db.createObjectStore('clips', { keyPath: 'id' });
+      clips.createIndex('transcriptId', 'transcriptId');
+    }
+    if (oldVersion < 2) {
+      const clips = tx.objectStore('clips');
+      clips.createIndex('createdAt', 'createdAt');
+      const meta = db.createObjectStore('meta');
+      // Clips saved before the total was kept
+      let total = 0;
+      const request = clips.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          meta.put(total, TOTAL_BYTES_KEY);
+          return;
+        }
+        total += (cursor.value as AudioClip).bytes;
+        cursor.continue();
+      };
+    }
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore, meta: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openAudioStore();
+  try {
+    const tx = db.transaction(['clips', 'meta'], mode);
+    const result = await run(tx.objectStore('clips'), tx.objectStore('meta'));
+    await transactionDone(tx);
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+async function readTotal(meta: IDBObjectStore): Promise<number> {
+  return (await requestToPromise(meta.get(TOTAL_BYTES_KEY)) as number | undefined) ?? 0;
+}
+
+/**
+ * Deletes the oldest clips until `total` fits in `limitBytes`, walking the
+ * `createdAt` index so only evicted clips are read. Returns the new total.
+ */
+function evictOldest(store: IDBObjectStore, total: number, limitBytes: number): Promise<number> {
+  if (total <= limitBytes) return Promise.resolve(total);
+  return new Promise((resolve, reject) => {
+    const request = store.index('createdAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || total <= limitBytes) {
+        resolve(Math.max(0, total));
+        return;
+      }
+      total -= (cursor.value as AudioClip).bytes;
+      cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Deletes a transcript's clips, returning their size. */
+async function deleteByTranscript(store: IDBObjectStore, transcriptId: string): Promise<number> {
+  const clips = await requestToPromise(store.index('transcriptId').getAll(transcriptId)) as AudioClip[];
+  clips.forEach(clip => store.delete(clip.id));
+  return clips.reduce((sum, clip) => sum + clip.bytes, 0);
+}
+
+/**
+ * IndexedDB-backed store for per-utterance audio. Writes are skipped and
+ * reads resolve empty where IndexedDB is unavailable (SSR, tests).
+ */
+export const audioStore = {
+  /** Saves a clip, then evicts the oldest clips beyond `limitBytes`. */
+  async save(clip: AudioClip, limitBytes: number): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    await withStore('readwrite', async (store, meta) => {
+      const [total, replaced] = await Promise.all([
+        readTotal(meta),
+        requestToPromise(store.get(clip.id)) as Promise<AudioClip | undefined>,
+      ]);
+      store.put(clip);
+      meta.put(await evictOldest(store, total - (replaced?.bytes ?? 0) + clip.bytes, limitBytes), TOTAL_BYTES_KEY);
+    });
+  },
+
+  async getClips(transcriptId: string): Promise<AudioClip[]> {
+    if (!isIndexedDBAvailable()) return [];
+    const clips = await withStore('readonly', store =>
+      requestToPromise(store.index('transcriptId').getAll(transcriptId))
+    ) as AudioClip[];
+    return clips.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  async deleteForTranscripts(transcriptIds: string[]): Promise<void> {
+    if (!isIndexedDBAvailable() || transcriptIds.length === 0) return;
+    await withStore('readwrite', async (store, meta) => {
+      const [total, ...deleted] = await Promise.all([readTotal(meta), ...transcriptIds.map(id => deleteByTranscript(store, id))]);
+      meta.put(Math.max(0, deleted.reduce((sum, bytes) => sum - bytes, total)), TOTAL_BYTES_KEY);
+    });
+  },
+
+  async clear(): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    await withStore('readwrite', (store, meta) => {
+      store.clear();
+      meta.put(0, TOTAL_BYTES_KEY);
+    });
+  },
+
+  /** Drops clips over a newly lowered limit. */
+  async enforceLimit(limitBytes: number): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    await withStore('readwrite', async (store, meta) => {
+      meta.put(await evictOldest(store, await readTotal(meta), limitBytes), TOTAL_BYTES_KEY);
+    });
+  },
+};
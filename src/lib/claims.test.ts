@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseClaimList, segmentByClaims, summarizeClaims } from './claims';
+import type { FactCheck } from '@/types/worker-messages';
+
+describe('claims', () => {
+  it('parses, trims and de-duplicates extracted claims', () => {
+    expect(parseClaimList('Claims: ["A is B", " a is b ", "", 3, "C is D"]')).toEqual(['A is B', 'C is D']);
+    expect(parseClaimList('[]')).toEqual([]);
+    expect(parseClaimList('no list here')).toBeNull();
+    expect(parseClaimList('["unterminated')).toBeNull();
+  });
+
+  it('caps the number of claims per segment', () => {
+    expect(parseClaimList(JSON.stringify(['a', 'b', 'c', 'd', 'e', 'f']))).toHaveLength(4);
+  });
+
+  it('summarizes claims with false taking precedence', () => {
+    const claims: FactCheck[] = [
+      { verdict: 'True', explanation: 'Yes.', confidence: 0.9 },
+      { verdict: 'Unverified', explanation: 'Unknown.' },
+      { verdict: 'NOT_A_CLAIM', explanation: '' },
+    ];
+    expect(summarizeClaims(claims)).toEqual({
+      verdict: 'Unverified',
+      explanation: '2 claims: 1 unverified, 1 true.',
+      claims: claims.slice(0, 2),
+    });
+    expect(summarizeClaims([{ verdict: 'NOT_A_CLAIM', explanation: '' }])).toEqual({ verdict: 'NOT_A_CLAIM', explanation: '' });
+  });
+
+  it('splits text into highlighted claim runs', () => {
+    const text = 'Paris is big and Rome is old.';
+    const paris: FactCheck = { verdict: 'True', explanation: '', claim: { text: 'Paris is big', start: 0, end: 12 } };
+    const rome: FactCheck = { verdict: 'False', explanation: '', claim: { text: 'Rome is old', start: 17, end: 28 } };
+    const overlapping: FactCheck = { verdict: 'False', explanation: '', claim: { text: 'is big and', start: 6, end: 16 } };
+    const unlocated: FactCheck = { verdict: 'True', explanation: '', claim: { text: 'elsewhere' } };
+
+    expect(segmentByClaims(text, [rome, overlapping, paris, unlocated])).toEqual([
+      { text: 'Paris is big', claim: paris },
+      { text: ' and ' },
+      { text: 'Rome is old', claim: rome },
+      { text: '.' },
+    ]);
+    expect(segmentByClaims(text)).toEqual([{ text }]);
+  });
+});
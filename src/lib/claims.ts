@@ -0,0 +1,91 @@
+import type { FactCheck, Verdict } from '@/types/worker-messages';
+
+export const MAX_CLAIMS_PER_SEGMENT = 4;
+
+/**
+ * Parses the claim-extraction output, a JSON array of claim strings.
+ * Returns null when the output is unusable so callers can fall back.
+ */
+export function parseClaimList(raw: string): string[] | null {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start === -1 || end <= start) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(data)) return null;
+
+  const seen = new Set<string>();
+  const claims: string[] = [];
+  for (const item of data) {
+    if (typeof item !== 'string') continue;
+    const claim = item.trim();
+    const key = claim.toLowerCase();
+    if (!claim || seen.has(key)) continue;
+    seen.add(key);
+    claims.push(claim);
+  }
+
+  return claims.slice(0, MAX_CLAIMS_PER_SEGMENT);
+}
+
+/** Segment verdict precedence: one false claim makes the segment false. */
+const VERDICT_PRECEDENCE: Verdict[] = ['False', 'Unverified', 'True'];
+
+/**
+ * Rolls per-claim verdicts up into the segment-level verdict.
+ */
+export function summarizeClaims(claims: FactCheck[]): FactCheck {
+  const checkable = claims.filter(c => c.verdict !== 'NOT_A_CLAIM');
+  if (checkable.length === 0) return { verdict: 'NOT_A_CLAIM', explanation: '' };
+  if (checkable.length === 1) return { ...checkable[0], claims: checkable };
+
+  const verdict = VERDICT_PRECEDENCE.find(v => checkable.some(c => c.verdict === v))!;
+  const counts = VERDICT_PRECEDENCE
+    .map(v => [v, checkable.filter(c => c.verdict === v).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([v, n]) => `${n} ${v.toLowerCase()}`);
+
+  const summary: FactCheck = {
+    verdict,
+    explanation: `${checkable.length} claims: ${counts.join(', ')}.`,
+    claims: checkable,
+  };
+
+  const confidences = checkable.filter(c => c.verdict === verdict && c.confidence !== undefined).map(c => c.confidence!);
+  if (confidences.length > 0) summary.confidence = Math.min(...confidences);
+
+  return summary;
+}
+
+export interface TextSegment {
+  text: string;
+  claim?: FactCheck;
+}
+
+/**
+ * Splits transcript text into plain runs and claim runs for inline highlighting.
+ * Claims without a located span, or overlapping an earlier claim, are skipped.
+ */
+export function segmentByClaims(text: string, claims: FactCheck[] = []): TextSegment[] {
+  const located = claims
+    .filter(c => c.claim?.start !== undefined && c.claim.end !== undefined && c.claim.end <= text.length)
+    .sort((a, b) => a.claim!.start! - b.claim!.start!);
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  for (const claim of located) {
+    const { start, end } = claim.claim as { start: number; end: number };
+    if (start < cursor) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start) });
+    segments.push({ text: text.slice(start, end), claim });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+
+  return segments;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { applyConfidenceThreshold, softmax } from './confidence';
+
+describe('confidence', () => {
+  it('normalises logits into probabilities', () => {
+    const probs = softmax([2, 1, 0]);
+    expect(probs.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    expect(probs[0]).toBeGreaterThan(probs[1]);
+    expect(softmax([1000, 1000])).toEqual([0.5, 0.5]);
+  });
+
+  it('downgrades verdicts below the threshold', () => {
+    const check = { verdict: 'True' as const, explanation: 'Maybe.', confidence: 0.4 };
+    expect(applyConfidenceThreshold(check, 0.6)).toEqual({ ...check, verdict: 'Unverified', downgradedFrom: 'True' });
+    expect(applyConfidenceThreshold(check, 0.4)).toBe(check);
+  });
+
+  it('leaves unscored, unverified and non-claim verdicts alone', () => {
+    const unscored = { verdict: 'False' as const, explanation: 'No.' };
+    const unverified = { verdict: 'Unverified' as const, explanation: '?', confidence: 0.1 };
+    const nonClaim = { verdict: 'NOT_A_CLAIM' as const, explanation: '', confidence: 0.1 };
+    expect(applyConfidenceThreshold(unscored, 0.9)).toBe(unscored);
+    expect(applyConfidenceThreshold(unverified, 0.9)).toBe(unverified);
+    expect(applyConfidenceThreshold(nonClaim, 0.9)).toBe(nonClaim);
+  });
+});
@@ -0,0 +1,23 @@
+import type { FactCheck } from '@/types/worker-messages';
+
+/** Off by default: verdicts are shown as the model gave them. */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0;
+
+/** Numerically stable softmax over a handful of logits. */
+export function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map(e => e / total);
+}
+
+/**
+ * Downgrades a True/False verdict to Unverified when the model was less
+ * sure of it than the user's threshold. The original label is kept in
+ * `downgradedFrom` so the UI can explain the change.
+ */
+export function applyConfidenceThreshold(check: FactCheck, threshold: number): FactCheck {
+  if (check.verdict !== 'True' && check.verdict !== 'False') return check;
+  if (check.confidence === undefined || check.confidence >= threshold) return check;
+  return { ...check, verdict: 'Unverified', downgradedFrom: check.verdict };
+}
@@ -1,8 +1,22 @@
 export const MODELS = {
   STT: 'onnx-community/whisper-tiny.en',
   LLM: 'Xenova/Phi-3-mini-4k-instruct',
+  LLM_LITE: 'HuggingFaceTB/SmolLM2-360M-Instruct',
+  EMBEDDING: 'Xenova/all-MiniLM-L6-v2',
+  SPEAKER: 'Xenova/wavlm-base-plus-sv',
 };
 
 export const VAD_MODEL_URL = 'https://cdn.jsdelivr.net/npm/@ricky0123/vad-web@0.0.7/dist/silero_vad.onnx';
 
 export const DEBOUNCE_MS = 1500;
+
+/** How often audio of an utterance in progress is sent for interim transcription. */
+export const PARTIAL_TRANSCRIPT_INTERVAL_MS = 1000;
+/** Interim transcription only looks at the most recent audio of a long utterance. */
+export const PARTIAL_TRANSCRIPT_WINDOW_S = 30;
+
+/** Sample rate of the VAD audio and of Whisper's input. */
+export const SAMPLE_RATE = 16000;
+
+/** ONNX Runtime WASM binaries used by both the live and file VADs. */
+export const ONNX_WASM_BASE_PATH = 'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.23.2/dist/';
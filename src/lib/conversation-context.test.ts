@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { conversationContext } from './conversation-context';
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { Speaker } from './speakers';
+
+const roster: Speaker[] = [
+  { id: 'A', name: 'Governor Lee', color: 'blue' },
+  { id: 'B', name: 'Moderator', color: 'amber' },
+];
+
+const transcript = (id: string, speaker: string, text: string, translation?: string): Transcript => ({
+  id, speaker, text, translation, isChecking: false, timestamp: 0, lastUpdated: 0,
+});
+
+const transcripts = [
+  transcript('t1', 'A', 'Good evening.'),
+  transcript('t2', 'A', 'I changed the school budget.'),
+  transcript('t3', 'B', 'Recortó el presupuesto.', 'He cut the budget.'),
+  transcript('t4', 'B', 'By half, he says.'),
+];
+
+describe('conversation context', () => {
+  it('sends the turns before the transcript with speaker names', () => {
+    expect(conversationContext(transcripts, 't4', 'B', roster, 2)).toEqual({
+      speaker: 'Moderator',
+      turns: [
+        { speaker: 'Governor Lee', text: 'I changed the school budget.' },
+        { speaker: 'Moderator', text: 'He cut the budget.' },
+      ],
+    });
+  });
+
+  it('treats a transcript not in the list yet as the newest', () => {
+    expect(conversationContext(transcripts, 'new', 'A', roster, 1)?.turns).toEqual([
+      { speaker: 'Moderator', text: 'By half, he says.' },
+    ]);
+  });
+
+  it('has nothing to send for the first transcript', () => {
+    expect(conversationContext(transcripts, 't1', 'A', roster)).toBeUndefined();
+    expect(conversationContext([], 'new', 'A', roster)).toBeUndefined();
+  });
+
+  it('keeps the newest text within the character budget', () => {
+    expect(conversationContext(transcripts, 't4', 'B', roster, 4, 30)?.turns).toEqual([
+      { speaker: 'Governor Lee', text: '…budget.' },
+      { speaker: 'Moderator', text: 'He cut the budget.' },
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { ConversationContext, ConversationTurn } from '@/types/worker-messages';
+import { Speaker, speakerName } from './speakers';
+
+/** Preceding transcripts sent with a fact-check. */
+export const CONTEXT_TURNS = 4;
+
+/** Upper bound on the context text, so long turns cannot crowd the claim out of the prompt. */
+export const CONTEXT_MAX_CHARS = 1200;
+
+/**
+ * The turns before transcript `id`, newest last, for resolving references
+ * such as "he" or "that number". A transcript not in the list yet is
+ * treated as the newest. Returns undefined when nothing precedes it.
+ */
+export function conversationContext(
+  transcripts: Transcript[],
+  id: string,
+  speaker: string,
+  roster: Speaker[],
+  maxTurns = CONTEXT_TURNS,
+  maxChars = CONTEXT_MAX_CHARS
+): ConversationContext | undefined {
+  const index = transcripts.findIndex(t => t.id === id);
+  const preceding = index === -1 ? transcripts : transcripts.slice(0, index);
+
+  const turns: ConversationTurn[] = [];
+  let budget = maxChars;
+  for (const t of preceding.slice(-maxTurns).reverse()) {
+    const text = (t.translation ?? t.text).trim();
+    if (text.length <= budget) {
+      turns.unshift({ speaker: speakerName(roster, t.speaker), text });
+      budget -= text.length;
+      continue;
+    }
+    // Keep the end of the turn that overflows, from a word boundary; it is closest to the claim
+    const tail = text.slice(text.length - budget + 1).replace(/^\S*\s+/, '');
+    if (tail) turns.unshift({ speaker: speakerName(roster, t.speaker), text: `…${tail}` });
+    break;
+  }
+
+  return turns.length > 0 ? { speaker: speakerName(roster, speaker), turns } : undefined;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { assignSpeaker, relabelCluster, LOW_SPEAKER_CONFIDENCE, SpeakerCluster } from './diarization';
+
+const SPEAKERS = ['A', 'B'] as const;
+const alice = [1, 0, 0];
+const bob = [0, 1, 0];
+
+describe('assignSpeaker', () => {
+  it('opens a cluster for the first speaker', () => {
+    const { clusters, index, confidence } = assignSpeaker([], alice, SPEAKERS);
+    expect(clusters).toEqual([{ speaker: 'A', centroid: alice, count: 1 }]);
+    expect(index).toBe(0);
+    expect(confidence).toBe(1);
+  });
+
+  it('keeps a returning speaker and opens a cluster for a new one', () => {
+    let { clusters } = assignSpeaker<'A' | 'B'>([], alice, SPEAKERS);
+
+    const again = assignSpeaker(clusters, [0.99, 0.1, 0], SPEAKERS);
+    expect(again.clusters[again.index].speaker).toBe('A');
+    expect(again.clusters[0].count).toBe(2);
+    expect(again.confidence).toBeGreaterThan(LOW_SPEAKER_CONFIDENCE);
+    clusters = again.clusters;
+
+    const other = assignSpeaker(clusters, bob, SPEAKERS);
+    expect(other.clusters).toHaveLength(2);
+    expect(other.clusters[other.index].speaker).toBe('B');
+  });
+
+  it('assigns to the closest cluster once every speaker is taken', () => {
+    const clusters: SpeakerCluster<'A' | 'B'>[] = [
+      { speaker: 'A', centroid: alice, count: 3 },
+      { speaker: 'B', centroid: bob, count: 3 },
+    ];
+    const { clusters: next, index } = assignSpeaker(clusters, [0.2, 1, 0.1], SPEAKERS);
+    expect(next).toHaveLength(2);
+    expect(next[index].speaker).toBe('B');
+  });
+
+  it('is unsure about segments between two speakers', () => {
+    const clusters: SpeakerCluster<'A' | 'B'>[] = [
+      { speaker: 'A', centroid: alice, count: 3 },
+      { speaker: 'B', centroid: bob, count: 3 },
+    ];
+    expect(assignSpeaker(clusters, [1, 0.99, 0], SPEAKERS).confidence).toBeLessThan(LOW_SPEAKER_CONFIDENCE);
+  });
+});
+
+describe('relabelCluster', () => {
+  it('swaps labels with the cluster that had the chosen speaker', () => {
+    const clusters: SpeakerCluster<'A' | 'B'>[] = [
+      { speaker: 'A', centroid: alice, count: 1 },
+      { speaker: 'B', centroid: bob, count: 1 },
+    ];
+    expect(relabelCluster(clusters, 0, 'B').map(c => c.speaker)).toEqual(['B', 'A']);
+    expect(relabelCluster(clusters, 0, 'A')).toBe(clusters);
+  });
+});
@@ -0,0 +1,73 @@
+import { cosineSimilarity } from './knowledge-base';
+import { softmax } from './confidence';
+
+/** Running centroid of the speaker embeddings assigned to one speaker. */
+export interface SpeakerCluster<S extends string = string> {
+  speaker: S;
+  centroid: number[];
+  count: number;
+}
+
+export interface SpeakerAssignment<S extends string = string> {
+  clusters: SpeakerCluster<S>[];
+  /** Index into `clusters` of the segment's speaker. */
+  index: number;
+  /** Probability of the chosen speaker over the alternatives, 0-1. */
+  confidence: number;
+}
+
+/** Same-speaker cut-off suggested by the WavLM speaker-verification model card. */
+export const NEW_SPEAKER_SIMILARITY = 0.86;
+/** Assignments less certain than this are flagged for the moderator to check. */
+export const LOW_SPEAKER_CONFIDENCE = 0.75;
+// WavLM similarities sit in a narrow band, so sharpen them before the softmax
+const SIMILARITY_TEMPERATURE = 0.02;
+
+/**
+ * Assigns a segment's speaker embedding to the closest cluster, or opens a
+ * cluster for the next unused speaker when it matches none of them. Opening
+ * a new cluster competes as if it scored exactly `NEW_SPEAKER_SIMILARITY`,
+ * so confidence is low near the threshold and between similar speakers.
+ */
+export function assignSpeaker<S extends string>(
+  clusters: SpeakerCluster<S>[],
+  embedding: ArrayLike<number>,
+  speakers: readonly S[],
+): SpeakerAssignment<S> {
+  const scores = clusters.map(c => cosineSimilarity(c.centroid, embedding));
+  const unused = speakers.find(s => !clusters.some(c => c.speaker === s));
+  if (unused !== undefined) scores.push(NEW_SPEAKER_SIMILARITY);
+
+  const probabilities = softmax(scores.map(s => s / SIMILARITY_TEMPERATURE));
+  const index = probabilities.indexOf(Math.max(...probabilities));
+  const confidence = probabilities[index];
+
+  if (index === clusters.length) {
+    return {
+      clusters: [...clusters, { speaker: unused!, centroid: Array.from(embedding), count: 1 }],
+      index,
+      confidence,
+    };
+  }
+
+  const next = clusters.map((c, i) => {
+    if (i !== index) return c;
+    const count = c.count + 1;
+    return { ...c, count, centroid: c.centroid.map((v, d) => v + (embedding[d] - v) / count) };
+  });
+  return { clusters: next, index, confidence };
+}
+
+/**
+ * Applies a manual correction: the cluster becomes `speaker`, and whichever
+ * cluster had that speaker takes over the cluster's old one.
+ */
+export function relabelCluster<S extends string>(clusters: SpeakerCluster<S>[], index: number, speaker: S): SpeakerCluster<S>[] {
+  const previous = clusters[index]?.speaker;
+  if (previous === undefined || previous === speaker) return clusters;
+  return clusters.map((c, i) => {
+    if (i === index) return { ...c, speaker };
+    if (c.speaker === speaker) return { ...c, speaker: previous };
+    return c;
+  });
+}
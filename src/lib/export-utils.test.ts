@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsv, buildJson, buildMarkdown, buildSubtitleCues, buildSubtitles, CSV_COLUMNS, type SubtitleCue } from './export-utils';
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { SessionSummary } from './sessions';
+import type { Speaker } from './speakers';
+
+const at = (h: number, m: number, s: number, ms = 0) => new Date(2024, 0, 1, h, m, s, ms).getTime();
+
+/** Parses RFC 4180 CSV, including quoted cells with commas, quotes and line breaks. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
+
+function parseCueTime(value: string): number {
+  const match = /(?:(\d+):)?(\d{2}):(\d{2})[,.](\d{3})/.exec(value);
+  if (!match) return NaN;
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+}
+
+/** Reads SRT or WebVTT cues; headers, cue numbers and notes are skipped. */
+function parseSubtitles(text: string): SubtitleCue[] {
+  return text.replace(/\r\n?/g, '\n').split(/\n{2,}/).flatMap(block => {
+    const lines = block.trim().split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) return [];
+    const [start, end] = lines[timingIndex].split('-->').map(parseCueTime);
+    return [{ start, end, text: lines.slice(timingIndex + 1).join('\n') }];
+  });
+}
+
+const transcript = (overrides: Partial<Transcript> = {}): Transcript => ({
+  id: 't1',
+  text: 'Taxes went up.',
+  speaker: 'A',
+  isChecking: false,
+  timestamp: at(14, 3, 9),
+  lastUpdated: at(14, 3, 9),
+  ...overrides,
+});
+
+describe('export-utils', () => {
+  it('includes the audio span and word timings of spoken transcripts', () => {
+    const markdown = buildMarkdown([transcript({
+      words: [
+        { text: 'Taxes', start: at(14, 3, 7, 250), end: at(14, 3, 7, 600) },
+        { text: 'went', start: at(14, 3, 7, 600), end: at(14, 3, 7, 800) },
+        { text: 'up.', start: at(14, 3, 7, 800), end: at(14, 3, 8, 100) },
+      ],
+    })]);
+
+    expect(markdown).toContain('*Audio: 14:03:07.250 – 14:03:08.100*');
+    expect(markdown).toContain('`14:03:07.600` went');
+  });
+
+  it('omits timings for typed transcripts', () => {
+    expect(buildMarkdown([transcript()])).not.toContain('Audio:');
+  });
+
+  it('includes the detected language and translation', () => {
+    const markdown = buildMarkdown([transcript({ text: 'Los impuestos subieron.', language: 'es', translation: 'Taxes went up.' })]);
+    expect(markdown).toContain('Speaker A (es)');
+    expect(markdown).toContain('> Los impuestos subieron.');
+    expect(markdown).toContain('*Translation:* Taxes went up.');
+  });
+
+  it('uses speaker names from the roster', () => {
+    const markdown = buildMarkdown(
+      [transcript(), transcript({ id: 't2', speaker: 'C' })],
+      [{ id: 'A', name: 'Moderator', color: 'blue' }, { id: 'C', name: 'Dana Ruiz', color: 'green' }],
+    );
+    expect(markdown).toContain('] Moderator\n');
+    expect(markdown).toContain('] Dana Ruiz\n');
+  });
+
+  describe('other formats', () => {
+    const speakers: Speaker[] = [{ id: 'A', name: 'Moderator', color: 'blue' }, { id: 'B', name: 'Dana Ruiz', color: 'red' }];
+    const session: SessionSummary = {
+      id: 's1', name: 'Town Hall', createdAt: at(14, 0, 0), updatedAt: at(14, 5, 0), archived: false,
+      durationMs: 300_000, transcriptCount: 2, claimCount: 2,
+    };
+    const transcripts: Transcript[] = [
+      transcript({
+        text: 'Taxes went up, "a lot",\nsince 2020.',
+        words: [
+          { text: 'Taxes', start: at(14, 3, 7, 250), end: at(14, 3, 7, 600) },
+          { text: 'went', start: at(14, 3, 7, 600), end: at(14, 3, 9, 100) },
+        ],
+        speakerConfidence: 0.91,
+        hasAudio: true,
+        factCheck: {
+          verdict: 'False',
+          explanation: 'Rates were cut, per the budget [1].',
+          confidence: 0.82,
+          claims: [{
+            verdict: 'False',
+            explanation: 'Rates were cut.',
+            claim: { text: 'Taxes went up', start: 0, end: 13 },
+            sources: [{ ref: 1, documentId: 'd1', title: 'Budget 2024', text: 'Rates fell.', score: 0.7 }],
+          }],
+        },
+      }),
+      transcript({
+        id: 't2',
+        speaker: 'B',
+        text: 'Hola a todos.',
+        language: 'es',
+        translation: 'Hello everyone.',
+        timestamp: at(14, 3, 12),
+        lastUpdated: at(14, 3, 12, 400),
+        factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' },
+      }),
+    ];
+
+    it('round-trips every transcript and session field through JSON', () => {
+      const parsed = JSON.parse(buildJson({ session, speakers, transcripts }));
+
+      expect(parsed).toMatchObject({ app: 'debatelens', version: 1, session, speakers, transcripts });
+      expect(parsed.transcriptSchemaVersion).toEqual(expect.any(Number));
+    });
+
+    it('includes the speaker scorecard in Markdown and JSON', () => {
+      const markdown = buildMarkdown(transcripts, speakers);
+      expect(markdown).toContain('## Speaker Scorecard');
+      expect(markdown).toContain('| Moderator | 2s | 1 | 0 (0%) | 1 (100%) | 0 (0%) |');
+      expect(markdown).toContain('| Dana Ruiz | 0s | 0 | 0 (0%) | 0 (0%) | 0 (0%) |');
+      expect(markdown).toContain('| **All speakers** | | 1 | 0 (0%) | 1 (100%) | 0 (0%) |');
+
+      const { analytics } = JSON.parse(buildJson({ session, speakers, transcripts }));
+      expect(analytics).toMatchObject({ claims: 1, verdicts: { True: 0, False: 1, Unverified: 0 } });
+      expect(analytics.speakers[0]).toMatchObject({ speaker: 'A', talkTimeMs: 1_850, claims: 1 });
+    });
+
+    it('round-trips CSV cells with commas, quotes and line breaks', () => {
+      const [header, first, second] = parseCsv(buildCsv({ speakers, transcripts }));
+      const row = (cells: string[]) => Object.fromEntries(header.map((column, i) => [column, cells[i]]));
+
+      expect(header).toEqual([...CSV_COLUMNS]);
+      expect(row(first)).toMatchObject({
+        id: 't1',
+        speaker_id: 'A',
+        speaker: 'Moderator',
+        text: transcripts[0].text,
+        verdict: 'False',
+        confidence: '0.82',
+        explanation: 'Rates were cut, per the budget [1].',
+        claims: 'False: Taxes went up',
+        sources: 'Budget 2024',
+      });
+      expect(new Date(row(first).start).getTime()).toBe(at(14, 3, 7, 250));
+      expect(new Date(row(first).end).getTime()).toBe(at(14, 3, 9, 100));
+      // Non-claims have no verdict columns
+      expect(row(second)).toMatchObject({ language: 'es', translation: 'Hello everyone.', verdict: '', explanation: '' });
+    });
+
+    it('times subtitle cues from the first transcript with verdict captions', () => {
+      expect(buildSubtitleCues(transcripts, speakers)).toEqual([
+        { start: 0, end: 1_850, text: 'Moderator: Taxes went up, "a lot",\nsince 2020.\n[FALSE (82%)]' },
+        // Typed or short segments stay up long enough to read
+        { start: 4_750, end: 6_250, text: 'Dana Ruiz: Hello everyone.' },
+      ]);
+    });
+
+    it.each(['srt', 'vtt'] as const)('round-trips %s cues', (format) => {
+      const cues = buildSubtitleCues(transcripts, speakers, at(12, 0, 0));
+      const text = buildSubtitles(cues, format);
+
+      expect(text.startsWith('WEBVTT')).toBe(format === 'vtt');
+      expect(text).toContain(format === 'srt' ? '02:03:07,250 --> 02:03:09,100' : '02:03:07.250 --> 02:03:09.100');
+      expect(parseSubtitles(text)).toEqual(cues);
+    });
+
+    it('leaves out transcripts from before the recording', () => {
+      const cues = buildSubtitleCues(transcripts, speakers, transcripts[1].timestamp - 500);
+
+      expect(cues).toEqual([{ start: 500, end: 2_000, text: 'Dana Ruiz: Hello everyone.' }]);
+    });
+
+    it('rounds fractional times to whole milliseconds', () => {
+      const text = buildSubtitles([{ start: 1_234.567, end: 2_000.4, text: 'Hi.' }], 'srt');
+
+      expect(text).toContain('00:00:01,235 --> 00:00:02,000');
+    });
+  
+    describe('with a human verdict', () => {
+      const reviewed = transcript({
+        factCheck: {
+          verdict: 'False',
+          explanation: 'The budget was revised.',
+          modelVerdict: { verdict: 'True', explanation: 'Matches the budget.', confidence: 0.82 },
+          reviews: [
+            { editor: 'Sam', at: at(15, 0, 0), action: 'override', verdict: 'False', explanation: 'The budget was revised.', note: 'Checked the March revision.' },
+          ],
+        },
+      });
+
+      it('shows both verdicts and the notes in Markdown', () => {
+        const markdown = buildMarkdown([reviewed]);
+        expect(markdown).toContain('**Verdict: False** (human reviewed)');
+        expect(markdown).toContain('*Model verdict: True* (82% confidence): Matches the budget.');
+        expect(markdown).toContain('> **Note from Sam:** Checked the March revision.');
+      });
+
+      it('adds model and review columns to CSV', () => {
+        const [header, row] = parseCsv(buildCsv({ speakers, transcripts: [reviewed] }));
+        const cells = Object.fromEntries(header.map((column, i) => [column, row[i]]));
+        expect(cells).toMatchObject({
+          verdict: 'False',
+          model_verdict: 'True',
+          model_explanation: 'Matches the budget.',
+          reviewed_by: 'Sam',
+          reviewed_at: new Date(at(15, 0, 0)).toISOString(),
+          review_notes: 'Sam: Checked the March revision.',
+        });
+      });
+
+      it('captions both verdicts', () => {
+        expect(buildSubtitleCues([reviewed], speakers)[0].text).toContain('[FALSE, human reviewed · model: TRUE (82%)]');
+      });
+    });
+  });
+});
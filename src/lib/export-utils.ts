@@ -1,28 +1,266 @@
-import { Transcript } from '@/hooks/useDebateManager';
+import { FactCheck, Transcript } from '@/hooks/useDebateManager';
+import { formatClockTime } from './timestamps';
+import { DEFAULT_ROSTER, Speaker, speakerName } from './speakers';
+import { formatDuration, type SessionSummary } from './sessions';
+import { TRANSCRIPT_SCHEMA_VERSION } from './storage';
+import { isHumanVerdict, latestReview } from './reviews';
+import { analyzeDebate, CLAIM_VERDICTS, DebateAnalytics, transcriptSpan, VerdictCounts, verdictRate } from './analytics';
 
-export function exportToMarkdown(transcripts: Transcript[]) {
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON (lossless)', extension: 'json', mimeType: 'application/json' },
+  { id: 'csv', label: 'CSV spreadsheet', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'srt', label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt' },
+];
+
+/** Version of the JSON export layout, independent of the transcript schema it embeds. */
+export const JSON_EXPORT_VERSION = 1;
+
+export interface DebateExport {
+  app: 'debatelens';
+  version: number;
+  /** `TRANSCRIPT_SCHEMA_VERSION` of the transcripts, for migrating them on import. */
+  transcriptSchemaVersion: number;
+  exportedAt: number;
+  session: SessionSummary;
+  speakers: Speaker[];
+  transcripts: Transcript[];
+  /** Derived from `transcripts` when exported; ignored on import. */
+  analytics: DebateAnalytics;
+}
+
+export interface SessionExport {
+  session: SessionSummary;
+  speakers: Speaker[];
+  transcripts: Transcript[];
+}
+
+function formatConfidence(check: Pick<FactCheck, 'confidence' | 'downgradedFrom'>): string {
+  if (check.confidence === undefined) return '';
+  const percent = Math.round(check.confidence * 100);
+  return check.downgradedFrom
+    ? ` (downgraded from ${check.downgradedFrom}, ${percent}% confidence)`
+    : ` (${percent}% confidence)`;
+}
+
+function formatReview(check: FactCheck): string {
+  const review = latestReview(check);
+  let out = '';
+  if (check.modelVerdict && review) {
+    out += `*Human verdict by ${review.editor}, ${new Date(review.at).toLocaleString()}.* `;
+    out += `*Model verdict: ${check.modelVerdict.verdict}*${formatConfidence(check.modelVerdict)}: ${check.modelVerdict.explanation}\n\n`;
+  }
+  const notes = (check.reviews ?? []).filter(r => r.note);
+  if (notes.length > 0) {
+    out += notes.map(r => `> **Note from ${r.editor}:** ${r.note}`).join('\n>\n') + '\n\n';
+  }
+  return out;
+}
+
+function formatWordTimings(t: Transcript): string {
+  if (!t.words?.length) return '';
+  const first = t.words[0];
+  const last = t.words[t.words.length - 1];
+  let out = `*Audio: ${formatClockTime(first.start)} – ${formatClockTime(last.end)}*\n\n`;
+  out += `<details><summary>Word timings</summary>\n\n`;
+  out += t.words.map(w => `\`${formatClockTime(w.start)}\` ${w.text}`).join('  \n');
+  out += `\n\n</details>\n\n`;
+  return out;
+}
+
+function formatVerdictShare(counts: VerdictCounts): string[] {
+  return CLAIM_VERDICTS.map(v => `${counts[v]} (${Math.round(verdictRate(counts, v) * 100)}%)`);
+}
+
+function formatScorecard(analytics: DebateAnalytics, speakers: Speaker[]): string {
+  let out = `## Speaker Scorecard\n\n`;
+  out += `| Speaker | Talk time | Claims | ${CLAIM_VERDICTS.join(' | ')} |\n`;
+  out += `| --- | ---: | ---: | ---: | ---: | ---: |\n`;
+  analytics.speakers.filter(s => s.transcripts > 0).forEach(s => {
+    const cells = [speakerName(speakers, s.speaker), formatDuration(s.talkTimeMs), s.claims, ...formatVerdictShare(s.verdicts)];
+    out += `| ${cells.join(' | ')} |\n`;
+  });
+  out += `| **All speakers** | | ${analytics.claims} | ${formatVerdictShare(analytics.verdicts).join(' | ')} |\n\n---\n\n`;
+  return out;
+}
+
+export function buildMarkdown(transcripts: Transcript[], speakers: Speaker[] = DEFAULT_ROSTER): string {
   const date = new Date().toLocaleString();
   let markdown = `# DebateLens Transcript\n`;
   markdown += `*Exported on: ${date}*\n\n---\n\n`;
+  if (transcripts.length > 0) markdown += formatScorecard(analyzeDebate(transcripts, speakers), speakers);
 
   transcripts.forEach((t) => {
     const time = new Date(t.timestamp).toLocaleTimeString();
-    markdown += `### [${time}] Speaker ${t.speaker}\n`;
+    markdown += `### [${time}] ${speakerName(speakers, t.speaker)}${t.language ? ` (${t.language})` : ''}\n`;
     markdown += `> ${t.text}\n\n`;
+    if (t.translation) markdown += `*Translation:* ${t.translation}\n\n`;
+    markdown += formatWordTimings(t);
     
-    if (t.factCheck && t.factCheck.verdict !== 'NOT_A_CLAIM') {
-      markdown += `**Verdict: ${t.factCheck.verdict}**\n`;
+    if (t.factCheck && (t.factCheck.verdict !== 'NOT_A_CLAIM' || isHumanVerdict(t.factCheck))) {
+      const claims = t.factCheck.claims ?? [];
+      markdown += `**Verdict: ${t.factCheck.verdict}**${formatConfidence(t.factCheck)}${isHumanVerdict(t.factCheck) ? ' (human reviewed)' : ''}\n`;
       markdown += `${t.factCheck.explanation}\n\n`;
+      markdown += formatReview(t.factCheck);
+
+      if (claims.length > 0) {
+        markdown += `**Claims:**\n`;
+        claims.forEach((c, i) => {
+          markdown += `${i + 1}. **${c.verdict}**${formatConfidence(c)}: "${c.claim?.text ?? ''}"\n`;
+          if (c.resolvedClaim) markdown += `   Checked as: "${c.resolvedClaim}"\n`;
+          markdown += `   ${c.explanation}\n`;
+          (c.sources ?? []).forEach(src => {
+            markdown += `   - [${src.ref}] ${src.title}: "${src.text}"\n`;
+          });
+        });
+        markdown += `\n`;
+      }
     }
     
     markdown += `---\n\n`;
   });
 
-  const blob = new Blob([markdown], { type: 'text/markdown' });
+  return markdown;
+}
+
+/** Everything needed to restore the session, including in-progress and interim fields. */
+export function buildJson({ session, speakers, transcripts }: SessionExport): string {
+  const data: DebateExport = {
+    app: 'debatelens',
+    version: JSON_EXPORT_VERSION,
+    transcriptSchemaVersion: TRANSCRIPT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    session,
+    speakers,
+    transcripts,
+    analytics: analyzeDebate(transcripts, speakers),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export const CSV_COLUMNS = [
+  'id', 'start', 'end', 'speaker_id', 'speaker', 'language', 'text', 'translation',
+  'verdict', 'confidence', 'downgraded_from', 'explanation', 'claims', 'sources',
+  'model_verdict', 'model_explanation', 'reviewed_by', 'reviewed_at', 'review_notes',
+] as const;
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per transcript, with times as ISO 8601 and claims flattened into one cell. */
+export function buildCsv({ speakers, transcripts }: Pick<SessionExport, 'speakers' | 'transcripts'>): string {
+  const rows = transcripts.map(t => {
+    const { start, end } = transcriptSpan(t);
+    const reviewed = isHumanVerdict(t.factCheck);
+    const check = t.factCheck?.verdict === 'NOT_A_CLAIM' && !reviewed ? undefined : t.factCheck;
+    const model = check?.modelVerdict ?? check;
+    const review = reviewed ? latestReview(check) : undefined;
+    return [
+      t.id,
+      new Date(start).toISOString(),
+      new Date(end).toISOString(),
+      t.speaker,
+      speakerName(speakers, t.speaker),
+      t.language,
+      t.text,
+      t.translation,
+      check?.verdict,
+      check?.confidence,
+      check?.downgradedFrom,
+      check?.explanation,
+      (check?.claims ?? []).map(c => `${c.verdict}: ${c.claim?.text ?? ''}`).join(' | ') || undefined,
+      [...new Set((check?.claims?.length ? check.claims : [check]).flatMap(c => c?.sources ?? []).map(src => src.title))].join(' | ') || undefined,
+      model?.verdict,
+      model?.explanation,
+      review?.editor,
+      review && new Date(review.at).toISOString(),
+      (check?.reviews ?? []).filter(r => r.note).map(r => `${r.editor}: ${r.note}`).join(' | ') || undefined,
+    ].map(csvCell).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export interface SubtitleCue {
+  /** Milliseconds from the start of the subtitle track. */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Shortest time a caption stays up, so typed or one-word transcripts stay readable. */
+const MIN_CUE_MS = 1500;
+
+function verdictCaption(check: FactCheck | undefined): string | null {
+  if (!check || (check.verdict === 'NOT_A_CLAIM' && !check.modelVerdict)) return null;
+  const label = (c: Pick<FactCheck, 'verdict' | 'confidence'>) =>
+    `${c.verdict === 'NOT_A_CLAIM' ? 'NOT A CLAIM' : c.verdict.toUpperCase()}${c.confidence === undefined ? '' : ` (${Math.round(c.confidence * 100)}%)`}`;
+  return check.modelVerdict
+    ? `[${label(check)}, human reviewed · model: ${label(check.modelVerdict)}]`
+    : `[${label(check)}]`;
+}
+
+/**
+ * Caption cues timed from the first transcript, with the speaker's line and
+ * its verdict. Pass `origin` (epoch ms) to line them up with a recording
+ * that started earlier, such as the session's imported recording;
+ * transcripts from before the recording are then left out.
+ */
+export function buildSubtitleCues(transcripts: Transcript[], speakers: Speaker[] = DEFAULT_ROSTER, origin?: number): SubtitleCue[] {
+  const timed = transcripts.map(t => ({ t, span: transcriptSpan(t) }));
+  const captioned = origin === undefined ? timed : timed.filter(({ span }) => span.start >= origin);
+  const zero = origin ?? Math.min(...captioned.map(({ span }) => span.start));
+  return captioned.map(({ t, span }) => {
+    const start = span.start - zero;
+    const end = Math.max(span.end - zero, start + MIN_CUE_MS);
+    const verdict = verdictCaption(t.factCheck);
+    const line = `${speakerName(speakers, t.speaker)}: ${t.translation ?? t.text}`;
+    return { start, end, text: verdict ? `${line}\n${verdict}` : line };
+  });
+}
+
+function formatCueTime(time: number, separator: ',' | '.'): string {
+  const ms = Math.round(time);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function buildSubtitles(cues: SubtitleCue[], format: 'srt' | 'vtt'): string {
+  const separator = format === 'srt' ? ',' : '.';
+  const blocks = cues.map((cue, i) => {
+    const timing = `${formatCueTime(cue.start, separator)} --> ${formatCueTime(cue.end, separator)}`;
+    // A blank line would end the cue early
+    const text = cue.text.replace(/\n{2,}/g, '\n');
+    return format === 'srt' ? `${i + 1}\n${timing}\n${text}` : `${timing}\n${text}`;
+  });
+  return format === 'srt' ? `${blocks.join('\n\n')}\n` : `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+function buildExport(format: ExportFormat, data: SessionExport): string {
+  switch (format) {
+    case 'markdown': return buildMarkdown(data.transcripts, data.speakers);
+    case 'json': return buildJson(data);
+    case 'csv': return buildCsv(data);
+    case 'srt':
+    case 'vtt': return buildSubtitles(buildSubtitleCues(data.transcripts, data.speakers, data.session.recordingOrigin), format);
+  }
+}
+
+export function exportSession(format: ExportFormat, data: SessionExport) {
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const blob = new Blob([buildExport(format, data)], { type: mimeType });
   const url = URL.createObjectURL(blob);
+  const slug = data.session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'transcript';
   const a = document.createElement('a');
   a.href = url;
-  a.download = `debatelens-transcript-${new Date().toISOString().slice(0, 10)}.md`;
+  a.download = `debatelens-${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
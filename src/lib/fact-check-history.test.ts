@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { describeRun, isCurrentRun, MAX_FACT_CHECK_HISTORY, recordRun } from './fact-check-history';
+import { applyReview, withModelResult } from './reviews';
+import type { FactCheck } from '@/types/worker-messages';
+
+const run = (checkedAt: number, verdict: FactCheck['verdict'] = 'True'): FactCheck => ({
+  verdict,
+  explanation: `Checked at ${checkedAt}.`,
+  model: 'phi-3-mini',
+  promptVersion: 1,
+  checkedAt,
+});
+
+describe('fact-check history', () => {
+  it('keeps the newest runs, oldest first', () => {
+    let history: FactCheck[] | undefined;
+    for (let i = 1; i <= MAX_FACT_CHECK_HISTORY + 2; i++) history = recordRun(history, run(i));
+
+    expect(history).toHaveLength(MAX_FACT_CHECK_HISTORY);
+    expect(history![0].checkedAt).toBe(3);
+    expect(history![MAX_FACT_CHECK_HISTORY - 1].checkedAt).toBe(MAX_FACT_CHECK_HISTORY + 2);
+  });
+
+  it('tracks the run in effect under an editor verdict', () => {
+    const first = run(1);
+    const second = run(2, 'False');
+    const reviewed = applyReview(withModelResult(first, second), { editor: 'Sam', verdict: 'True', explanation: 'Sourced.' }, 3);
+
+    expect(isCurrentRun(reviewed, second)).toBe(true);
+    expect(isCurrentRun(reviewed, first)).toBe(false);
+    expect(isCurrentRun(withModelResult(reviewed, first), first)).toBe(true);
+    expect(isCurrentRun(undefined, first)).toBe(false);
+  });
+
+  it('describes the model and prompt behind a run', () => {
+    const label = (id: string) => id === 'phi-3-mini' ? 'Phi-3 Mini' : id;
+    expect(describeRun(run(1), label)).toBe('Phi-3 Mini · prompt v1');
+    expect(describeRun({ ...run(1), template: { id: 'custom-1', name: 'Health (custom)', version: 3 } }, label)).toBe('Phi-3 Mini · Health (custom) v3 · prompt v1');
+    expect(describeRun({ verdict: 'True', explanation: '' }, label)).toBe('Unknown model');
+  });
+});
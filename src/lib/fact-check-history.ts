@@ -0,0 +1,26 @@
+import type { FactCheck } from '@/types/worker-messages';
+
+/** Completed fact-checks kept per transcript; the oldest are dropped first. */
+export const MAX_FACT_CHECK_HISTORY = 10;
+
+/** Adds a model result to a transcript's history, oldest first. */
+export function recordRun(history: FactCheck[] | undefined, result: FactCheck): FactCheck[] {
+  return [...(history ?? []), result].slice(-MAX_FACT_CHECK_HISTORY);
+}
+
+/**
+ * Whether `run` is the model result in effect, including one set aside
+ * under an editor's verdict.
+ */
+export function isCurrentRun(check: FactCheck | undefined, run: FactCheck): boolean {
+  const result = check?.modelVerdict ?? check;
+  return run.checkedAt !== undefined && result?.checkedAt === run.checkedAt;
+}
+
+/** How a run was produced, e.g. "Phi-3 Mini · Politics v3 · prompt v2". */
+export function describeRun(run: FactCheck, modelLabel: (id: string) => string): string {
+  const parts = [run.model ? modelLabel(run.model) : 'Unknown model'];
+  if (run.template) parts.push(`${run.template.name} v${run.template.version}`);
+  if (run.promptVersion !== undefined) parts.push(`prompt v${run.promptVersion}`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkText,
+  csvToText,
+  citeSources,
+  cosineSimilarity,
+  documentTypeFromName,
+  rankPassages,
+  KnowledgePassage,
+} from './knowledge-base';
+
+const passage = (id: string, embedding: number[]): KnowledgePassage => ({
+  id,
+  documentId: 'doc',
+  title: 'Doc',
+  index: 0,
+  text: `passage ${id}`,
+  embedding: new Float32Array(embedding),
+});
+
+describe('knowledge-base', () => {
+  describe('documentTypeFromName', () => {
+    it('maps file extensions to document types', () => {
+      expect(documentTypeFromName('stats.CSV')).toBe('csv');
+      expect(documentTypeFromName('notes.md')).toBe('markdown');
+      expect(documentTypeFromName('report.txt')).toBe('text');
+      expect(documentTypeFromName('README')).toBe('text');
+    });
+  });
+
+  describe('csvToText', () => {
+    it('turns rows into column: value sentences', () => {
+      const csv = 'country,capital\nFrance,Paris\n"Korea, South",Seoul\n';
+      expect(csvToText(csv)).toBe('country: France; capital: Paris.\n\ncountry: Korea, South; capital: Seoul.');
+    });
+
+    it('handles escaped quotes and empty input', () => {
+      expect(csvToText('quote\n"He said ""no"""')).toBe('quote: He said "no".');
+      expect(csvToText('')).toBe('');
+    });
+  });
+
+  describe('chunkText', () => {
+    it('keeps short text as a single passage', () => {
+      expect(chunkText('One sentence. Two sentences.')).toEqual(['One sentence. Two sentences.']);
+    });
+
+    it('splits on sentence boundaries with overlap', () => {
+      const text = Array.from({ length: 6 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+      const chunks = chunkText(text, 60, 30);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(c => expect(c.length).toBeLessThanOrEqual(60));
+      expect(chunks[0]).toMatch(/^Sentence number 0/);
+      // Each chunk after the first starts with the tail of the previous one
+      expect(chunks[0]).toContain(chunks[1].split(' ').slice(0, 2).join(' '));
+    });
+
+    it('hard-splits sentences longer than a passage', () => {
+      const chunks = chunkText('x'.repeat(250), 100, 20);
+      expect(chunks.every(c => c.length <= 100)).toBe(true);
+      expect(chunks.join('').length).toBeGreaterThanOrEqual(250);
+    });
+
+    it('returns nothing for blank text', () => {
+      expect(chunkText('  \n\n ')).toEqual([]);
+    });
+  });
+
+  describe('rankPassages', () => {
+    it('returns the most similar passages above the score floor', () => {
+      const passages = [
+        passage('a', [1, 0]),
+        passage('b', [0, 1]),
+        passage('c', [0.8, 0.6]),
+      ];
+      const ranked = rankPassages([1, 0], passages, 3, 0.3);
+
+      expect(ranked.map(r => r.passage.id)).toEqual(['a', 'c']);
+      expect(ranked[0].score).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+    });
+
+    it('limits results to k', () => {
+      const passages = [passage('a', [1, 0]), passage('c', [0.8, 0.6])];
+      expect(rankPassages([1, 0], passages, 1)).toHaveLength(1);
+    });
+  });
+
+  describe('citeSources', () => {
+    it('maps [n] citations to the retrieved passages', () => {
+      const ranked = [
+        { passage: passage('a', [1]), score: 0.9 },
+        { passage: passage('b', [1]), score: 0.8 },
+      ];
+      const sources = citeSources('Per [2] and again [2], not [7].', ranked);
+
+      expect(sources).toEqual([{ ref: 2, documentId: 'doc', title: 'Doc', text: 'passage b', score: 0.8 }]);
+      expect(citeSources('No citations.', ranked)).toEqual([]);
+    });
+  });
+});
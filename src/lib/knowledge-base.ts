@@ -0,0 +1,209 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+import type { KnowledgeSource } from '@/types/worker-messages';
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  type: 'text' | 'markdown' | 'csv';
+  createdAt: number;
+  passageCount: number;
+}
+
+export interface KnowledgePassage {
+  id: string;
+  documentId: string;
+  title: string;
+  index: number;
+  text: string;
+  embedding: Float32Array;
+}
+
+export interface RankedPassage {
+  passage: KnowledgePassage;
+  score: number;
+}
+
+const DB_NAME = 'debatelens_kb';
+const DB_VERSION = 1;
+
+export const PASSAGE_CHARS = 600;
+export const PASSAGE_OVERLAP = 100;
+export const TOP_K_PASSAGES = 3;
+/** Passages below this cosine similarity are treated as irrelevant. */
+export const MIN_PASSAGE_SCORE = 0.3;
+
+export function documentTypeFromName(name: string): KnowledgeDocument['type'] {
+  const ext = name.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  return 'text';
+}
+
+/** Splits one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+}
+
+/**
+ * Turns CSV rows into "column: value" sentences so each row embeds as
+ * readable text instead of a bare list of numbers.
+ */
+export function csvToText(csv: string): string {
+  const lines = csv.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return '';
+  const headers = splitCsvLine(lines[0]);
+
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    return headers.map((h, i) => `${h}: ${cells[i] ?? ''}`).join('; ') + '.';
+  }).join('\n\n');
+}
+
+/**
+ * Splits text into overlapping passages, preferring paragraph and sentence
+ * boundaries so retrieved passages read as complete thoughts.
+ */
+export function chunkText(text: string, size = PASSAGE_CHARS, overlap = PASSAGE_OVERLAP): string[] {
+  const sentences = text
+    .replace(/\r/g, '')
+    .split(/\n{2,}|(?<=[.!?])\s+/)
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > size) {
+      chunks.push(current);
+      current = current.slice(Math.max(0, current.length - overlap)).replace(/^\S*\s/, '');
+    }
+    // Hard-split sentences that are longer than a passage on their own
+    let rest = current ? `${current} ${sentence}` : sentence;
+    while (rest.length > size) {
+      chunks.push(rest.slice(0, size));
+      rest = rest.slice(size - overlap);
+    }
+    current = rest;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function rankPassages(
+  query: ArrayLike<number>,
+  passages: KnowledgePassage[],
+  k = TOP_K_PASSAGES,
+  minScore = MIN_PASSAGE_SCORE
+): RankedPassage[] {
+  return passages
+    .map(passage => ({ passage, score: cosineSimilarity(query, passage.embedding) }))
+    .filter(r => r.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * Maps the `[n]` citations in an explanation back to the retrieved passages.
+ */
+export function citeSources(explanation: string, ranked: RankedPassage[]): KnowledgeSource[] {
+  const cited = new Set<number>();
+  for (const match of explanation.matchAll(/\[(\d+)\]/g)) {
+    const n = Number(match[1]);
+    if (n >= 1 && n <= ranked.length) cited.add(n);
+  }
+
+  return [...cited].sort((a, b) => a - b).map(n => {
+    const { passage, score } = ranked[n - 1];
+    return { ref: n, documentId: passage.documentId, title: passage.title, text: passage.text, score };
+  });
+}
+
+function openKnowledgeBase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (oldVersion < 1) {
+      db.createObjectStore('documents', { keyPath: 'id' });
+      const passages = db.createObjectStore('passages', { keyPath: 'id' });
+      passages.createIndex('documentId', 'documentId');
+    }
+  });
+}
+
+/**
+ * IndexedDB-backed document store. Reads resolve to empty results where
+ * IndexedDB is unavailable (SSR, tests).
+ */
+export const knowledgeBase = {
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    if (!isIndexedDBAvailable()) return [];
+    const db = await openKnowledgeBase();
+    try {
+      const docs = await requestToPromise(db.transaction('documents').objectStore('documents').getAll());
+      return (docs as KnowledgeDocument[]).sort((a, b) => a.createdAt - b.createdAt);
+    } finally {
+      db.close();
+    }
+  },
+
+  async getAllPassages(): Promise<KnowledgePassage[]> {
+    if (!isIndexedDBAvailable()) return [];
+    const db = await openKnowledgeBase();
+    try {
+      return await requestToPromise(db.transaction('passages').objectStore('passages').getAll()) as KnowledgePassage[];
+    } finally {
+      db.close();
+    }
+  },
+
+  async addDocument(doc: KnowledgeDocument, passages: KnowledgePassage[]): Promise<void> {
+    const db = await openKnowledgeBase();
+    try {
+      const tx = db.transaction(['documents', 'passages'], 'readwrite');
+      tx.objectStore('documents').put(doc);
+      const store = tx.objectStore('passages');
+      passages.forEach(p => store.put(p));
+      await transactionDone(tx);
+    } finally {
+      db.close();
+    }
+  },
+
+  async deleteDocument(id: string): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    const db = await openKnowledgeBase();
+    try {
+      const tx = db.transaction(['documents', 'passages'], 'readwrite');
+      tx.objectStore('documents').delete(id);
+      const index = tx.objectStore('passages').index('documentId');
+      const keys = await requestToPromise(index.getAllKeys(id));
+      keys.forEach(key => tx.objectStore('passages').delete(key));
+      await transactionDone(tx);
+    } finally {
+      db.close();
+    }
+  },
+};
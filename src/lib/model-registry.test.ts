@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MODELS, listModels, resolveModel } from './model-registry';
+
+describe('model-registry', () => {
+  it('resolves a known entry for the active backend', () => {
+    expect(resolveModel('whisper-base-en', 'stt', 'webgpu').model).toBe('onnx-community/whisper-base.en');
+  });
+
+  it('falls back to the backend default for unknown or mismatched entries', () => {
+    expect(resolveModel(undefined, 'llm', 'webgpu').id).toBe(DEFAULT_MODELS.webgpu.llm);
+    expect(resolveModel('does-not-exist', 'stt', 'webgpu').id).toBe(DEFAULT_MODELS.webgpu.stt);
+    expect(resolveModel('phi-3-mini', 'stt', 'webgpu').id).toBe(DEFAULT_MODELS.webgpu.stt);
+  });
+
+  it('never resolves GPU-only entries on the WASM backend', () => {
+    expect(resolveModel('phi-3-mini', 'llm', 'wasm').id).toBe('smollm2-360m');
+    expect(listModels('llm', 'wasm').every(m => m.device === 'wasm')).toBe(true);
+  });
+
+  it('offers multilingual speech models on both backends', () => {
+    expect(listModels('stt', 'webgpu').some(m => m.multilingual)).toBe(true);
+    expect(listModels('stt', 'wasm').some(m => m.multilingual)).toBe(true);
+    expect(resolveModel('whisper-tiny-en', 'stt', 'webgpu').multilingual).toBeFalsy();
+  });
+});
@@ -0,0 +1,70 @@
+import { MODELS } from './constants';
+import type { InferenceBackend, ModelKind, ModelSelection } from '@/types/worker-messages';
+
+/** `speaker-embedding` is not a transformers.js pipeline; the worker loads it as an x-vector model. */
+export type ModelTask = 'automatic-speech-recognition' | 'text-generation' | 'feature-extraction' | 'speaker-embedding';
+
+export type PromptFormat = 'phi3' | 'chatml';
+
+export interface ModelEntry {
+  /** Stable registry key, persisted in settings and sent to the worker. */
+  id: string;
+  label: string;
+  /** Hugging Face model id passed to transformers.js. */
+  model: string;
+  task: ModelTask;
+  device: InferenceBackend;
+  dtype: string;
+  /** Chat markup used to build prompts (LLM entries only). */
+  promptFormat?: PromptFormat;
+  /** Speech models that detect the spoken language and can translate to English. */
+  multilingual?: boolean;
+}
+
+export const MODEL_REGISTRY: ModelEntry[] = [
+  { id: 'whisper-tiny-en', label: 'Whisper-Tiny', model: MODELS.STT, task: 'automatic-speech-recognition', device: 'webgpu', dtype: 'fp32' },
+  { id: 'whisper-base-en', label: 'Whisper-Base', model: 'onnx-community/whisper-base.en', task: 'automatic-speech-recognition', device: 'webgpu', dtype: 'fp32' },
+  { id: 'whisper-tiny-en-cpu', label: 'Whisper-Tiny (CPU)', model: MODELS.STT, task: 'automatic-speech-recognition', device: 'wasm', dtype: 'q8' },
+  { id: 'whisper-base-en-cpu', label: 'Whisper-Base (CPU)', model: 'onnx-community/whisper-base.en', task: 'automatic-speech-recognition', device: 'wasm', dtype: 'q8' },
+  { id: 'whisper-tiny', label: 'Whisper-Tiny Multilingual', model: 'onnx-community/whisper-tiny', task: 'automatic-speech-recognition', device: 'webgpu', dtype: 'fp32', multilingual: true },
+  { id: 'whisper-base', label: 'Whisper-Base Multilingual', model: 'onnx-community/whisper-base', task: 'automatic-speech-recognition', device: 'webgpu', dtype: 'fp32', multilingual: true },
+  { id: 'whisper-tiny-cpu', label: 'Whisper-Tiny Multilingual (CPU)', model: 'onnx-community/whisper-tiny', task: 'automatic-speech-recognition', device: 'wasm', dtype: 'q8', multilingual: true },
+  { id: 'whisper-base-cpu', label: 'Whisper-Base Multilingual (CPU)', model: 'onnx-community/whisper-base', task: 'automatic-speech-recognition', device: 'wasm', dtype: 'q8', multilingual: true },
+  { id: 'phi-3-mini', label: 'Phi-3 Mini', model: MODELS.LLM, task: 'text-generation', device: 'webgpu', dtype: 'q4', promptFormat: 'phi3' },
+  { id: 'qwen2.5-0.5b', label: 'Qwen2.5 0.5B', model: 'onnx-community/Qwen2.5-0.5B-Instruct', task: 'text-generation', device: 'webgpu', dtype: 'q4f16', promptFormat: 'chatml' },
+  { id: 'smollm2-360m', label: 'SmolLM2 360M', model: MODELS.LLM_LITE, task: 'text-generation', device: 'wasm', dtype: 'q4', promptFormat: 'chatml' },
+  // Small enough to run on the CPU everywhere, which keeps the GPU free for the LLM
+  { id: 'minilm-l6', label: 'MiniLM-L6 Embeddings', model: MODELS.EMBEDDING, task: 'feature-extraction', device: 'wasm', dtype: 'q8' },
+  { id: 'wavlm-base-plus-sv', label: 'WavLM Base+ Speaker Embeddings', model: MODELS.SPEAKER, task: 'speaker-embedding', device: 'wasm', dtype: 'q8' },
+];
+
+export const DEFAULT_MODELS: Record<InferenceBackend, ModelSelection & { embedding: string; speaker: string }> = {
+  webgpu: { stt: 'whisper-tiny-en', llm: 'phi-3-mini', embedding: 'minilm-l6', speaker: 'wavlm-base-plus-sv' },
+  wasm: { stt: 'whisper-tiny-en-cpu', llm: 'smollm2-360m', embedding: 'minilm-l6', speaker: 'wavlm-base-plus-sv' },
+};
+
+const TASKS: Record<ModelKind, ModelTask> = {
+  stt: 'automatic-speech-recognition',
+  llm: 'text-generation',
+  embedding: 'feature-extraction',
+  speaker: 'speaker-embedding',
+};
+
+export function getModel(id: string): ModelEntry | undefined {
+  return MODEL_REGISTRY.find(m => m.id === id);
+}
+
+export function listModels(kind: ModelKind, backend: InferenceBackend): ModelEntry[] {
+  return MODEL_REGISTRY.filter(m => m.task === TASKS[kind] && (backend === 'webgpu' || m.device === 'wasm'));
+}
+
+/**
+ * Resolves a registry key to a runnable entry. Unknown keys, entries of the
+ * wrong task and GPU-only entries on the WASM backend fall back to the
+ * backend's default.
+ */
+export function resolveModel(id: string | undefined, kind: ModelKind, backend: InferenceBackend): ModelEntry {
+  const entry = id ? getModel(id) : undefined;
+  if (entry && listModels(kind, backend).includes(entry)) return entry;
+  return getModel(DEFAULT_MODELS[backend][kind])!;
+}
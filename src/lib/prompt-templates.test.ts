@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChatPrompt,
+  buildClaimExtractionPrompt,
+  buildFactCheckPrompt,
+  copyTemplate,
+  findTemplate,
+  PROMPT_PRESETS,
+  renderSystemPrompt,
+  reviseTemplate,
+  validateTemplate,
+} from './prompt-templates';
+
+const general = PROMPT_PRESETS[0];
+
+describe('prompt templates', () => {
+  it('renders the general preset as the original fact-check prompt', () => {
+    expect(renderSystemPrompt(general)).toBe(`You are a real-time fact-checker. Decide whether the input contains a verifiable factual claim and judge it.
+
+Respond with ONLY a JSON object, no other text, in exactly this shape:
+{"verdict": "True" | "False" | "Unverified" | "NOT_A_CLAIM", "explanation": "<one sentence>", "confidence": <number from 0 to 1>, "claim": "<the claim, copied word for word from the input>"}
+
+STRICT RULES:
+1. Use "NOT_A_CLAIM" for greetings, opinions, filler, commands and questions, with an empty explanation and claim.
+2. Explanation must be one concise sentence.
+3. Don't hallucinate; if unsure, use "Unverified".
+
+Examples:
+- "The capital of France is Paris." -> {"verdict": "True", "explanation": "Paris is the capital and largest city of France.", "confidence": 0.98, "claim": "The capital of France is Paris"}
+- "What time is it?" -> {"verdict": "NOT_A_CLAIM", "explanation": "", "confidence": 1, "claim": ""}
+- "The Earth is flat." -> {"verdict": "False", "explanation": "The Earth is an oblate spheroid.", "confidence": 0.97, "claim": "The Earth is flat"}`);
+  });
+
+  it('ships valid presets and falls back to the general one', () => {
+    expect(PROMPT_PRESETS.map(t => t.id)).toEqual(['general', 'politics', 'health', 'economics']);
+    PROMPT_PRESETS.forEach(t => expect(validateTemplate(t)).toEqual([]));
+    expect(findTemplate(PROMPT_PRESETS, 'deleted')).toBe(general);
+  });
+
+  it('reports templates that would not produce readable verdicts', () => {
+    expect(validateTemplate({
+      ...general,
+      name: ' ',
+      outputFormat: 'Answer in one word.',
+      examples: [{ input: '', verdict: 'False', explanation: '', confidence: 2, claim: '' }],
+    })).toEqual([
+      'Give the template a name.',
+      'The output format must ask for "verdict" and "explanation" fields.',
+      'Example 1 has no input.',
+      'Example 1 needs an explanation.',
+      'Example 1 needs a confidence from 0 to 1.',
+    ]);
+  });
+
+  it('copies presets and bumps the version only when the prompt changes', () => {
+    const copy = copyTemplate({ ...general, rules: ['Be brief.'] }, 'custom-1');
+    expect(copy).toMatchObject({ id: 'custom-1', name: 'General (custom)', version: 1, builtIn: undefined });
+
+    expect(reviseTemplate(copy, { ...copy, name: 'Brief' }).version).toBe(1);
+    expect(reviseTemplate(copy, { ...copy, rules: ['Be briefer.'] }).version).toBe(2);
+    expect(reviseTemplate(copy, { ...copy, rules: ['Be brief.', ' '] }).version).toBe(1);
+  });
+
+  it('wraps prompts in the chat markup of each model family', () => {
+    expect(buildChatPrompt('phi3', 'S', 'U', '{')).toBe('<|system|>\nS<|end|>\n<|user|>\nU<|end|>\n<|assistant|>{');
+    expect(buildChatPrompt('chatml', 'S', 'U')).toBe('<|im_start|>system\nS<|im_end|>\n<|im_start|>user\nU<|im_end|>\n<|im_start|>assistant\n');
+
+    const prompt = buildFactCheckPrompt('Taxes rose.', 'chatml', { template: PROMPT_PRESETS[3], retry: true });
+    expect(prompt).toContain('fact-checker for economic debates');
+    expect(prompt).toContain('Check the claim: "Taxes rose."\nYour previous answer was not valid JSON.');
+    expect(prompt.endsWith('<|im_start|>assistant\n{"verdict": "')).toBe(true);
+  });
+
+  it('gives claim extraction the conversation so references back count as claims', () => {
+    const context = { speaker: 'Sam', turns: [{ speaker: 'Alex', text: 'Unemployment is at 3%.' }] };
+
+    const prompt = buildClaimExtractionPrompt('That number is wrong.', 'phi3', context);
+    expect(prompt).toContain('Alex: "Unemployment is at 3%."');
+    expect(prompt).toContain('The input was said by Sam');
+    expect(prompt).toContain('Extract the claims from: "That number is wrong."');
+    expect(buildClaimExtractionPrompt('That number is wrong.', 'phi3')).not.toContain('Conversation so far');
+  });
+});
@@ -0,0 +1,238 @@
+import type { PromptFormat } from './model-registry';
+import type { RankedPassage } from './knowledge-base';
+import { VERDICTS } from './verdict-parser';
+import type { ConversationContext, FewShotExample, PromptTemplate, TemplateRef } from '@/types/worker-messages';
+
+/**
+ * Recorded with every verdict alongside the template version; bump it
+ * whenever the prompt text built around the template below changes.
+ */
+export const PROMPT_VERSION = 2;
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+/** The JSON shape `parseVerdict` reads; `resolved` is asked for separately when there is context. */
+const OUTPUT_FORMAT = '{"verdict": "True" | "False" | "Unverified" | "NOT_A_CLAIM", "explanation": "<one sentence>", "confidence": <number from 0 to 1>, "claim": "<the claim, copied word for word from the input>"}';
+
+const BASE_RULES = [
+  'Use "NOT_A_CLAIM" for greetings, opinions, filler, commands and questions, with an empty explanation and claim.',
+  'Explanation must be one concise sentence.',
+  'Don\'t hallucinate; if unsure, use "Unverified".',
+];
+
+export const PROMPT_PRESETS: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General',
+    version: 1,
+    builtIn: true,
+    system: 'You are a real-time fact-checker. Decide whether the input contains a verifiable factual claim and judge it.',
+    rules: BASE_RULES,
+    outputFormat: OUTPUT_FORMAT,
+    examples: [
+      { input: 'The capital of France is Paris.', verdict: 'True', explanation: 'Paris is the capital and largest city of France.', confidence: 0.98, claim: 'The capital of France is Paris' },
+      { input: 'What time is it?', verdict: 'NOT_A_CLAIM', explanation: '', confidence: 1, claim: '' },
+      { input: 'The Earth is flat.', verdict: 'False', explanation: 'The Earth is an oblate spheroid.', confidence: 0.97, claim: 'The Earth is flat' },
+    ],
+  },
+  {
+    id: 'politics',
+    name: 'Politics',
+    version: 1,
+    builtIn: true,
+    system: 'You are a real-time fact-checker for political debates. Decide whether the input contains a verifiable factual claim about policy, legislation, voting records, elections or government statistics, and judge it.',
+    rules: [
+      ...BASE_RULES,
+      'Promises and predictions are NOT_A_CLAIM; judge only statements about the past or present.',
+      'A figure must match official sources for the period it describes; the right number for the wrong year is False.',
+    ],
+    outputFormat: OUTPUT_FORMAT,
+    examples: [
+      { input: 'The Senate has 100 members.', verdict: 'True', explanation: 'Each of the 50 states elects two senators.', confidence: 0.97, claim: 'The Senate has 100 members' },
+      { input: 'We will build a better future together.', verdict: 'NOT_A_CLAIM', explanation: '', confidence: 1, claim: '' },
+      { input: 'The Affordable Care Act was signed in 2012.', verdict: 'False', explanation: 'It was signed into law in March 2010.', confidence: 0.95, claim: 'The Affordable Care Act was signed in 2012' },
+    ],
+  },
+  {
+    id: 'health',
+    name: 'Health',
+    version: 1,
+    builtIn: true,
+    system: 'You are a real-time fact-checker for health debates. Decide whether the input contains a verifiable factual claim about medicine, public health, nutrition or disease, and judge it.',
+    rules: [
+      ...BASE_RULES,
+      'Judge against scientific consensus and major health agencies, not single studies.',
+      'Use "Unverified" for questions that are still being actively researched.',
+    ],
+    outputFormat: OUTPUT_FORMAT,
+    examples: [
+      { input: 'Antibiotics do not work against viruses.', verdict: 'True', explanation: 'Antibiotics target bacteria and have no effect on viral infections.', confidence: 0.97, claim: 'Antibiotics do not work against viruses' },
+      { input: 'How is everyone feeling tonight?', verdict: 'NOT_A_CLAIM', explanation: '', confidence: 1, claim: '' },
+      { input: 'Vaccines cause autism.', verdict: 'False', explanation: 'Large studies have found no link between vaccines and autism.', confidence: 0.96, claim: 'Vaccines cause autism' },
+    ],
+  },
+  {
+    id: 'economics',
+    name: 'Economics',
+    version: 1,
+    builtIn: true,
+    system: 'You are a real-time fact-checker for economic debates. Decide whether the input contains a verifiable factual claim about the economy, budgets, taxes, jobs, inflation or trade, and judge it.',
+    rules: [
+      ...BASE_RULES,
+      'Check that a figure has the right unit and period, such as nominal or real and monthly or annual.',
+      'Claims that one thing caused another are "Unverified" unless the link is well established.',
+    ],
+    outputFormat: OUTPUT_FORMAT,
+    examples: [
+      { input: 'The US federal fiscal year starts on October 1.', verdict: 'True', explanation: 'The federal fiscal year runs from October 1 to September 30.', confidence: 0.96, claim: 'The US federal fiscal year starts on October 1' },
+      { input: 'Taxes are simply too high.', verdict: 'NOT_A_CLAIM', explanation: '', confidence: 1, claim: '' },
+      { input: 'The euro is the currency of the United Kingdom.', verdict: 'False', explanation: 'The United Kingdom uses the pound sterling.', confidence: 0.98, claim: 'The euro is the currency of the United Kingdom' },
+    ],
+  },
+];
+
+/** The template with `id`, or the general preset if it no longer exists. */
+export function findTemplate(templates: PromptTemplate[], id: string): PromptTemplate {
+  return templates.find(t => t.id === id) ?? PROMPT_PRESETS[0];
+}
+
+export function templateRef({ id, name, version }: PromptTemplate): TemplateRef {
+  return { id, name, version };
+}
+
+function renderExample(example: FewShotExample): string {
+  const { input, verdict, explanation, confidence, claim } = example;
+  return `- ${JSON.stringify(input)} -> {"verdict": ${JSON.stringify(verdict)}, "explanation": ${JSON.stringify(explanation)}, "confidence": ${confidence}, "claim": ${JSON.stringify(claim)}}`;
+}
+
+/** The template as a system prompt: instructions, output format, numbered rules and examples. */
+export function renderSystemPrompt(template: PromptTemplate): string {
+  let prompt = `${template.system.trim()}
+
+Respond with ONLY a JSON object, no other text, in exactly this shape:
+${template.outputFormat.trim()}`;
+
+  const rules = template.rules.map(rule => rule.trim()).filter(Boolean);
+  if (rules.length > 0) {
+    prompt += `\n\nSTRICT RULES:\n${rules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}`;
+  }
+  if (template.examples.length > 0) {
+    prompt += `\n\nExamples:\n${template.examples.map(renderExample).join('\n')}`;
+  }
+  return prompt;
+}
+
+/** Problems that would stop a template from producing verdicts the app can read. */
+export function validateTemplate(template: PromptTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Give the template a name.');
+  if (!template.system.trim()) errors.push('The system prompt is empty.');
+  if (!/"verdict"/.test(template.outputFormat) || !/"explanation"/.test(template.outputFormat)) {
+    errors.push('The output format must ask for "verdict" and "explanation" fields.');
+  }
+  template.examples.forEach((example, i) => {
+    if (!example.input.trim()) errors.push(`Example ${i + 1} has no input.`);
+    if (!VERDICTS.includes(example.verdict)) errors.push(`Example ${i + 1} has an unknown verdict.`);
+    if (example.verdict !== 'NOT_A_CLAIM' && !example.explanation.trim()) errors.push(`Example ${i + 1} needs an explanation.`);
+    if (!(example.confidence >= 0 && example.confidence <= 1)) errors.push(`Example ${i + 1} needs a confidence from 0 to 1.`);
+  });
+  return errors;
+}
+
+/** Whether two templates would give the model different instructions. */
+function promptChanged(a: PromptTemplate, b: PromptTemplate): boolean {
+  return renderSystemPrompt(a) !== renderSystemPrompt(b);
+}
+
+/** `draft` saved over `saved`, one version up if the prompt itself changed. */
+export function reviseTemplate(saved: PromptTemplate, draft: PromptTemplate): PromptTemplate {
+  return { ...draft, id: saved.id, builtIn: undefined, version: promptChanged(saved, draft) ? saved.version + 1 : saved.version };
+}
+
+/** A new custom template from `draft`, named apart from the preset it started as. */
+export function copyTemplate(draft: PromptTemplate, id: string): PromptTemplate {
+  return { ...draft, id, name: draft.builtIn ? `${draft.name} (custom)` : draft.name, version: 1, builtIn: undefined };
+}
+
+/** Chat markup per prompt format: system, user and assistant turn openers and the turn terminator. */
+const CHAT_MARKUP: Record<PromptFormat, { system: string; user: string; assistant: string; end: string }> = {
+  phi3: { system: '<|system|>\n', user: '<|user|>\n', assistant: '<|assistant|>', end: '<|end|>\n' },
+  chatml: { system: '<|im_start|>system\n', user: '<|im_start|>user\n', assistant: '<|im_start|>assistant\n', end: '<|im_end|>\n' },
+};
+
+/**
+ * Wraps a system and user message in the chat markup the active LLM was trained on.
+ */
+export function buildChatPrompt(format: PromptFormat, system: string, user: string, prefill = ''): string {
+  const markup = CHAT_MARKUP[format];
+  return `${markup.system}${system}${markup.end}${markup.user}${user}${markup.end}${markup.assistant}${prefill}`;
+}
+
+/** Seeds the assistant turn on retry so the model can only continue a JSON object. */
+export const JSON_PREFILL = '{"verdict": "';
+
+export interface FactCheckPromptOptions {
+  template?: PromptTemplate;
+  /** Adds a correction and pre-fills the start of the JSON object. */
+  retry?: boolean;
+  passages?: RankedPassage[];
+  /** With conversation context the model also rewrites the claim to stand alone. */
+  context?: ConversationContext;
+}
+
+function renderConversation(context: ConversationContext): string {
+  const turns = context.turns.map(turn => `${turn.speaker}: "${turn.text}"`).join('\n');
+  return `Conversation so far, oldest first:
+${turns}`;
+}
+
+export function buildFactCheckPrompt(text: string, format: PromptFormat, options: FactCheckPromptOptions = {}): string {
+  const { template = PROMPT_PRESETS[0], retry = false, passages = [], context } = options;
+  let system = renderSystemPrompt(template);
+  if (context) {
+    system += `
+
+${renderConversation(context)}
+
+The input was said by ${context.speaker} and may refer back to the conversation ("he", "that number", "it"). Resolve those references from the conversation and judge the claim they complete. Add a "resolved" field to the JSON object with the claim rewritten as a self-contained sentence.`;
+  }
+  if (passages.length > 0) {
+    const references = passages.map(({ passage }, i) => `[${i + 1}] (${passage.title}) ${passage.text}`).join('\n');
+    system += `
+
+Reference passages from the user's documents:
+${references}
+
+Prefer these passages over your own memory. When you rely on a passage, cite it as [n] in the explanation.`;
+  }
+  system += `
+
+Input text to analyze:
+"${text}"`;
+  let user = `Check the claim: "${text}"`;
+  if (retry) user += '\nYour previous answer was not valid JSON. Reply with ONLY the JSON object.';
+
+  return buildChatPrompt(format, system, user, retry ? JSON_PREFILL : '');
+}
+
+const CLAIM_EXTRACTION_SYSTEM_PROMPT = `You split spoken text into atomic, check-worthy factual claims.
+
+Respond with ONLY a JSON array of strings, no other text. Copy each claim word for word from the input.
+Leave out greetings, opinions, filler, commands and questions. Return [] if there is no factual claim.
+
+Examples:
+- "Paris is the capital of France and it has 20 million people." -> ["Paris is the capital of France", "it has 20 million people"]
+- "What time is it?" -> []`;
+
+/** With conversation context, claims that lean on earlier turns ("that number is wrong") are kept. */
+export function buildClaimExtractionPrompt(text: string, format: PromptFormat, context?: ConversationContext): string {
+  let system = CLAIM_EXTRACTION_SYSTEM_PROMPT;
+  if (context) {
+    system += `
+
+${renderConversation(context)}
+
+The input was said by ${context.speaker} and may refer back to the conversation ("he", "that number", "it"). A statement that asserts or disputes a fact from an earlier turn is a claim; still copy it word for word from the input.`;
+  }
+  return buildChatPrompt(format, system, `Extract the claims from: "${text}"`);
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { applyReview, isHumanVerdict, revertReview, withModelResult } from './reviews';
+import type { FactCheck } from '@/types/worker-messages';
+
+const model: FactCheck = { verdict: 'True', explanation: 'Matches the budget.', confidence: 0.82 };
+
+describe('reviews', () => {
+  it('keeps the model verdict when an editor overrides it', () => {
+    const once = applyReview(model, { editor: 'Sam', verdict: 'False', explanation: 'The budget was revised.' }, 1_000);
+    const twice = applyReview(once, { editor: 'Alex', verdict: 'Unverified', explanation: 'Both figures are disputed.', note: 'Ask the desk.' }, 2_000);
+
+    expect(twice).toMatchObject({
+      verdict: 'Unverified',
+      explanation: 'Both figures are disputed.',
+      confidence: undefined,
+      modelVerdict: { verdict: 'True', explanation: 'Matches the budget.', confidence: 0.82 },
+    });
+    expect(twice.reviews).toEqual([
+      { editor: 'Sam', at: 1_000, action: 'override', verdict: 'False', explanation: 'The budget was revised.', note: undefined },
+      { editor: 'Alex', at: 2_000, action: 'override', verdict: 'Unverified', explanation: 'Both figures are disputed.', note: 'Ask the desk.' },
+    ]);
+  });
+
+  it('logs a note without overriding the verdict', () => {
+    const noted = applyReview(model, { editor: 'Sam', verdict: 'True', explanation: 'Matches the budget.', note: 'Confirmed with the source.' }, 1_000);
+
+    expect(isHumanVerdict(noted)).toBe(false);
+    expect(noted.confidence).toBe(0.82);
+    expect(noted.reviews?.[0]).toMatchObject({ action: 'note', note: 'Confirmed with the source.' });
+  });
+
+  it('gives transcripts without a check a human verdict', () => {
+    const reviewed = applyReview(undefined, { editor: 'Sam', verdict: 'False', explanation: 'Never happened.' }, 1_000);
+    expect(reviewed).toMatchObject({ verdict: 'False', modelVerdict: undefined, reviews: [expect.objectContaining({ action: 'override' })] });
+  });
+
+  it('reverts to the model verdict and keeps the history', () => {
+    const overridden = applyReview(model, { editor: 'Sam', verdict: 'False', explanation: 'Revised.' }, 1_000);
+    const reverted = revertReview(overridden, 'Alex', 2_000);
+
+    expect(reverted).toMatchObject({ verdict: 'True', explanation: 'Matches the budget.', confidence: 0.82 });
+    expect(isHumanVerdict(reverted)).toBe(false);
+    expect(reverted.reviews?.map(r => r.action)).toEqual(['override', 'revert']);
+  });
+
+  it('keeps an editor verdict in effect when the model checks again', () => {
+    const overridden = applyReview(model, { editor: 'Sam', verdict: 'False', explanation: 'Revised.' }, 1_000);
+    const rechecked = withModelResult(overridden, { verdict: 'Unverified', explanation: 'Not enough context.', confidence: 0.6 });
+
+    expect(rechecked).toMatchObject({
+      verdict: 'False',
+      explanation: 'Revised.',
+      modelVerdict: { verdict: 'Unverified', explanation: 'Not enough context.', confidence: 0.6 },
+    });
+    expect(rechecked.reviews).toHaveLength(1);
+    expect(withModelResult(undefined, model)).toEqual(model);
+  });
+});
@@ -0,0 +1,92 @@
+import type { FactCheck, ModelVerdict, Verdict, VerdictReview } from '@/types/worker-messages';
+
+export const DEFAULT_EDITOR_NAME = 'Editor';
+
+export interface ReviewChange {
+  editor: string;
+  verdict: Verdict;
+  explanation: string;
+  note?: string;
+}
+
+/** Whether an editor's verdict is shown in place of the model's. */
+export function isHumanVerdict(check: FactCheck | undefined): boolean {
+  return check?.modelVerdict !== undefined;
+}
+
+export function latestReview(check: FactCheck | undefined): VerdictReview | undefined {
+  return check?.reviews?.[check.reviews.length - 1];
+}
+
+function modelVerdictOf(check: FactCheck | undefined): ModelVerdict | undefined {
+  if (!check) return undefined;
+  if (check.modelVerdict) return check.modelVerdict;
+  const { verdict, explanation, confidence, downgradedFrom, model, promptVersion, template, checkedAt } = check;
+  return { verdict, explanation, confidence, downgradedFrom, model, promptVersion, template, checkedAt };
+}
+
+/** Model-only fields, cleared while an editor's verdict is shown. */
+const NO_MODEL_FIELDS = {
+  confidence: undefined,
+  downgradedFrom: undefined,
+  model: undefined,
+  promptVersion: undefined,
+  template: undefined,
+  checkedAt: undefined,
+};
+
+/**
+ * Records an editor's verdict, explanation and note. The model's result is
+ * set aside in `modelVerdict` the first time its verdict is overridden; a
+ * change that keeps the verdict and explanation is logged as a note.
+ */
+export function applyReview(check: FactCheck | undefined, change: ReviewChange, at: number): FactCheck {
+  const note = change.note?.trim() || undefined;
+  const overrides = check?.verdict !== change.verdict || check.explanation !== change.explanation;
+  const review: VerdictReview = {
+    editor: change.editor,
+    at,
+    action: overrides ? 'override' : 'note',
+    verdict: change.verdict,
+    explanation: change.explanation,
+    note,
+  };
+  const reviews = [...(check?.reviews ?? []), review];
+  if (!overrides) return { ...check!, reviews };
+
+  return {
+    ...check,
+    verdict: change.verdict,
+    explanation: change.explanation,
+    ...NO_MODEL_FIELDS,
+    modelVerdict: modelVerdictOf(check),
+    reviews,
+  };
+}
+
+/** Puts the model's verdict back in effect, keeping the review history. */
+export function revertReview(check: FactCheck, editor: string, at: number): FactCheck {
+  if (!check.modelVerdict) return check;
+  const { modelVerdict, ...rest } = check;
+  return {
+    ...rest,
+    ...modelVerdict,
+    reviews: [...(check.reviews ?? []), { editor, at, action: 'revert', verdict: modelVerdict.verdict, explanation: modelVerdict.explanation }],
+  };
+}
+
+/**
+ * Stores a new model result. An editor's verdict stays in effect, with the
+ * new result kept as the model verdict underneath it.
+ */
+export function withModelResult(current: FactCheck | undefined, result: FactCheck): FactCheck {
+  if (!current?.modelVerdict) return current?.reviews ? { ...result, reviews: current.reviews } : result;
+  return {
+    ...result,
+    verdict: current.verdict,
+    explanation: current.explanation,
+    ...NO_MODEL_FIELDS,
+    modelVerdict: modelVerdictOf(result),
+    reviews: current.reviews,
+  };
+}
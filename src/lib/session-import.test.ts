@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { mergeSpeakers, mergeTranscripts, parseSessionExport } from './session-import';
+import { buildJson } from './export-utils';
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { SessionSummary } from './sessions';
+import type { Speaker } from './speakers';
+
+const transcript = (overrides: Partial<Transcript> = {}): Transcript => ({
+  id: 't1',
+  text: 'Taxes went up.',
+  speaker: 'A',
+  isChecking: false,
+  timestamp: 1_000,
+  lastUpdated: 1_000,
+  ...overrides,
+});
+
+const session: SessionSummary = {
+  id: 's1', name: 'Town Hall', createdAt: 1_000, updatedAt: 2_000, archived: false,
+  durationMs: 1_000, transcriptCount: 1, claimCount: 1,
+};
+
+const exportOf = (transcripts: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ app: 'debatelens', version: 1, transcriptSchemaVersion: 2, session, speakers: [], transcripts, ...extra });
+
+describe('session-import', () => {
+  it('reads back a JSON export', () => {
+    const speakers: Speaker[] = [{ id: 'A', name: 'Moderator', color: 'amber' }];
+    const transcripts = [transcript({ factCheck: { verdict: 'True', explanation: 'Checks out.', confidence: 0.9 }, words: [{ text: 'Taxes', start: 1_000, end: 1_300 }] })];
+
+    expect(parseSessionExport(buildJson({ session, speakers, transcripts }))).toEqual({
+      name: 'Town Hall',
+      speakers,
+      transcripts,
+      rejected: [],
+    });
+  });
+
+  it('rejects files that are not readable exports', () => {
+    expect(() => parseSessionExport('{oops')).toThrow('not valid JSON');
+    expect(() => parseSessionExport(JSON.stringify([transcript()]))).toThrow('not a DebateLens JSON export');
+    expect(() => parseSessionExport(exportOf([], { version: 99 }))).toThrow('newer version');
+  });
+
+  it('reports invalid records and keeps the rest', () => {
+    const parsed = parseSessionExport(exportOf([
+      transcript(),
+      { ...transcript({ id: 't2' }), text: '' },
+      { ...transcript({ id: 't3' }), timestamp: 'yesterday' },
+      transcript({ id: 't4', factCheck: { verdict: 'Maybe', explanation: '' } as never }),
+      'not a transcript',
+      transcript({ id: 't6', factCheckHistory: [{ verdict: 'True' }] as never }),
+    ]));
+
+    expect(parsed.transcripts.map(t => t.id)).toEqual(['t1']);
+    expect(parsed.rejected).toEqual([
+      { index: 1, id: 't2', reason: 'missing text' },
+      { index: 2, id: 't3', reason: 'missing timestamp' },
+      { index: 3, id: 't4', reason: 'invalid fact-check' },
+      { index: 4, id: undefined, reason: 'not an object' },
+      { index: 5, id: 't6', reason: 'invalid fact-check history' },
+    ]);
+  });
+
+  it('validates each review and the model verdict behind a human one', () => {
+    const review = { editor: 'Sam', at: 2_000, action: 'override', verdict: 'False', explanation: 'Revised.' };
+    const reviewed = (factCheck: Record<string, unknown>) => transcript({
+      factCheck: { verdict: 'False', explanation: 'Revised.', modelVerdict: { verdict: 'True', explanation: 'Matches.' }, reviews: [review], ...factCheck } as never,
+    });
+    const parsed = parseSessionExport(exportOf([
+      reviewed({}),
+      { ...reviewed({ reviews: [review, { ...review, action: 'delete-all' }] }), id: 't2' },
+      { ...reviewed({ reviews: [{ ...review, editor: { name: 'Sam' } }] }), id: 't3' },
+      { ...reviewed({ reviews: [{ ...review, note: 42 }] }), id: 't4' },
+      { ...reviewed({ reviews: ['<img onerror=alert(1)>'] }), id: 't5' },
+      { ...reviewed({ modelVerdict: { verdict: 'Maybe', explanation: 'Matches.' } }), id: 't6' },
+      { ...reviewed({ modelVerdict: { verdict: 'True', explanation: 'Matches.', template: 'general' } }), id: 't7' },
+    ]));
+
+    expect(parsed.transcripts.map(t => t.id)).toEqual(['t1']);
+    expect(parsed.rejected.map(r => [r.id, r.reason])).toEqual(
+      ['t2', 't3', 't4', 't5', 't6', 't7'].map(id => [id, 'invalid fact-check'])
+    );
+  });
+
+  it('migrates older transcripts and drops state that does not carry over', () => {
+    const [imported] = parseSessionExport(exportOf(
+      [{ id: 't1', text: 'Old save.', speaker: 'B', isChecking: true, timestamp: 5, hasAudio: true }],
+      { transcriptSchemaVersion: 0 },
+    )).transcripts;
+
+    expect(imported).toMatchObject({ lastUpdated: 5, isChecking: false });
+    expect(imported.hasAudio).toBeUndefined();
+  });
+
+  it('reuses speakers by name and renames clashing ids and colours', () => {
+    const roster: Speaker[] = [{ id: 'A', name: 'Moderator', color: 'blue' }, { id: 'B', name: 'Dana Ruiz', color: 'red' }];
+    const imported: Speaker[] = [{ id: 'A', name: 'Dana Ruiz', color: 'green' }, { id: 'B', name: 'Sam Lee', color: 'blue' }];
+
+    const { roster: merged, ids } = mergeSpeakers(roster, imported, [transcript({ speaker: 'C' })]);
+
+    expect(ids).toEqual(new Map([['A', 'B'], ['B', 'C'], ['C', 'D']]));
+    expect(merged.slice(2)).toEqual([
+      { id: 'C', name: 'Sam Lee', color: 'green' },
+      { id: 'D', name: 'Speaker C', color: 'amber' },
+    ]);
+  });
+
+  it('maps speakers that do not fit on a full roster to null', () => {
+    const full: Speaker[] = 'ABCDEFGHI'.split('').map((id, i) => ({ id, name: `Person ${i}`, color: 'blue' }));
+    expect(mergeSpeakers(full, [{ id: 'A', name: 'Newcomer', color: 'red' }], []).ids.get('A')).toBeNull();
+  });
+
+  it('skips records already in the session and renames taken ids', () => {
+    const existing = [transcript({ id: 'a', timestamp: 1_000 }), transcript({ id: 'b', text: 'Crime fell.', timestamp: 3_000 })];
+    const imported = [
+      transcript({ id: 'a', timestamp: 1_000 }),
+      transcript({ id: 'b', text: 'A different claim.', timestamp: 2_000 }),
+      transcript({ id: 'c', text: 'Also used elsewhere.', timestamp: 4_000 }),
+    ];
+
+    const merged = mergeTranscripts(existing, imported, new Set(['c']));
+
+    expect(merged.duplicates).toBe(1);
+    expect(merged.renamed).toBe(2);
+    expect(merged.transcripts.map(t => t.text)).toEqual(['Taxes went up.', 'A different claim.', 'Crime fell.', 'Also used elsewhere.']);
+    expect(new Set(merged.transcripts.map(t => t.id)).size).toBe(4);
+    expect(merged.transcripts.map(t => t.id)).not.toContain('c');
+  });
+});
@@ -0,0 +1,202 @@
+import type { FactCheck, Transcript } from '@/hooks/useDebateManager';
+import type { ModelVerdict, TemplateRef, Verdict, VerdictReview } from '@/types/worker-messages';
+import { JSON_EXPORT_VERSION } from './export-utils';
+import { createSpeaker, isSpeaker, MAX_SPEAKERS, Speaker } from './speakers';
+import { migrateTranscripts, TRANSCRIPT_SCHEMA_VERSION } from './storage';
+
+export interface RejectedRecord {
+  /** Position in the export's transcript list, for records rejected while parsing. */
+  index?: number;
+  id?: string;
+  reason: string;
+}
+
+export interface ParsedSessionExport {
+  name: string;
+  speakers: Speaker[];
+  transcripts: Transcript[];
+  rejected: RejectedRecord[];
+}
+
+export interface SessionImportReport {
+  sessionName: string;
+  imported: number;
+  /** Transcripts given a new id because theirs was already taken. */
+  renamed: number;
+  /** Transcripts already present in the target session. */
+  duplicates: number;
+  rejected: RejectedRecord[];
+}
+
+const VERDICTS: Verdict[] = ['True', 'False', 'Unverified', 'NOT_A_CLAIM'];
+const REVIEW_ACTIONS: VerdictReview['action'][] = ['override', 'note', 'revert'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function isTemplateRef(value: unknown): value is TemplateRef {
+  const template = value as TemplateRef;
+  return typeof template?.id === 'string' && typeof template.name === 'string' && isNumber(template.version);
+}
+
+function isReview(value: unknown): value is VerdictReview {
+  const review = value as VerdictReview;
+  return typeof review?.editor === 'string'
+    && isNumber(review.at)
+    && REVIEW_ACTIONS.includes(review.action)
+    && VERDICTS.includes(review.verdict)
+    && typeof review.explanation === 'string'
+    && (review.note === undefined || typeof review.note === 'string');
+}
+
+/** The fields a verdict shares with the model verdict kept behind a human one. */
+function isModelVerdict(value: unknown): value is ModelVerdict {
+  const check = value as ModelVerdict;
+  return VERDICTS.includes(check?.verdict)
+    && typeof check.explanation === 'string'
+    && (check.confidence === undefined || isNumber(check.confidence))
+    && (check.downgradedFrom === undefined || VERDICTS.includes(check.downgradedFrom))
+    && (check.model === undefined || typeof check.model === 'string')
+    && (check.promptVersion === undefined || isNumber(check.promptVersion))
+    && (check.template === undefined || isTemplateRef(check.template))
+    && (check.checkedAt === undefined || isNumber(check.checkedAt));
+}
+
+function isFactCheck(value: unknown): value is FactCheck {
+  const check = value as FactCheck;
+  return isModelVerdict(check)
+    && (check.resolvedClaim === undefined || typeof check.resolvedClaim === 'string')
+    && (check.claims === undefined || (Array.isArray(check.claims) && check.claims.every(isFactCheck)))
+    && (check.sources === undefined || Array.isArray(check.sources))
+    && (check.modelVerdict === undefined || isModelVerdict(check.modelVerdict))
+    && (check.reviews === undefined || (Array.isArray(check.reviews) && check.reviews.every(isReview)));
+}
+
+function isTimedWord(value: unknown): boolean {
+  const word = value as { text?: unknown; start?: unknown; end?: unknown };
+  return typeof word?.text === 'string' && isNumber(word.start) && isNumber(word.end);
+}
+
+/** Why a transcript record cannot be imported, or null if it can. */
+function rejectionReason(value: unknown): string | null {
+  const t = value as Record<string, unknown>;
+  if (typeof t !== 'object' || t === null) return 'not an object';
+  if (typeof t.id !== 'string' || !t.id) return 'missing id';
+  if (typeof t.text !== 'string' || !t.text.trim()) return 'missing text';
+  if (typeof t.speaker !== 'string' || !t.speaker) return 'missing speaker';
+  if (!isNumber(t.timestamp)) return 'missing timestamp';
+  if (t.lastUpdated !== undefined && !isNumber(t.lastUpdated)) return 'invalid lastUpdated';
+  if (t.words !== undefined && !(Array.isArray(t.words) && t.words.every(isTimedWord))) return 'invalid word timings';
+  if (t.factCheck !== undefined && !isFactCheck(t.factCheck)) return 'invalid fact-check';
+  if (t.factCheckHistory !== undefined && !(Array.isArray(t.factCheckHistory) && t.factCheckHistory.every(isFactCheck))) {
+    return 'invalid fact-check history';
+  }
+  return null;
+}
+
+/**
+ * Reads a JSON export, keeping the transcripts that validate. Throws when
+ * the file is not a DebateLens export this version can read.
+ */
+export function parseSessionExport(text: string): ParsedSessionExport {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data?.app !== 'debatelens' || !Array.isArray(data.transcripts)) {
+    throw new Error('The file is not a DebateLens JSON export.');
+  }
+  if (!isNumber(data.version) || data.version > JSON_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of DebateLens.');
+  }
+
+  const rejected: RejectedRecord[] = [];
+  const valid = data.transcripts.filter((t, index) => {
+    const reason = rejectionReason(t);
+    if (reason) rejected.push({ index, id: typeof t?.id === 'string' ? t.id : undefined, reason });
+    return !reason;
+  });
+  const schemaVersion = isNumber(data.transcriptSchemaVersion) ? data.transcriptSchemaVersion : TRANSCRIPT_SCHEMA_VERSION;
+  const session = data.session as { name?: unknown } | undefined;
+
+  return {
+    name: typeof session?.name === 'string' && session.name.trim() ? session.name : 'Imported Debate',
+    speakers: Array.isArray(data.speakers) ? data.speakers.filter(isSpeaker).slice(0, MAX_SPEAKERS) : [],
+    // Audio is not exported, and an exported in-progress check will never finish
+    transcripts: migrateTranscripts(valid, schemaVersion).map(t => ({ ...t, isChecking: false, hasAudio: undefined })),
+    rejected,
+  };
+}
+
+/**
+ * Adds an export's speakers (and any only named on its transcripts) to a
+ * roster. A speaker with the same name is reused; otherwise the imported
+ * one is added, under a new id or colour if its own is taken. Speakers that
+ * do not fit on a full roster map to null.
+ */
+export function mergeSpeakers(roster: Speaker[], imported: Speaker[], transcripts: Transcript[]): { roster: Speaker[]; ids: Map<string, string | null> } {
+  let merged = roster;
+  const ids = new Map<string, string | null>();
+
+  for (const id of new Set([...imported.map(s => s.id), ...transcripts.map(t => t.speaker)])) {
+    const speaker = imported.find(s => s.id === id) ?? { id, name: `Speaker ${id}`, color: 'blue' };
+    const sameName = merged.find(s => s.name === speaker.name);
+    const next = createSpeaker(merged);
+    if (sameName || !next || merged.length >= MAX_SPEAKERS) {
+      ids.set(id, sameName?.id ?? null);
+      continue;
+    }
+    const added: Speaker = {
+      id: merged.some(s => s.id === id) ? next.id : id,
+      name: speaker.name,
+      color: merged.some(s => s.color === speaker.color) ? next.color : speaker.color,
+    };
+    merged = [...merged, added];
+    ids.set(id, added.id);
+  }
+  return { roster: merged, ids };
+}
+
+function uniqueId(taken: Set<string>): string {
+  let id: string;
+  do {
+    id = Math.random().toString(36).substring(2, 10);
+  } while (taken.has(id));
+  return id;
+}
+
+/**
+ * Merges imported transcripts into a session's, in time order. Records
+ * already in the session are skipped; ids taken anywhere in `takenIds`
+ * (other sessions' audio is keyed by transcript id) are replaced.
+ */
+export function mergeTranscripts(
+  existing: Transcript[],
+  imported: Transcript[],
+  takenIds: Set<string>,
+): { transcripts: Transcript[]; renamed: number; duplicates: number } {
+  const taken = new Set([...takenIds, ...existing.map(t => t.id)]);
+  const byId = new Map(existing.map(t => [t.id, t]));
+  let renamed = 0;
+  let duplicates = 0;
+  const added: Transcript[] = [];
+
+  for (const t of imported) {
+    const current = byId.get(t.id);
+    if (current && current.text === t.text && current.timestamp === t.timestamp) {
+      duplicates++;
+      continue;
+    }
+    let id = t.id;
+    if (taken.has(id)) {
+      id = uniqueId(taken);
+      renamed++;
+    }
+    taken.add(id);
+    added.push({ ...t, id });
+  }
+
+  const transcripts = [...existing, ...added].sort((a, b) => a.timestamp - b.timestamp);
+  return { transcripts, renamed, duplicates };
+}
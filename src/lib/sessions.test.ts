@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { formatDuration, sessionStore, SessionSummary, summarizeTranscripts } from './sessions';
+import type { Transcript } from '@/hooks/useDebateManager';
+
+const transcript = (overrides: Partial<Transcript>): Transcript => ({
+  id: Math.random().toString(36).substring(2, 8),
+  text: 'Something was said.',
+  speaker: 'A',
+  isChecking: false,
+  timestamp: 1_000,
+  lastUpdated: 1_000,
+  ...overrides,
+});
+
+describe('sessions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('summarizes duration and fact-checked claims', () => {
+    const summary = summarizeTranscripts([
+      transcript({ timestamp: 1_000, lastUpdated: 2_000, factCheck: { verdict: 'True', explanation: '' } }),
+      transcript({ timestamp: 5_000, lastUpdated: 5_000, factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' } }),
+      transcript({
+        timestamp: 60_000,
+        lastUpdated: 61_000,
+        factCheck: {
+          verdict: 'False',
+          explanation: '',
+          claims: [
+            { verdict: 'True', explanation: '', claim: { text: 'One' } },
+            { verdict: 'False', explanation: '', claim: { text: 'Two' } },
+          ],
+        },
+      }),
+    ]);
+
+    expect(summary).toEqual({ durationMs: 60_000, transcriptCount: 3, claimCount: 3 });
+    expect(summarizeTranscripts([])).toEqual({ durationMs: 0, transcriptCount: 0, claimCount: 0 });
+  });
+
+  it('formats durations compactly', () => {
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(12 * 60_000)).toBe('12m');
+    expect(formatDuration(65 * 60_000)).toBe('1h 05m');
+  });
+
+  it('migrates the single saved feed into the first session', () => {
+    const saved = [transcript({ text: 'From before sessions.' })];
+    localStorage.setItem('debatelens_transcripts', JSON.stringify(saved));
+    localStorage.setItem('debatelens_speakers', JSON.stringify([{ id: 'A', name: 'Moderator', color: 'amber' }]));
+
+    const { session, data } = sessionStore.open();
+
+    expect(data.transcripts).toEqual(saved);
+    expect(data.speakers[0].name).toBe('Moderator');
+    expect(session.transcriptCount).toBe(1);
+    expect(localStorage.getItem('debatelens_transcripts')).toBeNull();
+    // Reopening finds the migrated session rather than migrating again
+    expect(sessionStore.open().session.id).toBe(session.id);
+    expect(sessionStore.list()).toHaveLength(1);
+  });
+
+  it('creates, saves, archives and removes sessions', () => {
+    const first = sessionStore.open().session;
+    const second = sessionStore.create('Town Hall');
+
+    sessionStore.save(second.id, { transcripts: [transcript({})], speakers: [] });
+    expect(sessionStore.load(second.id).transcripts).toHaveLength(1);
+    expect(sessionStore.list().find(s => s.id === second.id)?.transcriptCount).toBe(1);
+
+    sessionStore.update(second.id, { name: 'County Hall', archived: true });
+    expect(sessionStore.list().find(s => s.id === second.id)).toMatchObject({ name: 'County Hall', archived: true });
+
+    sessionStore.remove(second.id);
+    expect(sessionStore.list().map(s => s.id)).toEqual([first.id]);
+    expect(sessionStore.load(second.id)).toEqual({ transcripts: [], speakers: [] });
+  });
+
+  it('refreshes the summary at most every few seconds while saves stream in', async () => {
+    vi.useFakeTimers();
+    // Fresh module state, so no refresh from an earlier test is pending
+    vi.resetModules();
+    const { sessionStore } = await import('./sessions');
+    const session = sessionStore.create('Town Hall');
+    const stored = () => JSON.parse(localStorage.getItem('debatelens_sessions')!).find((s: SessionSummary) => s.id === session.id);
+    const save = (count: number) => sessionStore.save(session.id, {
+      transcripts: Array.from({ length: count }, () => transcript({})),
+      speakers: [],
+    });
+
+    save(1);
+    expect(stored().transcriptCount).toBe(1);
+    save(2);
+    save(3);
+    expect(stored().transcriptCount).toBe(1);
+    expect(sessionStore.load(session.id).transcripts).toHaveLength(3);
+
+    vi.advanceTimersByTime(5000);
+    expect(stored().transcriptCount).toBe(3);
+
+    // Listing sessions never shows a stale summary
+    save(4);
+    expect(sessionStore.list().find(s => s.id === session.id)?.transcriptCount).toBe(4);
+    vi.useRealTimers();
+  });
+
+  it('moves transcripts out of sessions saved as a single value', () => {
+    localStorage.setItem('debatelens_sessions', JSON.stringify([
+      { id: 'old', name: 'Old', createdAt: 1, updatedAt: 1, archived: false, durationMs: 0, transcriptCount: 1, claimCount: 0 },
+    ]));
+    localStorage.setItem('debatelens_session_old', JSON.stringify({ transcripts: [{ id: 't1', text: 'Saved whole.', speaker: 'A', timestamp: 1 }], speakers: [] }));
+
+    expect(sessionStore.open().data.transcripts).toEqual([expect.objectContaining({ id: 't1', lastUpdated: 1, isChecking: false })]);
+    expect(JSON.parse(localStorage.getItem('debatelens_session_old')!)).toEqual({ speakers: [] });
+    expect(sessionStore.load('old').transcripts).toHaveLength(1);
+  });
+
+  it('lists transcript ids without rewriting sessions saved as a single value', () => {
+    localStorage.setItem('debatelens_sessions', JSON.stringify([
+      { id: 'old', name: 'Old', createdAt: 1, updatedAt: 1, archived: false, durationMs: 0, transcriptCount: 1, claimCount: 0 },
+    ]));
+    const saved = JSON.stringify({ transcripts: [{ id: 't1', text: 'Saved whole.', speaker: 'A', timestamp: 1 }], speakers: [] });
+    localStorage.setItem('debatelens_session_old', saved);
+
+    expect(sessionStore.transcriptIds()).toEqual(new Set(['t1']));
+    expect(localStorage.getItem('debatelens_session_old')).toBe(saved);
+  });
+
+  it('reopens the last active session', () => {
+    sessionStore.open();
+    const second = sessionStore.create('Town Hall');
+    sessionStore.setActiveId(second.id);
+
+    expect(sessionStore.open().session.id).toBe(second.id);
+  });
+});
@@ -0,0 +1,212 @@
+import { migrateTranscripts, storage } from './storage';
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { Speaker } from './speakers';
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  archived: boolean;
+  /** First transcript to last update, in ms. */
+  durationMs: number;
+  transcriptCount: number;
+  /** Fact-checked claims, counting each claim of a multi-claim transcript. */
+  claimCount: number;
+  /** Wall-clock start (epoch ms) of the last recording imported into the session; subtitles are timed from it. */
+  recordingOrigin?: number;
+}
+
+export interface SessionData {
+  transcripts: Transcript[];
+  speakers: Speaker[];
+}
+
+const INDEX_KEY = 'debatelens_sessions';
+const ACTIVE_KEY = 'debatelens_active_session';
+const dataKey = (id: string) => `debatelens_session_${id}`;
+// Single-feed storage from before sessions existed
+const LEGACY_TRANSCRIPTS_KEY = 'debatelens_transcripts';
+const LEGACY_SPEAKERS_KEY = 'debatelens_speakers';
+/** Saves arrive with every streamed token; the index is rewritten at most this often. */
+const SUMMARY_INTERVAL_MS = 5000;
+
+export function summarizeTranscripts(transcripts: Transcript[]): Pick<SessionSummary, 'durationMs' | 'transcriptCount' | 'claimCount'> {
+  const claimCount = transcripts.reduce((n, t) => {
+    if (!t.factCheck || t.factCheck.verdict === 'NOT_A_CLAIM') return n;
+    return n + Math.max(t.factCheck.claims?.length ?? 0, 1);
+  }, 0);
+  const durationMs = transcripts.length > 0
+    ? Math.max(...transcripts.map(t => t.lastUpdated ?? t.timestamp)) - Math.min(...transcripts.map(t => t.timestamp))
+    : 0;
+  return { durationMs, transcriptCount: transcripts.length, claimCount };
+}
+
+export function defaultSessionName(at: number): string {
+  return `Debate ${new Date(at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+/** Compact elapsed time, e.g. "45s", "12m" or "1h 05m". */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+function isSessionSummary(value: unknown): value is SessionSummary {
+  const s = value as SessionSummary;
+  return typeof s?.id === 'string' && typeof s.name === 'string' && typeof s.createdAt === 'number';
+}
+
+function readIndex(): SessionSummary[] {
+  const saved = storage.get<unknown>(INDEX_KEY, []);
+  return Array.isArray(saved) ? saved.filter(isSessionSummary) : [];
+}
+
+function writeIndex(sessions: SessionSummary[]) {
+  storage.set(INDEX_KEY, sessions);
+}
+
+/** A session's transcripts, migrated in memory only, for queries that must not write. */
+function readTranscripts(id: string): Transcript[] {
+  const saved = storage.get<{ transcripts?: unknown } | null>(dataKey(id), null);
+  return Array.isArray(saved?.transcripts) ? migrateTranscripts(saved.transcripts, 0) : storage.getTranscripts(id);
+}
+
+function readData(id: string): SessionData {
+  const saved = storage.get<{ transcripts?: unknown; speakers?: unknown } | null>(dataKey(id), null);
+  const speakers = Array.isArray(saved?.speakers) ? saved.speakers : [];
+  // Sessions saved before transcripts were stored individually
+  if (Array.isArray(saved?.transcripts)) {
+    const data = { transcripts: migrateTranscripts(saved.transcripts, 0), speakers };
+    writeData(id, data);
+    return data;
+  }
+  return { transcripts: storage.getTranscripts(id), speakers };
+}
+
+function writeData(id: string, data: SessionData) {
+  storage.set(dataKey(id), { speakers: data.speakers });
+  storage.setTranscripts(id, data.transcripts);
+}
+
+let pendingSummary: { id: string; transcripts: Transcript[] } | null = null;
+let summaryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function writeSummary() {
+  if (!pendingSummary) return;
+  const { id, transcripts } = pendingSummary;
+  pendingSummary = null;
+  writeIndex(readIndex().map(s => s.id === id ? { ...s, updatedAt: Date.now(), ...summarizeTranscripts(transcripts) } : s));
+}
+
+/** Refreshes a session's summary now, then at most once per {@link SUMMARY_INTERVAL_MS} with the latest contents. */
+function scheduleSummary(id: string, transcripts: Transcript[]) {
+  // Another session's summary is written before it is replaced
+  if (pendingSummary?.id !== id) writeSummary();
+  pendingSummary = { id, transcripts };
+  if (summaryTimer) return;
+
+  writeSummary();
+  const tick = () => {
+    summaryTimer = null;
+    if (!pendingSummary) return;
+    writeSummary();
+    summaryTimer = setTimeout(tick, SUMMARY_INTERVAL_MS);
+  };
+  summaryTimer = setTimeout(tick, SUMMARY_INTERVAL_MS);
+}
+
+function newSession(name: string, data: SessionData): SessionSummary {
+  const now = Date.now();
+  const session: SessionSummary = {
+    id: Math.random().toString(36).substring(2, 10),
+    name,
+    createdAt: data.transcripts[0]?.timestamp ?? now,
+    updatedAt: now,
+    archived: false,
+    ...summarizeTranscripts(data.transcripts),
+  };
+  writeData(session.id, data);
+  return session;
+}
+
+/**
+ * Named debate sessions in `storage` (IndexedDB, or localStorage without
+ * it): a summary index for browsing, each session's speaker roster, and its
+ * transcripts stored individually.
+ */
+export const sessionStore = {
+  /** Newest first, including a summary refresh that was still waiting. */
+  list(): SessionSummary[] {
+    writeSummary();
+    return readIndex().sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  load(id: string): SessionData {
+    return readData(id);
+  },
+
+  /**
+   * Persists a session's contents. Its summary is refreshed straight away,
+   * then at most every few seconds while saves keep coming.
+   */
+  save(id: string, data: SessionData) {
+    writeData(id, data);
+    scheduleSummary(id, data.transcripts);
+  },
+
+  create(name: string, data: SessionData = { transcripts: [], speakers: [] }): SessionSummary {
+    const session = newSession(name, data);
+    writeIndex([...readIndex(), session]);
+    return session;
+  },
+
+  update(id: string, changes: Partial<Pick<SessionSummary, 'name' | 'archived' | 'recordingOrigin'>>) {
+    writeIndex(readIndex().map(s => s.id === id ? { ...s, ...changes } : s));
+  },
+
+  remove(id: string) {
+    writeIndex(readIndex().filter(s => s.id !== id));
+    storage.remove(dataKey(id));
+    storage.removeTranscripts(id);
+  },
+
+  /** Transcript ids across every session, which imports must not reuse. */
+  transcriptIds(): Set<string> {
+    return new Set(readIndex().flatMap(s => readTranscripts(s.id).map(t => t.id)));
+  },
+
+  setActiveId(id: string) {
+    storage.set(ACTIVE_KEY, id);
+  },
+
+  /**
+   * Opens the last active session, creating the first one (from the
+   * single-feed storage, if any) when there is none.
+   */
+  open(): { session: SessionSummary; data: SessionData } {
+    const sessions = readIndex();
+    const activeId = storage.get<string | null>(ACTIVE_KEY, null);
+    const active = sessions.find(s => s.id === activeId) ?? sessions.find(s => !s.archived);
+    if (active) {
+      storage.set(ACTIVE_KEY, active.id);
+      return { session: active, data: readData(active.id) };
+    }
+
+    const legacy = storage.get<unknown>(LEGACY_TRANSCRIPTS_KEY, []);
+    const legacySpeakers = storage.get<unknown>(LEGACY_SPEAKERS_KEY, []);
+    const data: SessionData = {
+      transcripts: Array.isArray(legacy) ? migrateTranscripts(legacy, 0) : [],
+      speakers: Array.isArray(legacySpeakers) ? legacySpeakers : [],
+    };
+    const session = newSession(defaultSessionName(data.transcripts[0]?.timestamp ?? Date.now()), data);
+    writeIndex([...sessions, session]);
+    storage.set(ACTIVE_KEY, session.id);
+    storage.remove(LEGACY_TRANSCRIPTS_KEY);
+    storage.remove(LEGACY_SPEAKERS_KEY);
+    return { session, data };
+  },
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createSpeaker, DEFAULT_ROSTER, MAX_SPEAKERS, rosterForTranscripts, speakerName, speakerSide, Speaker } from './speakers';
+
+describe('speakers', () => {
+  it('adds speakers with the next free id and an unused colour', () => {
+    expect(createSpeaker(DEFAULT_ROSTER)).toEqual({ id: 'C', name: 'Speaker C', color: 'green' });
+
+    let roster: Speaker[] = DEFAULT_ROSTER;
+    while (roster.length < MAX_SPEAKERS) roster = [...roster, createSpeaker(roster)!];
+    expect(new Set(roster.map(s => s.color)).size).toBe(MAX_SPEAKERS);
+    expect(createSpeaker(roster)).toBeNull();
+  });
+
+  it('migrates transcripts saved with A/B labels onto the default roster', () => {
+    expect(rosterForTranscripts([], [{ speaker: 'A' }, { speaker: 'B' }])).toEqual(DEFAULT_ROSTER);
+  });
+
+  it('ignores malformed saved rosters', () => {
+    expect(rosterForTranscripts([{ text: 'not a speaker' }] as never, [])).toEqual(DEFAULT_ROSTER);
+    expect(rosterForTranscripts({} as never, [])).toEqual(DEFAULT_ROSTER);
+  });
+
+  it('adds roster entries for speakers missing from a saved roster', () => {
+    const roster: Speaker[] = [{ id: 'A', name: 'Moderator', color: 'amber' }];
+    expect(rosterForTranscripts(roster, [{ speaker: 'A' }, { speaker: 'B' }, { speaker: 'D' }])).toEqual([
+      { id: 'A', name: 'Moderator', color: 'amber' },
+      { id: 'B', name: 'Speaker B', color: 'red' },
+      { id: 'D', name: 'Speaker D', color: 'blue' },
+    ]);
+  });
+
+  it('names speakers and alternates sides by roster position', () => {
+    const roster: Speaker[] = [...DEFAULT_ROSTER, { id: 'C', name: 'Dana', color: 'green' }];
+    expect(speakerName(roster, 'C')).toBe('Dana');
+    expect(speakerName(roster, 'Z')).toBe('Speaker Z');
+    expect(['A', 'B', 'C'].map(id => speakerSide(roster, id))).toEqual(['left', 'right', 'left']);
+  });
+});
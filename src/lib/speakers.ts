@@ -0,0 +1,161 @@
+export type SpeakerColor = 'blue' | 'red' | 'green' | 'amber' | 'purple' | 'pink' | 'cyan' | 'orange' | 'lime';
+
+/** A participant. `id` is the stable label stored on transcripts. */
+export interface Speaker {
+  id: string;
+  name: string;
+  color: SpeakerColor;
+}
+
+/** One speaker per number key. */
+export const MAX_SPEAKERS = 9;
+/** Ids are assigned in this order; legacy transcripts used the first two. */
+const SPEAKER_IDS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'];
+
+export const SPEAKER_COLOR_NAMES: SpeakerColor[] = ['blue', 'red', 'green', 'amber', 'purple', 'pink', 'cyan', 'orange', 'lime'];
+
+export const DEFAULT_ROSTER: Speaker[] = [
+  { id: 'A', name: 'Speaker A', color: 'blue' },
+  { id: 'B', name: 'Speaker B', color: 'red' },
+];
+
+/** Full class names so Tailwind can see them. */
+export const SPEAKER_STYLES: Record<SpeakerColor, {
+  text: string;
+  softText: string;
+  dot: string;
+  border: string;
+  active: string;
+  glow: string;
+  sweep: string;
+}> = {
+  blue: {
+    text: 'text-blue-500',
+    softText: 'text-blue-400',
+    dot: 'bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]',
+    border: 'border-blue-500/50',
+    active: 'bg-blue-600 text-white shadow-[0_4px_20px_rgba(37,99,235,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(59,130,246,0.3)] border-blue-400',
+    sweep: 'from-blue-600/0 via-blue-600/50 to-blue-600/0',
+  },
+  red: {
+    text: 'text-red-500',
+    softText: 'text-red-400',
+    dot: 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]',
+    border: 'border-red-500/50',
+    active: 'bg-red-600 text-white shadow-[0_4px_20px_rgba(220,38,38,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(239,68,68,0.3)] border-red-400',
+    sweep: 'from-red-600/0 via-red-600/50 to-red-600/0',
+  },
+  green: {
+    text: 'text-green-500',
+    softText: 'text-green-400',
+    dot: 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.8)]',
+    border: 'border-green-500/50',
+    active: 'bg-green-600 text-white shadow-[0_4px_20px_rgba(22,163,74,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(34,197,94,0.3)] border-green-400',
+    sweep: 'from-green-600/0 via-green-600/50 to-green-600/0',
+  },
+  amber: {
+    text: 'text-amber-500',
+    softText: 'text-amber-400',
+    dot: 'bg-amber-500 shadow-[0_0_8px_rgba(245,158,11,0.8)]',
+    border: 'border-amber-500/50',
+    active: 'bg-amber-600 text-white shadow-[0_4px_20px_rgba(217,119,6,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(245,158,11,0.3)] border-amber-400',
+    sweep: 'from-amber-600/0 via-amber-600/50 to-amber-600/0',
+  },
+  purple: {
+    text: 'text-purple-500',
+    softText: 'text-purple-400',
+    dot: 'bg-purple-500 shadow-[0_0_8px_rgba(168,85,247,0.8)]',
+    border: 'border-purple-500/50',
+    active: 'bg-purple-600 text-white shadow-[0_4px_20px_rgba(147,51,234,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(168,85,247,0.3)] border-purple-400',
+    sweep: 'from-purple-600/0 via-purple-600/50 to-purple-600/0',
+  },
+  pink: {
+    text: 'text-pink-500',
+    softText: 'text-pink-400',
+    dot: 'bg-pink-500 shadow-[0_0_8px_rgba(236,72,153,0.8)]',
+    border: 'border-pink-500/50',
+    active: 'bg-pink-600 text-white shadow-[0_4px_20px_rgba(219,39,119,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(236,72,153,0.3)] border-pink-400',
+    sweep: 'from-pink-600/0 via-pink-600/50 to-pink-600/0',
+  },
+  cyan: {
+    text: 'text-cyan-500',
+    softText: 'text-cyan-400',
+    dot: 'bg-cyan-500 shadow-[0_0_8px_rgba(6,182,212,0.8)]',
+    border: 'border-cyan-500/50',
+    active: 'bg-cyan-600 text-white shadow-[0_4px_20px_rgba(8,145,178,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(6,182,212,0.3)] border-cyan-400',
+    sweep: 'from-cyan-600/0 via-cyan-600/50 to-cyan-600/0',
+  },
+  orange: {
+    text: 'text-orange-500',
+    softText: 'text-orange-400',
+    dot: 'bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.8)]',
+    border: 'border-orange-500/50',
+    active: 'bg-orange-600 text-white shadow-[0_4px_20px_rgba(234,88,12,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(249,115,22,0.3)] border-orange-400',
+    sweep: 'from-orange-600/0 via-orange-600/50 to-orange-600/0',
+  },
+  lime: {
+    text: 'text-lime-500',
+    softText: 'text-lime-400',
+    dot: 'bg-lime-500 shadow-[0_0_8px_rgba(132,204,22,0.8)]',
+    border: 'border-lime-500/50',
+    active: 'bg-lime-600 text-white shadow-[0_4px_20px_rgba(101,163,13,0.4)]',
+    glow: 'shadow-[0_0_50px_rgba(132,204,22,0.3)] border-lime-400',
+    sweep: 'from-lime-600/0 via-lime-600/50 to-lime-600/0',
+  },
+};
+
+export function isSpeaker(value: unknown): value is Speaker {
+  const s = value as Speaker;
+  return typeof s?.id === 'string' && typeof s.name === 'string' && SPEAKER_COLOR_NAMES.includes(s.color);
+}
+
+/**
+ * The next speaker to add, with the first free id and an unused colour,
+ * or null when the roster is full.
+ */
+export function createSpeaker(roster: Speaker[]): Speaker | null {
+  const id = SPEAKER_IDS.find(i => !roster.some(s => s.id === i));
+  if (!id) return null;
+  const color = SPEAKER_COLOR_NAMES.find(c => !roster.some(s => s.color === c)) ?? 'blue';
+  return { id, name: `Speaker ${id}`, color };
+}
+
+/**
+ * Adds roster entries for speakers that only appear on saved transcripts,
+ * such as the A/B labels stored before rosters existed.
+ */
+export function rosterForTranscripts(roster: Speaker[], transcripts: { speaker: string }[]): Speaker[] {
+  // Saved rosters come from localStorage, so drop anything malformed
+  const valid = Array.isArray(roster) ? roster.filter(isSpeaker).slice(0, MAX_SPEAKERS) : [];
+  let result = valid.length > 0 ? valid : DEFAULT_ROSTER;
+  for (const { speaker } of transcripts) {
+    if (result.some(s => s.id === speaker) || result.length >= MAX_SPEAKERS) continue;
+    const color = DEFAULT_ROSTER.find(s => s.id === speaker)?.color
+      ?? SPEAKER_COLOR_NAMES.find(c => !result.some(s => s.color === c))
+      ?? 'blue';
+    result = [...result, { id: speaker, name: `Speaker ${speaker}`, color }];
+  }
+  return result;
+}
+
+export function findSpeaker(roster: Speaker[], id: string): Speaker {
+  return roster.find(s => s.id === id) ?? { id, name: `Speaker ${id}`, color: 'blue' };
+}
+
+/** Display name for a speaker id, falling back to its label. */
+export function speakerName(roster: Speaker[], id: string): string {
+  return findSpeaker(roster, id).name;
+}
+
+/** Alternate sides of the feed by roster position, like a chat. */
+export function speakerSide(roster: Speaker[], id: string): 'left' | 'right' {
+  return roster.findIndex(s => s.id === id) % 2 === 1 ? 'right' : 'left';
+}
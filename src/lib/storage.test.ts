@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBDatabase as FakeIDBDatabase, IDBFactory } from 'fake-indexeddb';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { migrateTranscripts, pruneTranscripts, storage, TRANSCRIPT_SCHEMA_VERSION } from './storage';
+import type { Transcript } from '@/hooks/useDebateManager';
+
+const transcript: Transcript = { id: 't1', text: 'Taxes went up.', speaker: 'A', isChecking: false, timestamp: 1_000, lastUpdated: 2_000 };
+
+describe('storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('migrates unversioned transcripts to the current shape', () => {
+    const [migrated] = migrateTranscripts([{ id: 't1', text: 'Taxes went up.', speaker: 'B', isChecking: true, timestamp: 1_000 }], 0);
+
+    expect(migrated).toEqual({ id: 't1', text: 'Taxes went up.', speaker: 'B', isChecking: false, timestamp: 1_000, lastUpdated: 1_000, factCheck: undefined });
+  });
+
+  it('drops placeholders left by interrupted fact-checks but keeps finished verdicts', () => {
+    const [interrupted, finished] = migrateTranscripts([
+      { ...transcript, isChecking: true, factCheck: { verdict: 'Unverified', explanation: 'Analyzing...' } },
+      { ...transcript, factCheck: { verdict: 'True', explanation: 'Matches the budget.' } },
+    ], 1);
+
+    expect(interrupted.factCheck).toBeUndefined();
+    expect(finished.factCheck).toEqual({ verdict: 'True', explanation: 'Matches the budget.' });
+  });
+
+  it('skips saved entries that are not transcripts', () => {
+    expect(migrateTranscripts([{ id: 'x' }, null, 'text', transcript], 0)).toHaveLength(1);
+  });
+
+  it('round-trips versioned transcripts through localStorage without IndexedDB', () => {
+    storage.setTranscripts('s1', [transcript]);
+
+    expect(JSON.parse(localStorage.getItem('debatelens_transcripts_s1')!).schemaVersion).toBe(TRANSCRIPT_SCHEMA_VERSION);
+    expect(storage.getTranscripts('s1')).toEqual([transcript]);
+
+    storage.removeTranscripts('s1');
+    expect(storage.getTranscripts('s1')).toEqual([]);
+  });
+
+  it('warns subscribers when storage is full', () => {
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribe(listener);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Full', 'QuotaExceededError');
+    });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(storage.set('debatelens_translate', true)).toBe(false);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ kind: 'quota-exceeded' }));
+
+    unsubscribe();
+    setItem.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  it('keeps the newest transcripts when pruning', () => {
+    expect(pruneTranscripts([1, 2, 3, 4], 2)).toEqual([3, 4]);
+    expect(pruneTranscripts([1, 2], 2)).toEqual([1, 2]);
+  });
+});
+
+describe('storage with IndexedDB', () => {
+  const UNSAVED_KEY = 'debatelens:unsaved';
+
+  /** A fresh copy of the module, as on a page load. */
+  async function loadStorage() {
+    vi.resetModules();
+    const { storage } = await import('./storage');
+    await storage.load();
+    return storage;
+  }
+
+  async function readStore(name: 'kv' | 'transcripts'): Promise<Map<string, unknown>> {
+    const db = await openDatabase('debatelens', 1, () => {});
+    try {
+      const store = db.transaction(name, 'readonly').objectStore(name);
+      const [keys, saved] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+      return new Map(keys.map((key, i) => [String(key), saved[i]]));
+    } finally {
+      db.close();
+    }
+  }
+
+  async function writeRecords(records: unknown[]) {
+    const db = await openDatabase('debatelens', 1, () => {});
+    const tx = db.transaction('transcripts', 'readwrite');
+    records.forEach(record => tx.objectStore('transcripts').put(record));
+    await transactionDone(tx);
+    db.close();
+  }
+
+  function failWrites() {
+    return vi.spyOn(FakeIDBDatabase.prototype, 'transaction').mockImplementation(() => {
+      throw new DOMException('Disk error', 'UnknownError');
+    });
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(globalThis, 'indexedDB');
+  });
+
+  it('batches writes until the flush delay passes', async () => {
+    const storage = await loadStorage();
+
+    storage.set('debatelens_translate', true);
+    storage.setTranscripts('s1', [transcript]);
+    expect(storage.get('debatelens_translate', false)).toBe(true);
+    expect((await readStore('kv')).size).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await storage.flush();
+
+    expect((await readStore('kv')).get('debatelens_translate')).toBe(true);
+    expect([...(await readStore('transcripts')).values()]).toEqual([
+      { sessionId: 's1', id: 't1', seq: 0, schemaVersion: TRANSCRIPT_SCHEMA_VERSION, transcript },
+    ]);
+    expect((await loadStorage()).getTranscripts('s1')).toEqual([transcript]);
+  });
+
+  it('retries a failed batch', async () => {
+    const storage = await loadStorage();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transaction = failWrites();
+
+    storage.set('debatelens_translate', true);
+    await storage.flush();
+    transaction.mockRestore();
+    await vi.advanceTimersByTimeAsync(500);
+    await storage.flush();
+
+    expect(consoleSpy).toHaveBeenCalledWith('Error writing to IndexedDB:', expect.any(DOMException));
+    expect((await readStore('kv')).get('debatelens_translate')).toBe(true);
+  });
+
+  it('drops a batch after the last failed attempt', async () => {
+    const storage = await loadStorage();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transaction = failWrites();
+
+    storage.set('debatelens_translate', true);
+    await storage.flush();
+    await vi.advanceTimersByTimeAsync(500);
+    await storage.flush();
+    await vi.advanceTimersByTimeAsync(500);
+    await storage.flush();
+    await vi.advanceTimersByTimeAsync(500);
+    await storage.flush();
+
+    expect(transaction).toHaveBeenCalledTimes(3);
+    expect(consoleSpy).toHaveBeenCalledWith('Dropping 1 unsaved changes after 3 failed writes');
+
+    // Memory still has the value for the next write
+    transaction.mockRestore();
+    expect(storage.get('debatelens_translate', false)).toBe(true);
+    expect((await readStore('kv')).size).toBe(0);
+  });
+
+  it('migrates old records when loading and writes them back', async () => {
+    await loadStorage();
+    await writeRecords([
+      { sessionId: 's1', id: 't2', seq: 1, schemaVersion: 0, transcript: { id: 't2', text: 'Second.', timestamp: 3_000, isChecking: false } },
+      { sessionId: 's1', id: 't1', seq: 0, schemaVersion: TRANSCRIPT_SCHEMA_VERSION, transcript },
+      { sessionId: 's1', id: 'bad', seq: 2, schemaVersion: 0, transcript: { id: 'bad' } },
+    ]);
+
+    const storage = await loadStorage();
+    const migrated = { id: 't2', text: 'Second.', timestamp: 3_000, isChecking: false, speaker: 'A', lastUpdated: 3_000, factCheck: undefined };
+    expect(storage.getTranscripts('s1')).toEqual([transcript, migrated]);
+
+    await storage.flush();
+    const saved = (await readStore('transcripts')).get('s1,t2') as { schemaVersion: number; transcript: Transcript };
+    expect(saved.schemaVersion).toBe(TRANSCRIPT_SCHEMA_VERSION);
+    expect(saved.transcript).toEqual(migrated);
+  });
+
+  it('imports data saved in localStorage, then clears it', async () => {
+    localStorage.setItem('debatelens_translate', 'true');
+    localStorage.setItem('debatelens_transcripts_s1', JSON.stringify([{ ...transcript, lastUpdated: undefined }]));
+
+    const storage = await loadStorage();
+
+    expect(storage.get('debatelens_translate', false)).toBe(true);
+    expect(storage.getTranscripts('s1')).toEqual([{ ...transcript, lastUpdated: 1_000, factCheck: undefined }]);
+    expect(localStorage.getItem('debatelens_translate')).toBeNull();
+    expect(localStorage.getItem('debatelens_transcripts_s1')).toBeNull();
+    expect((await readStore('kv')).get('debatelens_translate')).toBe(true);
+  });
+
+  it('keeps using IndexedDB when restoring localStorage data fails', async () => {
+    localStorage.setItem('debatelens_translate', 'true');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const removeItem = Storage.prototype.removeItem;
+    vi.spyOn(Storage.prototype, 'removeItem').mockImplementation(function (this: Storage, key: string) {
+      if (key === 'debatelens_translate') throw new Error('Storage is locked');
+      removeItem.call(this, key);
+    });
+
+    const storage = await loadStorage();
+    storage.set('debatelens_volume', 1);
+
+    expect(consoleSpy).toHaveBeenCalledWith('Error restoring data saved outside IndexedDB:', expect.any(Error));
+    expect(storage.get('debatelens_translate', false)).toBe(true);
+    expect(localStorage.getItem('debatelens_volume')).toBeNull();
+    await storage.flush();
+    expect((await readStore('kv')).get('debatelens_volume')).toBe(1);
+  });
+
+  it('keeps only unsaved writes on page hide and replays them on the next load', async () => {
+    const storage = await loadStorage();
+    const older = { ...transcript, id: 't0', text: 'Earlier.' };
+    storage.setTranscripts('s1', [older, transcript]);
+    storage.set('debatelens_translate', true);
+    await storage.flush();
+
+    const edited = { ...transcript, text: 'Taxes went down.' };
+    const added = { ...transcript, id: 't2', text: 'Spending rose.' };
+    storage.setTranscripts('s1', [edited, added]);
+    storage.remove('debatelens_translate');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transaction = failWrites();
+    window.dispatchEvent(new Event('pagehide'));
+    await storage.flush();
+    transaction.mockRestore();
+
+    const unsaved = JSON.parse(localStorage.getItem(UNSAVED_KEY)!);
+    expect(unsaved.removed).toEqual(['debatelens_translate']);
+    expect(unsaved.records.map((write: { key: string[] }) => write.key[1]).sort()).toEqual(['t0', 't1', 't2']);
+    expect(unsaved.records.find((write: { key: string[] }) => write.key[1] === 't0').record).toBeNull();
+
+    const reloaded = await loadStorage();
+    expect(reloaded.getTranscripts('s1')).toEqual([edited, added]);
+    expect(reloaded.get('debatelens_translate', false)).toBe(false);
+    expect(localStorage.getItem(UNSAVED_KEY)).toBeNull();
+    expect([...(await readStore('transcripts')).keys()].sort()).toEqual(['s1,t1', 's1,t2']);
+  });
+});
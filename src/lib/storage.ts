@@ -1,47 +1,481 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+import type { Transcript } from '@/hooks/useDebateManager';
+
+const DB_NAME = 'debatelens';
+const DB_VERSION = 1;
+const KEY_PREFIX = 'debatelens_';
+// Where transcripts live when IndexedDB is unavailable
+const FALLBACK_TRANSCRIPTS_PREFIX = 'debatelens_transcripts_';
+const FLUSH_DELAY_MS = 500;
+/** Failed batches are retried this many times before their writes are dropped. */
+const MAX_WRITE_ATTEMPTS = 3;
+// Writes still uncommitted when the page went away, replayed on the next load.
+// Outside KEY_PREFIX so the one-off localStorage import never picks it up.
+const UNSAVED_KEY = 'debatelens:unsaved';
+const QUOTA_CHECK_INTERVAL_MS = 60_000;
+/** Share of the browser's storage quota in use before users are warned. */
+const QUOTA_WARNING_RATIO = 0.9;
+
+/** Shape version written with each stored transcript; see `TRANSCRIPT_MIGRATIONS`. */
+export const TRANSCRIPT_SCHEMA_VERSION = 2;
+
+export interface StorageWarning {
+  kind: 'quota-exceeded' | 'nearly-full' | 'transcript-limit';
+  message: string;
+}
+
+interface TranscriptRecord {
+  sessionId: string;
+  id: string;
+  /** Insertion order within the session, so deletions never renumber records. */
+  seq: number;
+  schemaVersion: number;
+  transcript: Transcript;
+}
+
+type RawTranscript = Record<string, unknown>;
+
+type RecordWrite = { key: [string, string]; record: TranscriptRecord | null };
+
+interface UnsavedWrites {
+  values: Record<string, unknown>;
+  removed: string[];
+  /** Transcript records not yet committed; a null record is a deletion. */
+  records: RecordWrite[];
+}
+
+/**
+ * Upgrades from the version at the same index to the next one. Version 0 is
+ * anything saved before transcripts were versioned.
+ */
+const TRANSCRIPT_MIGRATIONS: ((t: RawTranscript) => RawTranscript)[] = [
+  // 0 -> 1: early saves may lack lastUpdated, and speakers were only ever 'A' or 'B'
+  t => ({
+    ...t,
+    speaker: typeof t.speaker === 'string' ? t.speaker : 'A',
+    lastUpdated: typeof t.lastUpdated === 'number' ? t.lastUpdated : t.timestamp,
+  }),
+  // 1 -> 2: a check interrupted by closing the tab left its streaming placeholder behind
+  t => {
+    const factCheck = t.factCheck as { explanation?: string } | undefined;
+    const interrupted = t.isChecking === true && factCheck?.explanation === 'Analyzing...';
+    return { ...t, isChecking: false, factCheck: interrupted ? undefined : t.factCheck };
+  },
+];
+
+function isTranscriptLike(value: unknown): value is RawTranscript {
+  const t = value as RawTranscript;
+  return typeof t?.id === 'string' && typeof t.text === 'string' && typeof t.timestamp === 'number';
+}
+
+/**
+ * Brings saved transcripts up to the current shape, dropping entries too
+ * malformed to show.
+ */
+export function migrateTranscripts(saved: unknown[], fromVersion: number): Transcript[] {
+  return saved.filter(isTranscriptLike).map(t =>
+    TRANSCRIPT_MIGRATIONS.slice(fromVersion).reduce((migrated, step) => step(migrated), t) as unknown as Transcript
+  );
+}
+
+/**
+ * Prunes transcripts to keep the list size manageable and prevent storage issues.
+ */
+export function pruneTranscripts<T>(transcripts: T[], limit: number = 100): T[] {
+  if (transcripts.length <= limit) return transcripts;
+  return transcripts.slice(-limit);
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+const QUOTA_EXCEEDED: StorageWarning = {
+  kind: 'quota-exceeded',
+  message: 'Browser storage is full, so recent changes are not being saved. Export this session, then delete old sessions to free space.',
+};
+
+let useIndexedDB = isIndexedDBAvailable();
+let loaded = !useIndexedDB;
+let loading: Promise<void> | null = null;
+let database: Promise<IDBDatabase> | null = null;
+
+// IndexedDB mode reads from memory; writes are queued and flushed together
+const values = new Map<string, unknown>();
+const sessions = new Map<string, Map<string, { transcript: Transcript; seq: number }>>();
+const pendingValues = new Map<string, unknown>();
+const pendingRecords = new Map<string, RecordWrite>();
+/** The batch being written, until its transaction settles. */
+let inFlight: { values: Map<string, unknown>; records: Map<string, RecordWrite> } | null = null;
+let failedAttempts = 0;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> = Promise.resolve();
+let lastQuotaCheck = 0;
+
+const listeners = new Set<(warning: StorageWarning) => void>();
+
+function warn(warning: StorageWarning) {
+  listeners.forEach(listener => listener(warning));
+}
+
+function openStorageDatabase(): Promise<IDBDatabase> {
+  database ??= openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (oldVersion < 1) {
+      db.createObjectStore('kv');
+      const transcripts = db.createObjectStore('transcripts', { keyPath: ['sessionId', 'id'] });
+      transcripts.createIndex('sessionId', 'sessionId');
+    }
+  }).then(db => {
+    // Let a newer tab upgrade the schema
+    db.onversionchange = () => {
+      db.close();
+      database = null;
+    };
+    return db;
+  });
+  return database;
+}
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    storage.flush();
+  }, FLUSH_DELAY_MS);
+}
+
+function queueRecord(sessionId: string, id: string, record: TranscriptRecord | null) {
+  pendingRecords.set(`${sessionId}\u0000${id}`, { key: [sessionId, id], record });
+  scheduleFlush();
+}
+
+async function checkQuota() {
+  if (Date.now() - lastQuotaCheck < QUOTA_CHECK_INTERVAL_MS || !navigator.storage?.estimate) return;
+  lastQuotaCheck = Date.now();
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage && quota && usage / quota >= QUOTA_WARNING_RATIO) {
+    warn({
+      kind: 'nearly-full',
+      message: `Browser storage is ${Math.round(usage / quota * 100)}% full. Export and delete old sessions before new transcripts stop being saved.`,
+    });
+  }
+}
+
+async function writePending() {
+  if (pendingValues.size === 0 && pendingRecords.size === 0) return;
+  const valueWrites = new Map(pendingValues);
+  const recordWrites = new Map(pendingRecords);
+  pendingValues.clear();
+  pendingRecords.clear();
+  inFlight = { values: valueWrites, records: recordWrites };
+
+  try {
+    const db = await openStorageDatabase();
+    const tx = db.transaction(['kv', 'transcripts'], 'readwrite');
+    const kv = tx.objectStore('kv');
+    const transcripts = tx.objectStore('transcripts');
+    valueWrites.forEach((value, key) => {
+      if (value === undefined) kv.delete(key);
+      else kv.put(value, key);
+    });
+    recordWrites.forEach(({ key, record }) => {
+      if (record) transcripts.put(record);
+      else transcripts.delete(key);
+    });
+    await transactionDone(tx);
+    failedAttempts = 0;
+    // Everything the page-hide copy held is now in IndexedDB
+    if (pendingValues.size === 0 && pendingRecords.size === 0) localStorage.removeItem(UNSAVED_KEY);
+    await checkQuota();
+  } catch (error) {
+    if (isQuotaError(error)) warn(QUOTA_EXCEEDED);
+    else console.error('Error writing to IndexedDB:', error);
+
+    if (++failedAttempts < MAX_WRITE_ATTEMPTS) {
+      // Keep unsaved writes for the next attempt unless newer ones replaced them
+      valueWrites.forEach((value, key) => { if (!pendingValues.has(key)) pendingValues.set(key, value); });
+      recordWrites.forEach((write, key) => { if (!pendingRecords.has(key)) pendingRecords.set(key, write); });
+      scheduleFlush();
+    } else {
+      // Memory still holds the data, so the next change to a dropped key writes it again
+      console.error(`Dropping ${valueWrites.size + recordWrites.size} unsaved changes after ${MAX_WRITE_ATTEMPTS} failed writes`);
+      failedAttempts = 0;
+    }
+  } finally {
+    inFlight = null;
+  }
+}
+
 /**
- * Safe localStorage utility to handle QuotaExceededError and ensure data integrity.
+ * Copies writes not yet committed to localStorage, which is written
+ * synchronously, so closing the tab mid-batch loses nothing. The next load
+ * replays the copy into IndexedDB.
+ */
+function saveUnsaved() {
+  const keys = new Set([...(inFlight?.values.keys() ?? []), ...pendingValues.keys()]);
+  // Pending writes are newer than the batch in flight for the same record
+  const records = new Map([...(inFlight?.records ?? []), ...pendingRecords]);
+  if (keys.size === 0 && records.size === 0) return;
+
+  const unsaved: UnsavedWrites = { values: {}, removed: [], records: [...records.values()] };
+  keys.forEach(key => {
+    if (values.has(key)) unsaved.values[key] = values.get(key);
+    else unsaved.removed.push(key);
+  });
+  writeLocal(UNSAVED_KEY, unsaved);
+}
+
+async function replayUnsaved() {
+  const unsaved = readLocal<UnsavedWrites | null>(UNSAVED_KEY, null);
+  if (!unsaved) return;
+
+  Object.entries(unsaved.values ?? {}).forEach(([key, value]) => storage.set(key, value));
+  (unsaved.removed ?? []).forEach(key => storage.remove(key));
+
+  const touched = new Set<string>();
+  for (const { key: [sessionId, id], record } of unsaved.records ?? []) {
+    const session = sessions.get(sessionId) ?? new Map<string, { transcript: Transcript; seq: number }>();
+    const upgraded = record && upgradeRecord(record);
+    if (upgraded) session.set(id, { transcript: upgraded.transcript, seq: upgraded.seq });
+    else session.delete(id);
+    sessions.set(sessionId, session);
+    touched.add(sessionId);
+    queueRecord(sessionId, id, upgraded);
+  }
+  touched.forEach(sessionId => {
+    const session = sessions.get(sessionId)!;
+    if (session.size === 0) sessions.delete(sessionId);
+    else sessions.set(sessionId, new Map([...session].sort(([, a], [, b]) => a.seq - b.seq)));
+  });
+  await storage.flush();
+}
+
+/** Brings a stored record up to the current schema; null if it is too malformed to show. */
+function upgradeRecord(record: TranscriptRecord): TranscriptRecord | null {
+  if (record.schemaVersion >= TRANSCRIPT_SCHEMA_VERSION) return record;
+  const [transcript] = migrateTranscripts([record.transcript], record.schemaVersion);
+  return transcript ? { ...record, schemaVersion: TRANSCRIPT_SCHEMA_VERSION, transcript } : null;
+}
+
+function cacheSession(sessionId: string, records: TranscriptRecord[]) {
+  const session = new Map<string, { transcript: Transcript; seq: number }>();
+  records.sort((a, b) => a.seq - b.seq).forEach(r => session.set(r.id, { transcript: r.transcript, seq: r.seq }));
+  sessions.set(sessionId, session);
+}
+
+/** Copies localStorage from before the move to IndexedDB, then clears it once written. */
+async function importLocalStorage() {
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(KEY_PREFIX));
+  if (keys.length === 0) return;
+
+  for (const key of keys) {
+    let value: unknown;
+    try {
+      value = JSON.parse(localStorage.getItem(key) ?? 'null');
+    } catch {
+      continue;
+    }
+    if (key.startsWith(FALLBACK_TRANSCRIPTS_PREFIX)) {
+      const sessionId = key.slice(FALLBACK_TRANSCRIPTS_PREFIX.length);
+      storage.setTranscripts(sessionId, readFallbackTranscripts(value));
+    } else if (!values.has(key)) {
+      storage.set(key, value);
+    }
+  }
+  await storage.flush();
+  if (pendingValues.size === 0 && pendingRecords.size === 0) {
+    keys.forEach(key => localStorage.removeItem(key));
+  }
+}
+
+async function readDatabase() {
+  const db = await openStorageDatabase();
+  const tx = db.transaction(['kv', 'transcripts'], 'readonly');
+  const kv = tx.objectStore('kv');
+  const [keys, saved, records] = await Promise.all([
+    requestToPromise(kv.getAllKeys()),
+    requestToPromise(kv.getAll()),
+    requestToPromise(tx.objectStore('transcripts').getAll()) as Promise<TranscriptRecord[]>,
+  ]);
+  keys.forEach((key, i) => values.set(String(key), saved[i]));
+
+  const bySession = new Map<string, TranscriptRecord[]>();
+  for (const record of records) {
+    const upgraded = upgradeRecord(record);
+    if (!upgraded) continue;
+    if (upgraded !== record) queueRecord(upgraded.sessionId, upgraded.id, upgraded);
+    bySession.set(upgraded.sessionId, [...(bySession.get(upgraded.sessionId) ?? []), upgraded]);
+  }
+  bySession.forEach((list, sessionId) => cacheSession(sessionId, list));
+}
+
+async function hydrate() {
+  try {
+    await readDatabase();
+  } catch (error) {
+    console.error('IndexedDB is unavailable, falling back to localStorage:', error);
+    useIndexedDB = false;
+    loaded = true;
+    return;
+  }
+  loaded = true;
+
+  // Start writing as soon as the page is hidden; on the way out, keep a synchronous copy of what is still unsaved
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') storage.flush();
+  });
+  window.addEventListener('pagehide', () => {
+    saveUnsaved();
+    storage.flush();
+  });
+
+  // IndexedDB already holds the data, so a failure here must not switch backends
+  try {
+    await importLocalStorage();
+    await replayUnsaved();
+  } catch (error) {
+    console.error('Error restoring data saved outside IndexedDB:', error);
+  }
+}
+
+function readFallbackTranscripts(saved: unknown): Transcript[] {
+  // Bare arrays predate schema versions
+  if (Array.isArray(saved)) return migrateTranscripts(saved, 0);
+  const versioned = saved as { schemaVersion?: number; transcripts?: unknown } | null;
+  if (!Array.isArray(versioned?.transcripts)) return [];
+  return migrateTranscripts(versioned.transcripts, versioned.schemaVersion ?? 0);
+}
+
+function readLocal<T>(key: string, defaultValue: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return defaultValue;
+    return JSON.parse(saved) as T;
+  } catch (error) {
+    console.error(`Error reading from localStorage key "${key}":`, error);
+    return defaultValue;
+  }
+}
+
+function writeLocal<T>(key: string, value: T): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    if (isQuotaError(error)) {
+      console.error(`localStorage quota exceeded for key "${key}".`);
+      warn(QUOTA_EXCEEDED);
+    } else {
+      console.error(`Error writing to localStorage key "${key}":`, error);
+    }
+    return false;
+  }
+}
+
+/**
+ * Persistent key-value and transcript storage. IndexedDB holds the data,
+ * loaded into memory by `load()` so reads stay synchronous, with writes
+ * batched into one transaction every {@link FLUSH_DELAY_MS}; what is still
+ * unsaved when the page goes away is kept in localStorage until the next
+ * load. Without IndexedDB (SSR, tests, some private windows) it reads and
+ * writes localStorage directly.
  */
 export const storage = {
+  /** Whether reads reflect saved data; always true without IndexedDB. */
+  isLoaded(): boolean {
+    return loaded;
+  },
+
+  load(): Promise<void> {
+    if (loaded) return Promise.resolve();
+    loading ??= hydrate();
+    return loading;
+  },
+
   get<T>(key: string, defaultValue: T): T {
     if (typeof window === 'undefined') return defaultValue;
-    try {
-      const saved = localStorage.getItem(key);
-      if (!saved) return defaultValue;
-      return JSON.parse(saved) as T;
-    } catch (error) {
-      console.error(`Error reading from localStorage key "${key}":`, error);
-      return defaultValue;
-    }
+    if (!useIndexedDB) return readLocal(key, defaultValue);
+    return values.has(key) ? values.get(key) as T : defaultValue;
   },
 
   set<T>(key: string, value: T): boolean {
     if (typeof window === 'undefined') return false;
-    try {
-      const serialized = JSON.stringify(value);
-      localStorage.setItem(key, serialized);
-      return true;
-    } catch (error) {
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        console.error(`localStorage quota exceeded for key "${key}". Attempting to clear old data.`);
-        // Simple strategy: clear the key if it's too big, or you could implement more complex pruning
-        // For this app, we might want to prune the oldest transcripts
-      } else {
-        console.error(`Error writing to localStorage key "${key}":`, error);
+    if (!useIndexedDB) return writeLocal(key, value);
+    values.set(key, value);
+    pendingValues.set(key, value);
+    scheduleFlush();
+    return true;
+  },
+
+  remove(key: string): void {
+    if (typeof window === 'undefined') return;
+    if (!useIndexedDB) {
+      localStorage.removeItem(key);
+      return;
+    }
+    values.delete(key);
+    pendingValues.set(key, undefined);
+    scheduleFlush();
+  },
+
+  getTranscripts(sessionId: string): Transcript[] {
+    if (typeof window === 'undefined') return [];
+    if (!useIndexedDB) return readFallbackTranscripts(readLocal<unknown>(FALLBACK_TRANSCRIPTS_PREFIX + sessionId, null));
+    return [...(sessions.get(sessionId)?.values() ?? [])].map(entry => entry.transcript);
+  },
+
+  /**
+   * Saves a session's transcripts. Only entries that changed identity since
+   * the last call are written, so streaming updates touch one record.
+   */
+  setTranscripts(sessionId: string, transcripts: Transcript[]): boolean {
+    if (typeof window === 'undefined') return false;
+    if (!useIndexedDB) {
+      return writeLocal(FALLBACK_TRANSCRIPTS_PREFIX + sessionId, { schemaVersion: TRANSCRIPT_SCHEMA_VERSION, transcripts });
+    }
+
+    const previous = sessions.get(sessionId) ?? new Map<string, { transcript: Transcript; seq: number }>();
+    const next = new Map<string, { transcript: Transcript; seq: number }>();
+    let seq = Math.max(-1, ...[...previous.values()].map(entry => entry.seq));
+    for (const transcript of transcripts) {
+      const entry = previous.get(transcript.id);
+      if (entry?.transcript === transcript) {
+        next.set(transcript.id, entry);
+        continue;
       }
-      return false;
+      const stored = { transcript, seq: entry?.seq ?? ++seq };
+      next.set(transcript.id, stored);
+      queueRecord(sessionId, transcript.id, { sessionId, id: transcript.id, seq: stored.seq, schemaVersion: TRANSCRIPT_SCHEMA_VERSION, transcript });
     }
+    previous.forEach((_, id) => { if (!next.has(id)) queueRecord(sessionId, id, null); });
+    sessions.set(sessionId, next);
+    return true;
   },
 
-  remove(key: string): void {
+  removeTranscripts(sessionId: string): void {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem(key);
-  }
-};
+    if (!useIndexedDB) {
+      localStorage.removeItem(FALLBACK_TRANSCRIPTS_PREFIX + sessionId);
+      return;
+    }
+    sessions.get(sessionId)?.forEach((_, id) => queueRecord(sessionId, id, null));
+    sessions.delete(sessionId);
+  },
 
-/**
- * Prunes transcripts to keep the list size manageable and prevent storage issues.
- */
-export function pruneTranscripts<T>(transcripts: T[], limit: number = 100): T[] {
-  if (transcripts.length <= limit) return transcripts;
-  return transcripts.slice(-limit);
-}
+  /** Writes queued changes now rather than after the batching delay. */
+  flush(): Promise<void> {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (!useIndexedDB) return Promise.resolve();
+    flushing = flushing.then(writePending);
+    return flushing;
+  },
+
+  /** Notifies `listener` of storage problems the user should act on. */
+  subscribe(listener: (warning: StorageWarning) => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+};
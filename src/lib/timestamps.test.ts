@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { formatClockTime, toTimedWords } from './timestamps';
+
+describe('timestamps', () => {
+  it('offsets chunk times by the start of the utterance audio', () => {
+    const words = toTimedWords([
+      { text: 'Hello', start: 0, end: 0.42 },
+      { text: 'world', start: 0.5, end: 1.0004 },
+    ], 1_000_000);
+
+    expect(words).toEqual([
+      { text: 'Hello', start: 1_000_000, end: 1_000_420 },
+      { text: 'world', start: 1_000_500, end: 1_001_000 },
+    ]);
+  });
+
+  it('formats clock times with milliseconds', () => {
+    const ms = new Date(2024, 0, 1, 9, 5, 7, 25).getTime();
+    expect(formatClockTime(ms)).toBe('09:05:07.025');
+  });
+});
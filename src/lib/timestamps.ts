@@ -0,0 +1,24 @@
+import type { TranscriptChunk } from '@/types/worker-messages';
+
+/** A transcribed word with absolute start and end times in epoch milliseconds. */
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Places utterance-relative chunks on the session clock. */
+export function toTimedWords(chunks: TranscriptChunk[], audioStart: number): TimedWord[] {
+  return chunks.map(c => ({
+    text: c.text,
+    start: Math.round(audioStart + c.start * 1000),
+    end: Math.round(audioStart + c.end * 1000),
+  }));
+}
+
+/** Local wall-clock time with milliseconds, e.g. `14:03:07.250`. */
+export function formatClockTime(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+}
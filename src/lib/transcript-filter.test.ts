@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_FILTER, filterFromSearchParams, filterTranscripts, isFilterActive, splitByQuery, writeFilterParams } from './transcript-filter';
+import { applyReview, revertReview } from './reviews';
+import type { Transcript } from '@/hooks/useDebateManager';
+
+const transcript = (overrides: Partial<Transcript> = {}): Transcript => ({
+  id: 't1',
+  text: 'Taxes went up.',
+  speaker: 'A',
+  isChecking: false,
+  timestamp: 0,
+  lastUpdated: 0,
+  ...overrides,
+});
+
+const transcripts = [
+  transcript({ factCheck: { verdict: 'False', explanation: 'Cut.' } }),
+  transcript({ id: 't2', speaker: 'B', text: 'Los impuestos bajaron.', translation: 'Taxes fell.', timestamp: 4 * 60_000, factCheck: { verdict: 'NOT_A_CLAIM', explanation: '' } }),
+  transcript({ id: 't3', speaker: 'B', text: 'Crime fell by half.', timestamp: 9 * 60_000 }),
+  transcript({
+    id: 't4',
+    text: 'Unemployment is at 4%.',
+    timestamp: 12 * 60_000,
+    factCheck: applyReview({ verdict: 'True', explanation: 'Yes.' }, { editor: 'Sam', verdict: 'Unverified', explanation: 'Disputed.' }, 1),
+  }),
+];
+
+const ids = (filter: Partial<typeof EMPTY_FILTER>) => filterTranscripts(transcripts, { ...EMPTY_FILTER, ...filter }).map(t => t.id);
+
+describe('transcript filter', () => {
+  it('returns everything when no filter is active', () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(filterTranscripts(transcripts, EMPTY_FILTER)).toBe(transcripts);
+  });
+
+  it('searches the text and translation', () => {
+    expect(ids({ query: 'TAXES' })).toEqual(['t1', 't2']);
+    expect(ids({ query: '  fell ' })).toEqual(['t2', 't3']);
+  });
+
+  it('filters by speaker, verdict, review and time range', () => {
+    expect(ids({ speakers: ['B'] })).toEqual(['t2', 't3']);
+    expect(ids({ verdicts: ['False', 'Unverified', 'unchecked'] })).toEqual(['t1', 't3', 't4']);
+    expect(ids({ review: 'reviewed' })).toEqual(['t4']);
+    expect(ids({ review: 'unreviewed' })).toEqual(['t1', 't2', 't3']);
+    expect(ids({ fromMinute: 4, toMinute: 10 })).toEqual(['t2', 't3']);
+    expect(ids({ speakers: ['A'], fromMinute: 1 })).toEqual(['t4']);
+  });
+
+  it('counts a reverted verdict as unreviewed, like its badge', () => {
+    const reverted = transcript({ id: 't5', factCheck: revertReview(transcripts[3].factCheck!, 'Sam', 2) });
+    const filtered = (review: 'reviewed' | 'unreviewed') => filterTranscripts([reverted], { ...EMPTY_FILTER, review }).map(t => t.id);
+
+    expect(reverted.factCheck?.reviews).toHaveLength(2);
+    expect(filtered('reviewed')).toEqual([]);
+    expect(filtered('unreviewed')).toEqual(['t5']);
+  });
+
+  it('splits text around search matches', () => {
+    expect(splitByQuery('Taxes up, taxes down', 'taxes')).toEqual([
+      { text: 'Taxes', match: true },
+      { text: ' up, ', match: false },
+      { text: 'taxes', match: true },
+      { text: ' down', match: false },
+    ]);
+    expect(splitByQuery('No match', '')).toEqual([{ text: 'No match', match: false }]);
+  });
+
+  it('round-trips through URL parameters and drops invalid values', () => {
+    const filter = { query: 'taxes', speakers: ['A', 'C'], verdicts: ['False' as const, 'NOT_A_CLAIM' as const], fromMinute: 5, toMinute: 20, review: 'reviewed' as const };
+    const params = new URLSearchParams('tab=feed&q=old');
+    writeFilterParams(params, filter);
+
+    expect(params.toString()).toBe('tab=feed&q=taxes&speaker=A%2CC&verdict=False%2CNOT_A_CLAIM&from=5&to=20&review=reviewed');
+    expect(filterFromSearchParams(params)).toEqual(filter);
+
+    writeFilterParams(params, EMPTY_FILTER);
+    expect(params.toString()).toBe('tab=feed');
+    expect(filterFromSearchParams(new URLSearchParams('verdict=Maybe,True&from=-3&to=soon&review=x'))).toEqual({
+      ...EMPTY_FILTER,
+      verdicts: ['True'],
+    });
+  });
+});
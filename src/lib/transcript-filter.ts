@@ -0,0 +1,116 @@
+import type { Transcript } from '@/hooks/useDebateManager';
+import type { Verdict } from '@/types/worker-messages';
+import { transcriptSpan } from './analytics';
+import { isHumanVerdict } from './reviews';
+
+/** A fact-check verdict, or `unchecked` for transcripts without one. */
+export type VerdictFilter = Verdict | 'unchecked';
+
+export const VERDICT_FILTERS: { id: VerdictFilter; label: string }[] = [
+  { id: 'True', label: 'True' },
+  { id: 'False', label: 'False' },
+  { id: 'Unverified', label: 'Unverified' },
+  { id: 'NOT_A_CLAIM', label: 'Not a claim' },
+  { id: 'unchecked', label: 'Unchecked' },
+];
+
+export type ReviewFilter = 'all' | 'reviewed' | 'unreviewed';
+
+export interface TranscriptFilter {
+  /** Case-insensitive text to find in the transcript or its translation. */
+  query: string;
+  /** Roster ids to show; empty shows every speaker. */
+  speakers: string[];
+  /** Verdicts to show; empty shows every verdict. */
+  verdicts: VerdictFilter[];
+  /** Minutes from the start of the session. */
+  fromMinute?: number;
+  toMinute?: number;
+  review: ReviewFilter;
+}
+
+export const EMPTY_FILTER: TranscriptFilter = { query: '', speakers: [], verdicts: [], review: 'all' };
+
+export function isFilterActive(filter: TranscriptFilter): boolean {
+  return filter.query.trim() !== ''
+    || filter.speakers.length > 0
+    || filter.verdicts.length > 0
+    || filter.fromMinute !== undefined
+    || filter.toMinute !== undefined
+    || filter.review !== 'all';
+}
+
+/**
+ * Transcripts matching every active filter, in order. Time ranges are
+ * measured from when the first transcript of `transcripts` was spoken.
+ */
+export function filterTranscripts(transcripts: Transcript[], filter: TranscriptFilter): Transcript[] {
+  if (!isFilterActive(filter)) return transcripts;
+
+  const query = filter.query.trim().toLowerCase();
+  const origin = transcripts.length > 0 ? Math.min(...transcripts.map(t => transcriptSpan(t).start)) : 0;
+  const from = filter.fromMinute !== undefined ? origin + filter.fromMinute * 60_000 : -Infinity;
+  const to = filter.toMinute !== undefined ? origin + filter.toMinute * 60_000 : Infinity;
+
+  return transcripts.filter(t => {
+    if (query && !t.text.toLowerCase().includes(query) && !t.translation?.toLowerCase().includes(query)) return false;
+    if (filter.speakers.length > 0 && !filter.speakers.includes(t.speaker)) return false;
+    if (filter.verdicts.length > 0 && !filter.verdicts.includes(t.factCheck?.verdict ?? 'unchecked')) return false;
+    if (filter.review !== 'all' && isHumanVerdict(t.factCheck) !== (filter.review === 'reviewed')) return false;
+    const start = transcriptSpan(t).start;
+    return start >= from && start <= to;
+  });
+}
+
+/** Splits `text` around case-insensitive occurrences of `query`. */
+export function splitByQuery(text: string, query: string): { text: string; match: boolean }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const parts: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let pos = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, pos)) {
+    if (at > pos) parts.push({ text: text.slice(pos, at), match: false });
+    parts.push({ text: text.slice(at, at + needle.length), match: true });
+    pos = at + needle.length;
+  }
+  if (pos < text.length) parts.push({ text: text.slice(pos), match: false });
+  return parts;
+}
+
+const VERDICT_IDS = new Set<string>(VERDICT_FILTERS.map(v => v.id));
+
+function parseMinute(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const minute = Number(value);
+  return Number.isFinite(minute) && minute >= 0 ? minute : undefined;
+}
+
+/** Reads a filter from `?q=…&speaker=A,B&verdict=False&from=5&to=20&review=reviewed`, ignoring invalid values. */
+export function filterFromSearchParams(params: URLSearchParams): TranscriptFilter {
+  const list = (key: string) => params.get(key)?.split(',').filter(Boolean) ?? [];
+  const review = params.get('review');
+  return {
+    query: params.get('q') ?? '',
+    speakers: list('speaker'),
+    verdicts: list('verdict').filter((v): v is VerdictFilter => VERDICT_IDS.has(v)),
+    fromMinute: parseMinute(params.get('from')),
+    toMinute: parseMinute(params.get('to')),
+    review: review === 'reviewed' || review === 'unreviewed' ? review : 'all',
+  };
+}
+
+/** Writes the active parts of `filter` into `params`, removing the rest. */
+export function writeFilterParams(params: URLSearchParams, filter: TranscriptFilter): void {
+  const set = (key: string, value: string | undefined) => {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  };
+  set('q', filter.query.trim() || undefined);
+  set('speaker', filter.speakers.join(','));
+  set('verdict', filter.verdicts.join(','));
+  set('from', filter.fromMinute?.toString());
+  set('to', filter.toMinute?.toString());
+  set('review', filter.review === 'all' ? undefined : filter.review);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { locateClaim, parsePartialVerdict, parseVerdict } from './verdict-parser';
+
+describe('verdict-parser', () => {
+  it('parses a complete verdict object with surrounding noise', () => {
+    const result = parseVerdict('```json\n{"verdict": "False", "explanation": "It is round.", "confidence": 0.8, "claim": "the earth is flat"}\n```', 'I think the Earth is flat.');
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        verdict: 'False',
+        explanation: 'It is round.',
+        confidence: 0.8,
+        claim: { text: 'the Earth is flat', start: 8, end: 25 },
+      },
+    });
+  });
+
+  it('does not read "not true" in the explanation as a True verdict', () => {
+    const result = parseVerdict('{"verdict": "False", "explanation": "That is not true; it was 1969."}', 'We landed in 1970.');
+    expect(result.ok && result.value.verdict).toBe('False');
+  });
+
+  it('rejects unknown verdicts, missing explanations and malformed JSON', () => {
+    expect(parseVerdict('{"verdict": "Mostly True", "explanation": "x"}', '').ok).toBe(false);
+    expect(parseVerdict('{"verdict": "True"}', '').ok).toBe(false);
+    expect(parseVerdict('{"verdict": "True", "explanation": "x",}', '').ok).toBe(false);
+    expect(parseVerdict('[True] Yes.', '').ok).toBe(false);
+  });
+
+  it('normalizes percentage confidences and drops paraphrased claims', () => {
+    const result = parseVerdict('{"verdict": "True", "explanation": "Yes.", "confidence": 85, "claim": "something else entirely"}', 'Water boils at 100C.');
+    expect(result).toEqual({ ok: true, value: { verdict: 'True', explanation: 'Yes.', confidence: 0.85 } });
+  });
+
+  it('keeps a rewritten claim only when it differs from the spoken one', () => {
+    const resolved = parseVerdict('{"verdict": "False", "explanation": "It fell 10%.", "claim": "he cut it by half", "resolved": " Lee cut the budget by half "}', 'So he cut it by half.');
+    expect(resolved.ok && resolved.value.resolvedClaim).toBe('Lee cut the budget by half');
+
+    const echoed = parseVerdict('{"verdict": "True", "explanation": "Yes.", "claim": "Taxes rose", "resolved": "taxes  rose."}', 'Taxes rose.');
+    expect(echoed.ok && echoed.value.resolvedClaim).toBeUndefined();
+    expect(parseVerdict('{"verdict": "True", "explanation": "Yes.", "resolved": 3}', '').ok).toBe(false);
+  });
+
+  it('reads partial output as it streams', () => {
+    expect(parsePartialVerdict('{"verdict": "Tr')).toEqual({});
+    expect(parsePartialVerdict('{"verdict": "True", "explanation": "Paris is the cap')).toEqual({
+      verdict: 'True',
+      explanation: 'Paris is the cap',
+    });
+    expect(parsePartialVerdict('{"verdict": "Unverified", "explanation": "A \\"quoted\\" wo')).toEqual({
+      verdict: 'Unverified',
+      explanation: 'A "quoted" wo',
+    });
+  });
+
+  it('locates claims case-insensitively without trailing punctuation', () => {
+    expect(locateClaim('Paris is the capital.', 'Well, paris is the capital of France')).toEqual({
+      text: 'paris is the capital',
+      start: 6,
+      end: 26,
+    });
+    expect(locateClaim('', 'anything')).toBeUndefined();
+  });
+});
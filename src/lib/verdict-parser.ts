@@ -0,0 +1,140 @@
+import type { ClaimSpan, FactCheck, Verdict } from '@/types/worker-messages';
+
+export const VERDICTS: Verdict[] = ['True', 'False', 'Unverified', 'NOT_A_CLAIM'];
+
+export type VerdictParseResult =
+  | { ok: true; value: FactCheck }
+  | { ok: false; error: string };
+
+function isVerdict(value: unknown): value is Verdict {
+  return typeof value === 'string' && (VERDICTS as string[]).includes(value);
+}
+
+/**
+ * Reads a (possibly unterminated) JSON string field from streamed output.
+ * Returns the decoded text so far and whether the closing quote was seen.
+ */
+function readStringField(raw: string, key: string): { value: string; complete: boolean } | null {
+  const match = raw.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(")?`));
+  if (!match) return null;
+
+  let value = match[1];
+  // Drop a dangling escape so JSON.parse never sees half a sequence
+  if (!match[2]) value = value.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+
+  try {
+    return { value: JSON.parse(`"${value}"`), complete: !!match[2] };
+  } catch {
+    return { value, complete: !!match[2] };
+  }
+}
+
+/**
+ * Locates the claim inside the source text so the UI can highlight it.
+ * Returns undefined when the model paraphrased instead of quoting.
+ */
+export function locateClaim(claim: string, sourceText: string): ClaimSpan | undefined {
+  const needle = claim.trim().replace(/[.!?]+$/, '');
+  if (!needle) return undefined;
+
+  const start = sourceText.toLowerCase().indexOf(needle.toLowerCase());
+  if (start === -1) return undefined;
+
+  return { text: sourceText.slice(start, start + needle.length), start, end: start + needle.length };
+}
+
+/**
+ * Best-effort view of a verdict object that is still being generated.
+ * Only fields that can already be trusted are returned.
+ */
+export function parsePartialVerdict(raw: string): Partial<FactCheck> {
+  const partial: Partial<FactCheck> = {};
+
+  const verdict = readStringField(raw, 'verdict');
+  if (verdict?.complete && isVerdict(verdict.value)) partial.verdict = verdict.value;
+
+  const explanation = readStringField(raw, 'explanation');
+  if (explanation) partial.explanation = explanation.value;
+
+  const confidence = raw.match(/"confidence"\s*:\s*(\d+(?:\.\d+)?)\s*[,}]/);
+  if (confidence) partial.confidence = normalizeConfidence(Number(confidence[1]));
+
+  return partial;
+}
+
+function normalizeConfidence(value: number): number | undefined {
+  if (!Number.isFinite(value) || value < 0) return undefined;
+  // Models occasionally answer in percent
+  if (value > 1) return value <= 100 ? value / 100 : undefined;
+  return value;
+}
+
+const comparable = (text: string) => text.trim().replace(/[.!?]+$/, '').replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Validates a parsed object against the verdict schema.
+ */
+export function validateVerdict(data: unknown, sourceText: string): VerdictParseResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, error: 'Verdict must be a JSON object' };
+  }
+
+  const obj = data as Record<string, unknown>;
+  if (!isVerdict(obj.verdict)) {
+    return { ok: false, error: `Invalid verdict: ${JSON.stringify(obj.verdict)}` };
+  }
+  if (obj.explanation !== undefined && typeof obj.explanation !== 'string') {
+    return { ok: false, error: 'Explanation must be a string' };
+  }
+  if (obj.verdict !== 'NOT_A_CLAIM' && !(typeof obj.explanation === 'string' && obj.explanation.trim())) {
+    return { ok: false, error: 'Explanation is required for a claim' };
+  }
+  if (obj.confidence !== undefined && typeof obj.confidence !== 'number') {
+    return { ok: false, error: 'Confidence must be a number' };
+  }
+  if (obj.claim !== undefined && typeof obj.claim !== 'string') {
+    return { ok: false, error: 'Claim must be a string' };
+  }
+  if (obj.resolved !== undefined && typeof obj.resolved !== 'string') {
+    return { ok: false, error: 'Resolved claim must be a string' };
+  }
+
+  const value: FactCheck = {
+    verdict: obj.verdict,
+    explanation: obj.verdict === 'NOT_A_CLAIM' ? '' : (obj.explanation as string).trim(),
+  };
+
+  const confidence = typeof obj.confidence === 'number' ? normalizeConfidence(obj.confidence) : undefined;
+  if (confidence !== undefined) value.confidence = confidence;
+
+  const claim = typeof obj.claim === 'string' ? locateClaim(obj.claim, sourceText) : undefined;
+  if (claim && obj.verdict !== 'NOT_A_CLAIM') value.claim = claim;
+
+  // A rewrite that only echoes the claim adds nothing
+  const resolved = typeof obj.resolved === 'string' ? obj.resolved.trim() : '';
+  if (resolved && obj.verdict !== 'NOT_A_CLAIM' && comparable(resolved) !== comparable(typeof obj.claim === 'string' ? obj.claim : sourceText)) {
+    value.resolvedClaim = resolved;
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Extracts the first JSON object from the model output and validates it.
+ */
+export function parseVerdict(raw: string, sourceText: string): VerdictParseResult {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { ok: false, error: 'No JSON object found in model output' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.slice(start, end + 1));
+  } catch (error) {
+    return { ok: false, error: `Malformed JSON: ${(error as Error).message}` };
+  }
+
+  return validateVerdict(data, sourceText);
+}
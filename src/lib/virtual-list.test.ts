@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isAtBottom, rowOffsets, visibleRange } from './virtual-list';
+
+describe('virtual list', () => {
+  it('sums measured heights and estimates the rest', () => {
+    expect(rowOffsets(['a', 'b', 'c'], new Map([['b', 50]]), 100)).toEqual([0, 100, 150, 250]);
+    expect(rowOffsets([], new Map())).toEqual([0]);
+  });
+
+  it('finds the rows overlapping the viewport plus overscan', () => {
+    const offsets = rowOffsets(Array.from({ length: 100 }, (_, i) => `t${i}`), new Map(), 100);
+
+    expect(visibleRange(offsets, 0, 300, 0)).toEqual({ start: 0, end: 3 });
+    expect(visibleRange(offsets, 1050, 300, 0)).toEqual({ start: 10, end: 14 });
+    expect(visibleRange(offsets, 1050, 300, 200)).toEqual({ start: 8, end: 16 });
+    expect(visibleRange(offsets, 9800, 300, 200)).toEqual({ start: 96, end: 100 });
+    expect(visibleRange([0], 0, 300)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('treats the last few pixels as the bottom', () => {
+    expect(isAtBottom(900, 100, 1000)).toBe(true);
+    expect(isAtBottom(850, 100, 1000, 80)).toBe(true);
+    expect(isAtBottom(500, 100, 1000, 80)).toBe(false);
+  });
+});
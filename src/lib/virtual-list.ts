@@ -0,0 +1,46 @@
+/** Height assumed for a row until it has been rendered and measured. */
+export const ESTIMATED_ROW_HEIGHT = 180;
+
+/** Rows are kept mounted this far above and below the viewport, so fast scrolls do not flash empty space. */
+export const OVERSCAN_PX = 800;
+
+/** How close to the bottom still counts as following the live end of the list. */
+export const FOLLOW_THRESHOLD_PX = 80;
+
+/** Rows rendered before the viewport has been measured; the list starts at the live end. */
+export const INITIAL_ROWS = 20;
+
+/** Top of each row and, last, the total height: `keys.length + 1` entries. */
+export function rowOffsets(keys: string[], heights: ReadonlyMap<string, number>, estimate = ESTIMATED_ROW_HEIGHT): number[] {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  keys.forEach((key, i) => {
+    offsets[i + 1] = offsets[i] + (heights.get(key) ?? estimate);
+  });
+  return offsets;
+}
+
+/** First row whose bottom edge is below `y`. */
+function rowAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= y) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/** Rows `[start, end)` that overlap the viewport, widened by `overscan` pixels each way. */
+export function visibleRange(offsets: number[], scrollTop: number, viewportHeight: number, overscan = OVERSCAN_PX): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count === 0) return { start: 0, end: 0 };
+  const start = rowAt(offsets, Math.max(0, scrollTop - overscan));
+  const end = Math.min(rowAt(offsets, scrollTop + viewportHeight + overscan - 1) + 1, count);
+  return { start, end };
+}
+
+export function isAtBottom(scrollTop: number, viewportHeight: number, scrollHeight: number, threshold = FOLLOW_THRESHOLD_PX): boolean {
+  return scrollHeight - scrollTop - viewportHeight <= threshold;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWav } from './wav';
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('encodeWav', () => {
+  it('writes a mono 16-bit PCM header', async () => {
+    const blob = encodeWav(new Float32Array(16000), 16000);
+    const view = new DataView(await readBlob(blob));
+    const tag = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + 32000);
+    expect(tag(0)).toBe('RIFF');
+    expect(tag(8)).toBe('WAVE');
+    expect(tag(36)).toBe('data');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(32000);
+  });
+
+  it('scales and clamps samples', async () => {
+    const view = new DataView(await readBlob(encodeWav(new Float32Array([0, 1, -1, 2, -0.5]), 16000)));
+    const samples = [0, 1, 2, 3, 4].map(i => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([0, 32767, -32768, 32767, -16384]);
+  });
+});
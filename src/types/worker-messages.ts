@@ -1,4 +1,126 @@
-export type WorkerMessageType = 'load' | 'transcribe' | 'fact-check';
+export type InferenceBackend = 'webgpu' | 'wasm';
+
+export type ModelKind = 'stt' | 'llm' | 'embedding' | 'speaker';
+
+/** Registry keys (see `lib/model-registry.ts`) of the models to run. */
+export interface ModelSelection {
+  stt: string;
+  llm: string;
+}
+
+export type Verdict = 'True' | 'False' | 'Unverified' | 'NOT_A_CLAIM';
+
+/**
+ * A claim and its character range within the transcript text.
+ * The range is absent when the claim could not be found verbatim.
+ */
+export interface ClaimSpan {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+/** A knowledge-base passage cited by a verdict explanation as `[ref]`. */
+export interface KnowledgeSource {
+  ref: number;
+  documentId: string;
+  title: string;
+  text: string;
+  score: number;
+}
+
+/** A word (or segment) of a transcription, in seconds from the start of its audio. */
+export interface TranscriptChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** An editor's change to a verdict, kept as an audit trail. */
+export interface VerdictReview {
+  editor: string;
+  at: number;
+  action: 'override' | 'note' | 'revert';
+  /** Verdict and explanation in effect after the change. */
+  verdict: Verdict;
+  explanation: string;
+  note?: string;
+}
+
+/** A transcript preceding the one being fact-checked. */
+export interface ConversationTurn {
+  /** Display name, not roster id, so the model can resolve "he" or "she". */
+  speaker: string;
+  text: string;
+}
+
+/** Recent conversation sent with a fact-check to resolve references to earlier turns. */
+export interface ConversationContext {
+  /** Display name of whoever said the text being checked. */
+  speaker: string;
+  /** Oldest first. */
+  turns: ConversationTurn[];
+}
+
+/** A worked example shown to the model, with the verdict it should give. */
+export interface FewShotExample {
+  input: string;
+  verdict: Verdict;
+  explanation: string;
+  confidence: number;
+  /** The claim copied from the input; empty for NOT_A_CLAIM. */
+  claim: string;
+}
+
+/** Fact-check instructions as data, so they can be edited and swapped per debate (see `lib/prompt-templates.ts`). */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Bumped on every saved change to the prompt. */
+  version: number;
+  /** Presets ship with the app; editing one saves a copy. */
+  builtIn?: boolean;
+  system: string;
+  rules: string[];
+  /** The JSON shape the model is told to answer in. */
+  outputFormat: string;
+  examples: FewShotExample[];
+}
+
+/** Which template, at which version, produced a verdict. */
+export type TemplateRef = Pick<PromptTemplate, 'id' | 'name' | 'version'>;
+
+/** The model's own result, kept while an editor's verdict is shown instead. */
+export type ModelVerdict = Pick<FactCheck, 'verdict' | 'explanation' | 'confidence' | 'downgradedFrom' | 'model' | 'promptVersion' | 'template' | 'checkedAt'>;
+
+export interface FactCheck {
+  verdict: Verdict;
+  explanation: string;
+  /** Probability of the verdict label, 0-1. */
+  confidence?: number;
+  /** Original label when a low-confidence verdict was downgraded to Unverified. */
+  downgradedFrom?: Verdict;
+  claim?: ClaimSpan;
+  /** The claim rewritten to stand on its own, when it relied on earlier turns. */
+  resolvedClaim?: string;
+  /** Per-claim results when a segment contains several claims. */
+  claims?: FactCheck[];
+  sources?: KnowledgeSource[];
+  /** Registry key of the LLM that produced the model's result. */
+  model?: string;
+  /** Version of the fact-check prompts the model was given. */
+  promptVersion?: number;
+  /** Prompt template the model was given. */
+  template?: TemplateRef;
+  /** When the model's result arrived; identifies it in the transcript's history. */
+  checkedAt?: number;
+  /** Present while an editor's verdict overrides the model's. */
+  modelVerdict?: ModelVerdict;
+  /** Editor changes, oldest first. */
+  reviews?: VerdictReview[];
+}
+
+export type WorkerMessageType = 'load' | 'transcribe' | 'transcribe-partial' | 'fact-check' | 'cancel' | 'cancel-all' | 'kb-index' | 'kb-refresh' | 'diarize-override' | 'diarize-reset';
 
 export interface WorkerRequest {
   type: WorkerMessageType;
@@ -6,21 +128,48 @@ export interface WorkerRequest {
     audio?: Float32Array;
     text?: string;
     id?: string;
-    speaker?: 'A' | 'B';
+    /** Roster id of the speaker (see `lib/speakers.ts`). */
+    speaker?: string;
+    models?: Partial<ModelSelection>;
+    document?: { id: string; title: string; type: 'text' | 'markdown' | 'csv' };
+    passages?: string[];
+    /** Also translate non-English speech to English (multilingual STT models only). */
+    translate?: boolean;
+    /** Preceding turns, for claims that refer back to them. */
+    context?: ConversationContext;
+    /** Fact-check instructions; the general preset when absent. */
+    template?: PromptTemplate;
+    /** Verdicts less confident than this are downgraded to Unverified. */
+    confidenceThreshold?: number;
+    /** Assign `speaker` from the voice instead of using the one sent. */
+    diarize?: boolean;
+    /** Roster ids diarization may assign, in order of appearance. */
+    speakers?: string[];
   };
 }
 
-export type WorkerStatus = 'ready' | 'progress' | 'transcription' | 'fact-check-stream' | 'error';
+/** `fact-check-dropped`: the fact-check for `id` was pushed out of a full queue and will not run. */
+export type WorkerStatus = 'ready' | 'progress' | 'transcription' | 'transcription-partial' | 'fact-check-stream' | 'fact-check-dropped' | 'kb-progress' | 'kb-indexed' | 'error';
 
 export interface WorkerResponse {
   status: WorkerStatus;
-  model?: 'stt' | 'llm';
+  model?: ModelKind;
   progress?: number;
   text?: string;
+  chunks?: TranscriptChunk[];
+  /** ISO 639-1 code detected by a multilingual STT model. */
+  language?: string;
+  /** English translation of `text` when translate mode is on. */
+  translation?: string;
   id?: string;
-  speaker?: 'A' | 'B';
+  speaker?: string;
+  /** How sure diarization is of `speaker`, 0-1; absent when it was not diarized. */
+  speakerConfidence?: number;
   error?: string;
   isDone?: boolean;
   busy?: boolean;
-  task?: 'transcribe' | 'fact-check';
+  task?: 'transcribe' | 'transcribe-partial' | 'fact-check' | 'kb-index';
+  backend?: InferenceBackend;
+  models?: ModelSelection;
+  factCheck?: FactCheck;
 }
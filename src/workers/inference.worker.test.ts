@@ -9,14 +9,34 @@ vi.mock('@huggingface/transformers', () => {
       allowLocalModels: true,
       useBrowserCache: true,
     },
-    TextStreamer: vi.fn().mockImplementation(function(tokenizer, options) {
+    TextStreamer: vi.fn().mockImplementation(function(this: any, tokenizer: any, options: any) {
       this.tokenizer = tokenizer;
       this.options = options;
     }),
+    StoppingCriteria: class StoppingCriteria {},
+    LogitsProcessor: class LogitsProcessor {},
+    AutoProcessor: { from_pretrained: vi.fn() },
+    WavLMForXVector: { from_pretrained: vi.fn() },
   };
 });
 
-import { pipeline } from '@huggingface/transformers';
+// IndexedDB is unavailable under jsdom, so keep the knowledge base in memory
+const kbStore = vi.hoisted(() => ({ passages: [] as any[] }));
+vi.mock('../lib/knowledge-base', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/knowledge-base')>();
+  return {
+    ...actual,
+    knowledgeBase: {
+      getAllPassages: vi.fn(async () => kbStore.passages),
+      addDocument: vi.fn(async (_doc: any, passages: any[]) => { kbStore.passages.push(...passages); }),
+    },
+  };
+});
+
+import { pipeline, AutoProcessor, WavLMForXVector } from '@huggingface/transformers';
+import { PROMPT_PRESETS } from '../lib/prompt-templates';
+
+const GENERAL = { id: 'general', name: 'General', version: 1 };
 
 describe('inference.worker', () => {
   let mockPostMessage: any;
@@ -24,6 +44,7 @@ describe('inference.worker', () => {
   beforeEach(async () => {
     vi.resetModules();
     vi.clearAllMocks();
+    kbStore.passages = [];
     mockPostMessage = vi.fn();
     
     // Create a mock self that we can track
@@ -70,69 +91,202 @@ describe('inference.worker', () => {
   });
 
   it('should handle transcribe message', async () => {
-    const mockSTT = vi.fn().mockResolvedValue({ text: 'Hello world' });
+    const mockSTT = vi.fn().mockResolvedValue({
+      text: 'Hello world',
+      chunks: [{ text: ' Hello', timestamp: [0, 0.4] }, { text: ' world', timestamp: [0.4, null] }],
+    });
     (pipeline as any).mockImplementation((type: string) => {
         if (type === 'automatic-speech-recognition') return Promise.resolve(mockSTT);
         return Promise.resolve(vi.fn());
     });
 
     const event = {
-      data: { type: 'transcribe', data: { audio: new Float32Array([0]), id: '123', speaker: 'A' } }
+      data: { type: 'transcribe', data: { audio: new Float32Array(16000), id: '123', speaker: 'A' } }
     } as MessageEvent;
 
     await (self as any).onmessage(event);
 
     await waitForPostMessage('transcription');
 
+    expect(mockSTT).toHaveBeenCalledWith(expect.any(Float32Array), expect.objectContaining({ return_timestamps: 'word' }));
+    // An open-ended last word ends with the audio
     expect(mockPostMessage).toHaveBeenCalledWith({
       status: 'transcription',
       text: 'Hello world',
+      chunks: [{ text: 'Hello', start: 0, end: 0.4 }, { text: 'world', start: 0.4, end: 1 }],
       id: '123',
       speaker: 'A'
     });
   });
 
-  it('should handle fact-check message', async () => {
-    const mockLLM = vi.fn().mockImplementation(async (prompt, options) => {
-      if (options.streamer) {
-        options.streamer.options.callback_function('[VERDICT] True: This is a test.');
-      }
-      return [{ generated_text: '[VERDICT] True: This is a test.' }];
+  it('should diarize segments by voice and follow manual corrections', async () => {
+    const mockSTT = vi.fn().mockResolvedValue({ text: 'Hello world', chunks: [] });
+    (pipeline as any).mockImplementation(() => Promise.resolve(mockSTT));
+    // The fake voice is encoded in the first sample
+    (AutoProcessor.from_pretrained as any).mockResolvedValue(async (audio: Float32Array) => ({ voice: audio[0] }));
+    const mockSpeakerModel = Object.assign(
+      vi.fn(async ({ voice }: any) => ({ embeddings: { data: new Float32Array(voice === 1 ? [1, 0, 0] : [0, 1, 0]) } })),
+      { dispose: vi.fn() }
+    );
+    (WavLMForXVector.from_pretrained as any).mockResolvedValue(mockSpeakerModel);
+
+    const transcribe = async (id: string, voice: number) => {
+      await (self as any).onmessage({
+        data: { type: 'transcribe', data: { audio: new Float32Array(16000).fill(voice), id, speaker: 'B', diarize: true } }
+      });
+      await vi.waitFor(() => {
+        const found = mockPostMessage.mock.calls.find((call: any) => call[0].status === 'transcription' && call[0].id === id);
+        if (!found) throw new Error(`No transcription for ${id}`);
+      });
+      return mockPostMessage.mock.calls.find((call: any) => call[0].status === 'transcription' && call[0].id === id)[0];
+    };
+
+    expect(await transcribe('s1', 1)).toMatchObject({ speaker: 'A', speakerConfidence: 1 });
+    expect(await transcribe('s2', 2)).toMatchObject({ speaker: 'B' });
+    expect(await transcribe('s3', 1)).toMatchObject({ speaker: 'A' });
+    expect(WavLMForXVector.from_pretrained).toHaveBeenCalledTimes(1);
+
+    // The moderator says the first voice is actually B
+    await (self as any).onmessage({ data: { type: 'diarize-override', data: { id: 's1', speaker: 'B' } } });
+    expect(await transcribe('s4', 1)).toMatchObject({ speaker: 'B' });
+    expect(await transcribe('s5', 2)).toMatchObject({ speaker: 'A' });
+
+    await (self as any).onmessage({ data: { type: 'diarize-reset' } });
+    expect(await transcribe('s6', 2)).toMatchObject({ speaker: 'A', speakerConfidence: 1 });
+  });
+
+  it('should keep the sent speaker when diarization fails', async () => {
+    const mockSTT = vi.fn().mockResolvedValue({ text: 'Hello world', chunks: [] });
+    (pipeline as any).mockImplementation(() => Promise.resolve(mockSTT));
+    (AutoProcessor.from_pretrained as any).mockRejectedValue(new Error('offline'));
+    (WavLMForXVector.from_pretrained as any).mockRejectedValue(new Error('offline'));
+
+    await (self as any).onmessage({
+      data: { type: 'transcribe', data: { audio: new Float32Array(16000), id: 'x', speaker: 'B', diarize: true } }
+    });
+    await waitForPostMessage('transcription');
+
+    const message = mockPostMessage.mock.calls.find((call: any) => call[0].status === 'transcription')[0];
+    expect(message.speaker).toBe('B');
+    expect(message).not.toHaveProperty('speakerConfidence');
+  });
+
+  it('should fall back to segment timestamps when words cannot be aligned', async () => {
+    const mockSTT = vi.fn(async (_audio: any, options: any) => {
+      if (options.return_timestamps === 'word') throw new Error('Model outputs must contain cross attentions');
+      return { text: 'Hello world', chunks: [{ text: ' Hello world', timestamp: [0, 1.2] }] };
     });
-    
     (pipeline as any).mockImplementation((type: string) => {
-        if (type === 'text-generation') return Promise.resolve(mockLLM);
+        if (type === 'automatic-speech-recognition') return Promise.resolve(mockSTT);
         return Promise.resolve(vi.fn());
     });
 
+    const send = (id: string) => (self as any).onmessage({
+      data: { type: 'transcribe', data: { audio: new Float32Array([0]), id, speaker: 'A' } }
+    } as MessageEvent);
+
+    await send('1');
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'transcription', id: '1' })));
+    await send('2');
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'transcription', id: '2' })));
+
+    expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({
+      id: '2',
+      chunks: [{ text: 'Hello world', start: 0, end: 1.2 }],
+    }));
+    // Word alignment is only attempted once per model
+    expect(mockSTT.mock.calls.map(call => call[1].return_timestamps)).toEqual(['word', true, true]);
+  });
+
+  const mockLLMOutputs = (...outputs: string[]) => {
+    const mockLLM = vi.fn();
+    outputs.forEach(output => {
+      mockLLM.mockImplementationOnce(async (prompt: string, options: any) => {
+        // Stream in small pieces to exercise the incremental parser
+        for (let i = 0; options.streamer && i < output.length; i += 8) {
+          options.streamer.options.callback_function(output.slice(i, i + 8));
+        }
+        return [{ generated_text: output }];
+      });
+    });
+    (pipeline as any).mockImplementation((type: string) => {
+      if (type === 'text-generation') return Promise.resolve(mockLLM);
+      return Promise.resolve(vi.fn());
+    });
+    return mockLLM;
+  };
+
+  it('should handle fact-check message', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["Statement is true"]',
+      '{"verdict": "True", "explanation": "This is a test.", "confidence": 0.9, "claim": "Statement is true"}',
+    );
+
     const event = {
-      data: { type: 'fact-check', data: { text: 'Statement', id: '123' } }
+      data: { type: 'fact-check', data: { text: 'Statement is true here.', id: '123' } }
     } as MessageEvent;
 
     await (self as any).onmessage(event);
 
     await waitForPostMessage('fact-check-stream');
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ isDone: true })));
 
-    expect(mockLLM).toHaveBeenCalled();
+    expect(mockLLM).toHaveBeenCalledTimes(2);
+    expect(mockLLM.mock.calls[0][0]).toContain('Extract the claims from: "Statement is true here."');
+    expect(mockLLM.mock.calls[1][0]).toContain('Check the claim: "Statement is true"');
     expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({
       status: 'fact-check-stream',
       id: '123',
-      text: expect.stringContaining('VERDICT')
+      isDone: false,
+      factCheck: expect.objectContaining({ verdict: 'True' }),
     }));
-  });
 
-  it('should handle non-claim fact-check message', async () => {
-    const mockLLM = vi.fn().mockImplementation(async (prompt, options) => {
-      if (options.streamer) {
-        options.streamer.options.callback_function('[NOT_A_CLAIM]');
-      }
-      return [{ generated_text: '[NOT_A_CLAIM]' }];
+    const claim = {
+      verdict: 'True',
+      explanation: 'This is a test.',
+      confidence: 0.9,
+      claim: { text: 'Statement is true', start: 0, end: 17 },
+    };
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      status: 'fact-check-stream',
+      id: '123',
+      isDone: true,
+      factCheck: { ...claim, claims: [claim], model: 'phi-3-mini', promptVersion: 2, template: GENERAL },
     });
+  });
 
-    (pipeline as any).mockImplementation((type: string) => {
-        if (type === 'text-generation') return Promise.resolve(mockLLM);
-        return Promise.resolve(vi.fn());
+  it('should check every extracted claim separately', async () => {
+    mockLLMOutputs(
+      '["Paris is the capital of France", "it has 20 million people"]',
+      '{"verdict": "True", "explanation": "Correct.", "confidence": 0.95}',
+      '{"verdict": "False", "explanation": "About 2 million live in Paris.", "confidence": 0.7}',
+    );
+
+    const text = 'Paris is the capital of France and it has 20 million people.';
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text, id: 'multi' } } } as MessageEvent);
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ isDone: true })));
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      status: 'fact-check-stream',
+      id: 'multi',
+      isDone: true,
+      factCheck: {
+        verdict: 'False',
+        explanation: '2 claims: 1 false, 1 true.',
+        confidence: 0.7,
+        claims: [
+          { verdict: 'True', explanation: 'Correct.', confidence: 0.95, claim: { text: 'Paris is the capital of France', start: 0, end: 30 } },
+          { verdict: 'False', explanation: 'About 2 million live in Paris.', confidence: 0.7, claim: { text: 'it has 20 million people', start: 35, end: 59 } },
+        ],
+        model: 'phi-3-mini',
+        promptVersion: 2,
+        template: GENERAL,
+      },
     });
+  });
+
+  it('should handle non-claim fact-check message', async () => {
+    const mockLLM = mockLLMOutputs('[]');
 
     const event = {
       data: { type: 'fact-check', data: { text: 'Hello', id: '123' } }
@@ -140,14 +294,213 @@ describe('inference.worker', () => {
 
     await (self as any).onmessage(event);
 
-    await waitForPostMessage('fact-check-stream');
-
-    expect(mockPostMessage).toHaveBeenCalledWith({
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith({
       status: 'fact-check-stream',
-      text: 'NOT_A_CLAIM',
+      factCheck: { verdict: 'NOT_A_CLAIM', explanation: '', model: 'phi-3-mini', promptVersion: 2, template: GENERAL },
       id: '123',
       isDone: true
+    }));
+    expect(mockLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve references from the conversation and keep the rewritten claim', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["he cut it by half"]',
+      '{"verdict": "False", "explanation": "The budget fell by 10%.", "claim": "he cut it by half", "resolved": "Governor Lee cut the school budget by half"}',
+    );
+    const context = {
+      speaker: 'Moderator',
+      turns: [{ speaker: 'Governor Lee', text: 'I changed the school budget last year.' }],
+    };
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'So he cut it by half.', id: 'ctx', context } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'ctx', isDone: true })));
+
+    const prompt = mockLLM.mock.calls[1][0];
+    expect(prompt).toContain('Governor Lee: "I changed the school budget last year."');
+    expect(prompt).toContain('The input was said by Moderator');
+    expect(prompt).toContain('"resolved"');
+    expect(mockLLM.mock.calls[0][0]).toContain('Governor Lee: "I changed the school budget last year."');
+
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'ctx' && c[0].isDone)[0];
+    expect(final.factCheck.resolvedClaim).toBe('Governor Lee cut the school budget by half');
+    expect(final.factCheck.claims[0].resolvedClaim).toBe('Governor Lee cut the school budget by half');
+  });
+
+  it('should extract a claim that only makes sense with the previous turns', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["That number is wrong"]',
+      '{"verdict": "True", "explanation": "Unemployment is near 4%, not 3%.", "claim": "That number is wrong", "resolved": "Unemployment is not at 3%"}',
+    );
+    const context = {
+      speaker: 'Sam',
+      turns: [{ speaker: 'Alex', text: 'Unemployment is at 3%.' }],
+    };
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'That number is wrong.', id: 'ref', context } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'ref', isDone: true })));
+
+    expect(mockLLM.mock.calls[0][0]).toContain('Alex: "Unemployment is at 3%."');
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'ref' && c[0].isDone)[0];
+    expect(final.factCheck.verdict).toBe('True');
+    expect(final.factCheck.resolvedClaim).toBe('Unemployment is not at 3%');
+  });
+
+  it('should judge with the template sent and record its version', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["The Senate has 100 members"]',
+      '{"verdict": "True", "explanation": "Two per state.", "claim": "The Senate has 100 members"}',
+    );
+    const template = {
+      ...PROMPT_PRESETS.find(t => t.id === 'politics')!,
+      id: 'custom-civics',
+      name: 'Civics',
+      version: 4,
+      rules: ['Cite the constitution where you can.'],
+      examples: [],
+    };
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'The Senate has 100 members.', id: 'tpl', template } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'tpl', isDone: true })));
+
+    const prompt = mockLLM.mock.calls[1][0];
+    expect(prompt).toContain('You are a real-time fact-checker for political debates.');
+    expect(prompt).toContain('STRICT RULES:\n1. Cite the constitution where you can.');
+    expect(prompt).not.toContain('Examples:');
+
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'tpl' && c[0].isDone)[0];
+    expect(final.factCheck.template).toEqual({ id: 'custom-civics', name: 'Civics', version: 4 });
+  });
+
+  it('should check the whole segment when claim extraction is unusable', async () => {
+    const mockLLM = mockLLMOutputs(
+      'Here are the claims: none really',
+      '{"verdict": "Unverified", "explanation": "Cannot tell."}',
+    );
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'Our budget doubled.', id: 'fb' } } } as MessageEvent);
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'fb', isDone: true })));
+    expect(mockLLM.mock.calls[1][0]).toContain('Check the claim: "Our budget doubled."');
+    expect(mockLLM.mock.calls[1][0]).not.toContain('Conversation so far');
+  });
+
+  it('should retry once with a pre-filled prompt on malformed output', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["The Moon is made of cheese"]',
+      'Sure! The verdict is true.',
+      'False", "explanation": "The Moon is not made of cheese."}',
+    );
+
+    await (self as any).onmessage({
+      data: { type: 'fact-check', data: { text: 'The Moon is made of cheese.', id: 'r1' } }
+    } as MessageEvent);
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'fact-check-stream',
+      factCheck: expect.objectContaining({ verdict: 'False', explanation: 'The Moon is not made of cheese.' }),
+      id: 'r1',
+      isDone: true
+    })));
+    expect(mockLLM).toHaveBeenCalledTimes(3);
+    expect(mockLLM.mock.calls[2][0]).toMatch(/not valid JSON[\s\S]*\{"verdict": "$/);
+  });
+
+  it('should report an error when the retry is malformed too', async () => {
+    mockLLMOutputs('["Some claim here"]', 'not json', '???');
+
+    await (self as any).onmessage({
+      data: { type: 'fact-check', data: { text: 'Some claim here.', id: 'r2' } }
+    } as MessageEvent);
+
+    await waitForPostMessage('error');
+    expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'error',
+      id: 'r2',
+      task: 'fact-check',
+      error: expect.stringContaining('invalid verdict'),
+    }));
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ isDone: true }));
+  });
+
+  it('should drop queued duplicates and cancelled fact-checks', async () => {
+    let release!: () => void;
+    const prompts: string[] = [];
+    const mockLLM = vi.fn().mockImplementation(async (prompt: string, options: any) => {
+      prompts.push(prompt);
+      if (prompts.length === 1) await new Promise<void>(resolve => { release = resolve; });
+      if (!options.streamer) return [{ generated_text: '["A claim"]' }];
+      const output = '{"verdict": "True", "explanation": "Ok."}';
+      options.streamer.options.callback_function(output);
+      return [{ generated_text: output }];
     });
+    (pipeline as any).mockImplementation((type: string) => {
+      if (type === 'text-generation') return Promise.resolve(mockLLM);
+      return Promise.resolve(vi.fn());
+    });
+
+    const send = (data: any) => (self as any).onmessage({ data } as MessageEvent);
+    await send({ type: 'fact-check', data: { text: 'First claim here.', id: 'a' } });
+    await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+    await send({ type: 'fact-check', data: { text: 'Second claim here.', id: 'b' } });
+    await send({ type: 'fact-check', data: { text: 'Second claim, now longer.', id: 'b' } });
+    await send({ type: 'fact-check', data: { text: 'Third claim here.', id: 'c' } });
+    await send({ type: 'cancel', data: { id: 'c' } });
+    release();
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'b', isDone: true })));
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith({ status: 'ready', busy: false }));
+
+    expect(prompts.filter(p => p.includes('Second claim here.'))).toHaveLength(0);
+    expect(prompts.filter(p => p.includes('Second claim, now longer.'))).toHaveLength(1);
+    expect(prompts.filter(p => p.includes('Third claim'))).toHaveLength(0);
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'c' }));
+  });
+
+  it('should report fact-checks dropped from a full queue', async () => {
+    let release!: () => void;
+    const mockLLM = vi.fn().mockImplementation(async () => {
+      if (mockLLM.mock.calls.length === 1) await new Promise<void>(resolve => { release = resolve; });
+      return [{ generated_text: '[]' }];
+    });
+    (pipeline as any).mockImplementation(() => Promise.resolve(mockLLM));
+
+    const send = (id: string) => (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'Some claim.', id } } } as MessageEvent);
+    await send('running');
+    await vi.waitFor(() => expect(mockLLM).toHaveBeenCalledTimes(1));
+    for (let i = 0; i < 11; i++) await send(`q${i}`);
+
+    expect(mockPostMessage).toHaveBeenCalledWith({ status: 'fact-check-dropped', id: 'q0' });
+    expect(mockPostMessage.mock.calls.filter((c: any) => c[0].status === 'fact-check-dropped')).toHaveLength(1);
+    release();
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'q10', isDone: true })));
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'q0', isDone: true }));
+  });
+
+  it('should abort the running generation on cancel', async () => {
+    let stopped: boolean[] = [];
+    const mockLLM = vi.fn().mockImplementation(async (prompt: string, options: any) => {
+      if (!options.streamer) return [{ generated_text: '["First claim", "Second claim"]' }];
+      options.streamer.options.callback_function('{"verdict": "False", "expl');
+      await (self as any).onmessage({ data: { type: 'cancel-all' } } as MessageEvent);
+      stopped = options.stopping_criteria._call([[1, 2, 3]]);
+      options.streamer.options.callback_function('anation": "Too late."}');
+      return [{ generated_text: '' }];
+    });
+    (pipeline as any).mockImplementation((type: string) => {
+      if (type === 'text-generation') return Promise.resolve(mockLLM);
+      return Promise.resolve(vi.fn());
+    });
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'First claim and Second claim.', id: 'x' } } } as MessageEvent);
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith({ status: 'ready', busy: false }));
+    expect(stopped).toEqual([true]);
+    // Extraction plus the first claim only; the second claim is never checked
+    expect(mockLLM).toHaveBeenCalledTimes(2);
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'x', isDone: true }));
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ status: 'error' }));
   });
 
   it('should handle errors', async () => {
@@ -166,4 +519,375 @@ describe('inference.worker', () => {
       error: 'Failed to load'
     });
   });
+
+  it('should fall back to the WASM backend when WebGPU is unavailable', async () => {
+    vi.resetModules();
+    vi.stubGlobal('navigator', {});
+    await import('./inference.worker');
+
+    (pipeline as any).mockResolvedValue(vi.fn());
+
+    await (self as any).onmessage({ data: { type: 'load' } } as MessageEvent);
+
+    await waitForPostMessage('ready');
+
+    expect(pipeline).toHaveBeenCalledWith('automatic-speech-recognition', 'onnx-community/whisper-tiny.en', expect.objectContaining({ device: 'wasm', dtype: 'q8' }));
+    expect(pipeline).toHaveBeenCalledWith('text-generation', 'HuggingFaceTB/SmolLM2-360M-Instruct', expect.objectContaining({ device: 'wasm' }));
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      status: 'ready',
+      backend: 'wasm',
+      models: { stt: 'whisper-tiny-en-cpu', llm: 'smollm2-360m' },
+    });
+  });
+
+  it('should fall back to the WASM backend when no GPU adapter is found', async () => {
+    vi.resetModules();
+    vi.stubGlobal('navigator', { gpu: { requestAdapter: vi.fn().mockResolvedValue(null) } });
+    await import('./inference.worker');
+
+    (pipeline as any).mockResolvedValue(vi.fn());
+
+    await (self as any).onmessage({ data: { type: 'load' } } as MessageEvent);
+
+    await waitForPostMessage('ready');
+
+    expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'ready', backend: 'wasm' }));
+  });
+
+  it('should load the models selected in the load request', async () => {
+    (pipeline as any).mockResolvedValue(vi.fn());
+
+    await (self as any).onmessage({
+      data: { type: 'load', data: { models: { stt: 'whisper-base-en', llm: 'qwen2.5-0.5b' } } }
+    } as MessageEvent);
+
+    await waitForPostMessage('ready');
+
+    expect(pipeline).toHaveBeenCalledWith('automatic-speech-recognition', 'onnx-community/whisper-base.en', expect.objectContaining({ device: 'webgpu' }));
+    expect(pipeline).toHaveBeenCalledWith('text-generation', 'onnx-community/Qwen2.5-0.5B-Instruct', expect.objectContaining({ device: 'webgpu', dtype: 'q4f16' }));
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      status: 'ready',
+      backend: 'webgpu',
+      models: { stt: 'whisper-base-en', llm: 'qwen2.5-0.5b' },
+    });
+  });
+
+  it('should dispose the old pipeline and report progress when switching models', async () => {
+    const oldLLM = Object.assign(vi.fn(), { dispose: vi.fn() });
+    const newLLM = vi.fn();
+    (pipeline as any).mockImplementation((type: string, model: string, options: any) => {
+      if (type === 'text-generation' && model === 'onnx-community/Qwen2.5-0.5B-Instruct') {
+        options.progress_callback({ status: 'progress', progress: 42 });
+        return Promise.resolve(newLLM);
+      }
+      if (type === 'text-generation') return Promise.resolve(oldLLM);
+      return Promise.resolve(vi.fn());
+    });
+
+    await (self as any).onmessage({ data: { type: 'load' } } as MessageEvent);
+    await waitForPostMessage('ready');
+    mockPostMessage.mockClear();
+
+    await (self as any).onmessage({ data: { type: 'load', data: { models: { llm: 'qwen2.5-0.5b' } } } } as MessageEvent);
+    await waitForPostMessage('ready');
+
+    expect(oldLLM.dispose).toHaveBeenCalled();
+    expect(mockPostMessage).toHaveBeenCalledWith({ status: 'progress', model: 'llm', progress: 42, backend: 'webgpu' });
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ status: 'progress', model: 'stt' }));
+  });
+
+  // Embeds "Paris"-flavoured text along one axis and everything else along the other
+  const mockExtractor = vi.fn(async (texts: string[]) => ({
+    dims: [texts.length, 2],
+    data: new Float32Array(texts.flatMap(t => /paris/i.test(t) ? [1, 0] : [0, 1])),
+  }));
+
+  it('should index documents and cite retrieved passages', async () => {
+    const mockLLM = mockLLMOutputs(
+      '["Paris is the capital of France"]',
+      '{"verdict": "True", "explanation": "Confirmed by [1].", "claim": "Paris is the capital of France"}',
+    );
+    (pipeline as any).mockImplementation((type: string) => {
+      if (type === 'feature-extraction') return Promise.resolve(mockExtractor);
+      if (type === 'text-generation') return Promise.resolve(mockLLM);
+      return Promise.resolve(vi.fn());
+    });
+
+    await (self as any).onmessage({ data: {
+      type: 'kb-index',
+      data: {
+        document: { id: 'doc1', title: 'Atlas', type: 'text' },
+        passages: ['Paris is the capital of France.', 'Berlin is in Germany.'],
+      },
+    } } as MessageEvent);
+
+    await waitForPostMessage('kb-indexed');
+    expect(mockPostMessage).toHaveBeenCalledWith({ status: 'kb-progress', id: 'doc1', progress: 100 });
+    expect(mockPostMessage).toHaveBeenCalledWith({ status: 'kb-indexed', id: 'doc1' });
+    expect(kbStore.passages).toHaveLength(2);
+
+    await (self as any).onmessage({ data: {
+      type: 'fact-check', data: { text: 'Paris is the capital of France.', id: 'fc1' },
+    } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'fc1', isDone: true })));
+
+    const prompt = mockLLM.mock.calls[1][0];
+    expect(prompt).toContain('[1] (Atlas) Paris is the capital of France.');
+    expect(prompt).not.toContain('Berlin');
+
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'fc1' && c[0].isDone)[0];
+    expect(final.factCheck.sources).toEqual([
+      expect.objectContaining({ ref: 1, documentId: 'doc1', title: 'Atlas', text: 'Paris is the capital of France.' }),
+    ]);
+  });
+
+  it('should skip retrieval when the knowledge base is empty', async () => {
+    const mockLLM = mockLLMOutputs('["Claim"]', '{"verdict": "Unverified", "explanation": "Unknown."}');
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'Claim.', id: 'fc2' } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'fc2', isDone: true })));
+
+    expect(pipeline).not.toHaveBeenCalledWith('feature-extraction', expect.anything(), expect.anything());
+    expect(mockLLM.mock.calls[1][0]).not.toContain('[1]');
+  });
+
+  it('should check without passages when retrieval fails', async () => {
+    kbStore.passages = [{ id: 'doc1:0', documentId: 'doc1', title: 'Atlas', index: 0, text: 'Paris is the capital of France.', embedding: new Float32Array([1, 0]) }];
+    const mockLLM = mockLLMOutputs('["Claim"]', '{"verdict": "Unverified", "explanation": "Unknown."}');
+    const failingExtractor = vi.fn().mockRejectedValue(new Error('Embedding model failed to load'));
+    (pipeline as any).mockImplementation((type: string) =>
+      Promise.resolve(type === 'feature-extraction' ? failingExtractor : mockLLM)
+    );
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'Claim.', id: 'fc3' } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'fc3', isDone: true })));
+
+    expect(failingExtractor).toHaveBeenCalled();
+    expect(mockLLM.mock.calls[1][0]).not.toContain('[1]');
+    expect(mockPostMessage).not.toHaveBeenCalledWith(expect.objectContaining({ status: 'error' }));
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'fc3' && c[0].isDone)[0];
+    expect(final.factCheck).toEqual(expect.objectContaining({ verdict: 'Unverified' }));
+    expect(final.factCheck.sources).toBeUndefined();
+  });
+
+  // Prefill is 2 tokens; labels True/False/Unverified/NOT_A_CLAIM start with ids 0-3
+  const mockLabelTokenizer = () => {
+    const labelIds: Record<string, number> = { True: 0, False: 1, Unverified: 2, NOT_A_CLAIM: 3 };
+    const vocab: Record<number, string> = { 10: '{"verdict": ', 11: '"', 12: '"True', 0: 'True' };
+    return {
+      encode: vi.fn((text: string) => {
+        const label = text.replace('{"verdict": "', '');
+        return label ? [10, 11, labelIds[label]] : [10, 11];
+      }),
+      decode: vi.fn((ids: bigint[]) => ids.map(id => vocab[Number(id)]).join('')),
+    };
+  };
+
+  /**
+   * Generates `tokens` after a three-token prompt, handing the logits of each
+   * step to the generation's logits processors, then streams `output`.
+   */
+  const mockGeneration = (tokens: number[], logits: number[][], output: string) => async (_prompt: string, options: any) => {
+    const ids = [BigInt(1), BigInt(2), BigInt(3)];
+    logits.forEach((data, step) => {
+      options.logits_processor?.forEach((processor: any) => processor._call([ids], { dims: [1, 4], data }));
+      ids.push(BigInt(tokens[step]));
+    });
+    options.streamer.options.callback_function(output);
+    return [{ generated_text: output }];
+  };
+
+  // Favours True over False over the rest
+  const TRUE_LOGITS = [Math.log(6), Math.log(2), Math.log(1), Math.log(1)];
+  const FALSE_LOGITS = [Math.log(1), Math.log(8), Math.log(1), Math.log(0.5)];
+
+  it('should score the verdict label from the logits of its own generation', async () => {
+    const mockLLM: any = mockLLMOutputs('["The sky is green"]');
+    mockLLM.tokenizer = mockLabelTokenizer();
+    mockLLM.mockImplementationOnce(mockGeneration(
+      [10, 11, 0],
+      [FALSE_LOGITS, FALSE_LOGITS, TRUE_LOGITS],
+      '{"verdict": "True", "explanation": "Sure.", "confidence": 0.99, "claim": "The sky is green"}',
+    ));
+
+    await (self as any).onmessage({ data: {
+      type: 'fact-check', data: { text: 'The sky is green.', id: 'c1', confidenceThreshold: 0.7 },
+    } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'c1', isDone: true })));
+
+    // No forward pass of its own
+    expect(mockLLM).toHaveBeenCalledTimes(2);
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'c1' && c[0].isDone)[0];
+    expect(final.factCheck.verdict).toBe('Unverified');
+    expect(final.factCheck.downgradedFrom).toBe('True');
+    expect(final.factCheck.confidence).toBeCloseTo(0.6);
+  });
+
+  it('should score a retried verdict from the pre-filled generation that produced it', async () => {
+    const mockLLM: any = mockLLMOutputs('["The sky is green"]');
+    mockLLM.tokenizer = mockLabelTokenizer();
+    mockLLM.mockImplementationOnce(mockGeneration([10, 11], [FALSE_LOGITS, FALSE_LOGITS], 'Sure thing!'));
+    mockLLM.mockImplementationOnce(mockGeneration(
+      [0],
+      [TRUE_LOGITS],
+      'True", "explanation": "Sure.", "confidence": 0.99, "claim": "The sky is green"}',
+    ));
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'The sky is green.', id: 'c3' } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'c3', isDone: true })));
+
+    expect(mockLLM.mock.calls[2][0]).toMatch(/\{"verdict": "$/);
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'c3' && c[0].isDone)[0];
+    expect(final.factCheck).toEqual(expect.objectContaining({ verdict: 'True' }));
+    expect(final.factCheck.confidence).toBeCloseTo(0.6);
+  });
+
+  it('should keep the self-reported confidence when the label comes with its quote', async () => {
+    const mockLLM: any = mockLLMOutputs('["The sky is blue"]');
+    mockLLM.tokenizer = mockLabelTokenizer();
+    mockLLM.mockImplementationOnce(mockGeneration(
+      [10, 12, 11],
+      [TRUE_LOGITS, TRUE_LOGITS, TRUE_LOGITS],
+      '{"verdict": "True", "explanation": "Yes.", "confidence": 0.8, "claim": "The sky is blue"}',
+    ));
+
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'The sky is blue.', id: 'c4' } } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'c4', isDone: true })));
+
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'c4' && c[0].isDone)[0];
+    expect(final.factCheck).toEqual(expect.objectContaining({ verdict: 'True', confidence: 0.8 }));
+  });
+
+  it('should keep the self-reported confidence when logits are unavailable', async () => {
+    mockLLMOutputs(
+      '["The sky is blue"]',
+      '{"verdict": "True", "explanation": "Yes.", "confidence": 0.8, "claim": "The sky is blue"}',
+    );
+
+    await (self as any).onmessage({ data: {
+      type: 'fact-check', data: { text: 'The sky is blue.', id: 'c2', confidenceThreshold: 0.7 },
+    } } as MessageEvent);
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ id: 'c2', isDone: true })));
+
+    const final = mockPostMessage.mock.calls.find((c: any) => c[0].id === 'c2' && c[0].isDone)[0];
+    expect(final.factCheck).toEqual(expect.objectContaining({ verdict: 'True', confidence: 0.8 }));
+  });
+
+  it('should run interim transcriptions behind final ones and keep only the newest', async () => {
+    const mockSTT = vi.fn().mockResolvedValue({ text: 'later' });
+    const blockNextCall = () => {
+      let release: () => void = () => {};
+      mockSTT.mockImplementationOnce(() => new Promise(resolve => { release = () => resolve({ text: 'first' }); }));
+      return () => release();
+    };
+    (pipeline as any).mockImplementation((type: string) => {
+      if (type === 'automatic-speech-recognition') return Promise.resolve(mockSTT);
+      return Promise.resolve(vi.fn());
+    });
+
+    const send = (type: string, id: string, audio: number) =>
+      (self as any).onmessage({ data: { type, data: { audio: new Float32Array([audio]), id, speaker: 'A' } } } as MessageEvent);
+    const audioOrder = () => mockSTT.mock.calls.map(call => call[0][0]);
+
+    let release = blockNextCall();
+    await send('transcribe', 'u0', 0);
+    await vi.waitFor(() => expect(mockSTT).toHaveBeenCalledTimes(1));
+
+    // While u0 is running: two partials for u1 (only the newest survives), then a final u2
+    await send('transcribe-partial', 'u1', 1);
+    await send('transcribe-partial', 'u1', 2);
+    await send('transcribe', 'u2', 3);
+    release();
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith({ status: 'transcription-partial', text: 'later', id: 'u1', speaker: 'A' }));
+    expect(audioOrder()).toEqual([0, 3, 2]);
+
+    // A partial superseded by its own final transcription is dropped
+    release = blockNextCall();
+    await send('transcribe', 'u3', 4);
+    await vi.waitFor(() => expect(mockSTT).toHaveBeenCalledTimes(4));
+    await send('transcribe-partial', 'u4', 5);
+    await send('transcribe', 'u4', 6);
+    release();
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'transcription', id: 'u4' })));
+    expect(audioOrder()).toEqual([0, 3, 2, 4, 6]);
+  });
+
+  it('should run interim transcriptions ahead of queued fact-checks', async () => {
+    const order: string[] = [];
+    let release: () => void = () => {};
+    const mockSTT = vi.fn(async () => { order.push('stt'); return { text: 'later' }; });
+    mockSTT.mockImplementationOnce(() => new Promise(resolve => { release = () => resolve({ text: 'first' }); }));
+    const mockLLM = vi.fn(async () => { order.push('llm'); return [{ generated_text: '[]' }]; });
+    (pipeline as any).mockImplementation((type: string) =>
+      Promise.resolve(type === 'text-generation' ? mockLLM : mockSTT)
+    );
+
+    await (self as any).onmessage({ data: { type: 'transcribe', data: { audio: new Float32Array([0]), id: 'u0', speaker: 'A' } } });
+    await vi.waitFor(() => expect(mockSTT).toHaveBeenCalledTimes(1));
+
+    // Both arrive while u0 is being transcribed; the fact-check came first
+    await (self as any).onmessage({ data: { type: 'fact-check', data: { text: 'Claim.', id: 'u0' } } });
+    await (self as any).onmessage({ data: { type: 'transcribe-partial', data: { audio: new Float32Array([1]), id: 'u1', speaker: 'A' } } });
+    release();
+
+    await vi.waitFor(() => expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({ status: 'fact-check-stream', id: 'u0', isDone: true })));
+    expect(order).toEqual(['stt', 'llm']);
+  });
+
+  const mockMultilingualSTT = (languageTokenId: number) => {
+    const stt: any = vi.fn(async (_audio: any, options: any) => (
+      options.task === 'translate'
+        ? { text: ' Taxes went up.' }
+        : { text: ' Los impuestos subieron.', chunks: [{ text: ' Los impuestos subieron.', timestamp: [0, 1.5] }] }
+    ));
+    stt.processor = vi.fn(async () => ({ input_features: 'features' }));
+    stt.model = {
+      generation_config: { lang_to_id: { '<|en|>': 50259, '<|es|>': 50262 }, decoder_start_token_id: 50258 },
+      generate: vi.fn(async () => ({ tolist: () => [[BigInt(50258), BigInt(languageTokenId)]] })),
+    };
+    (pipeline as any).mockImplementation((type: string) => Promise.resolve(type === 'automatic-speech-recognition' ? stt : vi.fn()));
+    return stt;
+  };
+
+  it('should detect the language and translate with a multilingual model', async () => {
+    const stt = mockMultilingualSTT(50262);
+    await (self as any).onmessage({ data: { type: 'load', data: { models: { stt: 'whisper-tiny' } } } } as MessageEvent);
+    await waitForPostMessage('ready');
+
+    await (self as any).onmessage({
+      data: { type: 'transcribe', data: { audio: new Float32Array(16000), id: 'm1', speaker: 'B', translate: true } }
+    } as MessageEvent);
+    await waitForPostMessage('transcription');
+
+    expect(stt.model.generate).toHaveBeenCalledWith(expect.objectContaining({ decoder_input_ids: [50258], max_new_tokens: 1 }));
+    expect(stt).toHaveBeenCalledWith(expect.any(Float32Array), expect.objectContaining({ language: 'es', task: 'transcribe' }));
+    expect(stt).toHaveBeenCalledWith(expect.any(Float32Array), expect.objectContaining({ language: 'es', task: 'translate' }));
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      status: 'transcription',
+      text: ' Los impuestos subieron.',
+      chunks: [{ text: 'Los impuestos subieron.', start: 0, end: 1.5 }],
+      language: 'es',
+      translation: 'Taxes went up.',
+      id: 'm1',
+      speaker: 'B',
+    });
+  });
+
+  it('should not translate English speech', async () => {
+    const stt = mockMultilingualSTT(50259);
+    await (self as any).onmessage({ data: { type: 'load', data: { models: { stt: 'whisper-tiny' } } } } as MessageEvent);
+    await waitForPostMessage('ready');
+
+    await (self as any).onmessage({
+      data: { type: 'transcribe', data: { audio: new Float32Array(16000), id: 'm2', speaker: 'A', translate: true } }
+    } as MessageEvent);
+    await waitForPostMessage('transcription');
+
+    expect(stt).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ task: 'translate' }));
+    const result = mockPostMessage.mock.calls.find((c: any) => c[0].status === 'transcription')[0];
+    expect(result.language).toBe('en');
+    expect(result.translation).toBeUndefined();
+  });
 });
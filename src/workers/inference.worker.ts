@@ -1,104 +1,481 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { pipeline, env, TextStreamer } from '@huggingface/transformers';
-import { WorkerRequest, WorkerResponse } from '../types/worker-messages';
+import { pipeline, env, TextStreamer, StoppingCriteria, LogitsProcessor, AutoProcessor, WavLMForXVector } from '@huggingface/transformers';
+import { ConversationContext, FactCheck, InferenceBackend, ModelKind, TranscriptChunk, WorkerRequest, WorkerResponse } from '../types/worker-messages';
+import { SAMPLE_RATE } from '../lib/constants';
+import { ModelEntry, PromptFormat, resolveModel } from '../lib/model-registry';
+import { locateClaim, parsePartialVerdict, parseVerdict, VERDICTS } from '../lib/verdict-parser';
+import { applyConfidenceThreshold, softmax } from '../lib/confidence';
+import { parseClaimList, summarizeClaims } from '../lib/claims';
+import { assignSpeaker, relabelCluster, SpeakerCluster } from '../lib/diarization';
+import { citeSources, knowledgeBase, KnowledgePassage, rankPassages, RankedPassage } from '../lib/knowledge-base';
+import { buildClaimExtractionPrompt, buildFactCheckPrompt, FactCheckPromptOptions, JSON_PREFILL, PROMPT_PRESETS, PROMPT_VERSION, templateRef } from '../lib/prompt-templates';
 
 // Skip local model check
 env.allowLocalModels = false;
 env.useBrowserCache = true;
 
-// Check for WebGPU support
-async function checkWebGPU() {
-  if (!(navigator as any).gpu) {
-    throw new Error('WebGPU is not supported in this browser.');
-  }
-  const adapter = await (navigator as any).gpu.requestAdapter();
-  if (!adapter) {
-    throw new Error('No appropriate GPU adapter found.');
+/**
+ * Picks the execution provider: WebGPU when an adapter is available,
+ * otherwise the WASM (CPU) backend so browsers without WebGPU still work.
+ */
+async function detectBackend(): Promise<InferenceBackend> {
+  const gpu = (navigator as any).gpu;
+  if (!gpu) return 'wasm';
+  try {
+    const adapter = await gpu.requestAdapter();
+    return adapter ? 'webgpu' : 'wasm';
+  } catch {
+    return 'wasm';
   }
 }
 
+/**
+ * Loads an x-vector speaker model as a callable mapping 16 kHz audio to
+ * one embedding, shaped like a pipeline so it can share the slot logic.
+ */
+async function loadSpeakerEmbedder(entry: ModelEntry, progress_callback?: (progress: any) => void) {
+  const [processor, model] = await Promise.all([
+    AutoProcessor.from_pretrained(entry.model, { progress_callback }),
+    WavLMForXVector.from_pretrained(entry.model, { device: entry.device, dtype: entry.dtype as any, progress_callback }),
+  ]);
+  const embedSpeaker = async (audio: Float32Array): Promise<number[]> => {
+    const inputs = await processor(audio);
+    const { embeddings } = await model(inputs);
+    return Array.from(embeddings.data as Float32Array);
+  };
+  return Object.assign(embedSpeaker, { dispose: () => model.dispose() });
+}
+
+interface PipelineSlot {
+  entry: ModelEntry | null;
+  instance: any;
+  promise: Promise<any> | null;
+}
+
 class InferencePipeline {
-  static sttInstance: any = null;
-  static llmInstance: any = null;
-  static sttPromise: Promise<any> | null = null;
-  static llmPromise: Promise<any> | null = null;
-
-  static async getSTT(progress_callback?: (progress: any) => void) {
-    if (this.sttInstance) return this.sttInstance;
-    if (this.sttPromise) return this.sttPromise;
-
-    this.sttPromise = pipeline('automatic-speech-recognition', 'onnx-community/whisper-tiny.en', {
-      device: 'webgpu',
-      dtype: 'fp32',
-      progress_callback,
-    }).then(instance => {
-      this.sttInstance = instance;
-      return instance;
-    });
+  static slots: Record<ModelKind, PipelineSlot> = {
+    stt: { entry: null, instance: null, promise: null },
+    llm: { entry: null, instance: null, promise: null },
+    embedding: { entry: null, instance: null, promise: null },
+    speaker: { entry: null, instance: null, promise: null },
+  };
+  static backendPromise: Promise<InferenceBackend> | null = null;
 
-    return this.sttPromise;
+  static getBackend() {
+    if (!this.backendPromise) this.backendPromise = detectBackend();
+    return this.backendPromise;
   }
 
-  static async getLLM(progress_callback?: (progress: any) => void) {
-    if (this.llmInstance) return this.llmInstance;
-    if (this.llmPromise) return this.llmPromise;
+  /**
+   * Returns the pipeline for `kind`, loading the requested registry entry.
+   * Without a `modelId` the currently loaded (or default) model is kept.
+   * Switching models disposes the previous pipeline first.
+   */
+  static async get(kind: ModelKind, modelId?: string, progress_callback?: (progress: any) => void) {
+    const backend = await this.getBackend();
+    const slot = this.slots[kind];
+    const entry = resolveModel(modelId ?? slot.entry?.id, kind, backend);
 
-    this.llmPromise = pipeline('text-generation', 'Xenova/Phi-3-mini-4k-instruct', {
-      device: 'webgpu',
-      dtype: 'q4', // 4-bit quantization for Phi-3
-      progress_callback,
-    }).then(instance => {
-      this.llmInstance = instance;
+    if (slot.entry?.id === entry.id && slot.promise) return slot.promise;
+
+    // Claim the slot synchronously so concurrent callers wait on the new model
+    // instead of racing the disposal of the old one.
+    const previous = slot.promise;
+    slot.entry = entry;
+    slot.instance = null;
+    const promise: Promise<any> = (async () => {
+      const old = await previous?.catch(() => null);
+      await old?.dispose?.();
+      if (entry.task === 'speaker-embedding') return loadSpeakerEmbedder(entry, progress_callback);
+      return pipeline(entry.task, entry.model, {
+        device: entry.device,
+        dtype: entry.dtype as any,
+        progress_callback,
+      });
+    })().then(instance => {
+      if (slot.promise === promise) slot.instance = instance;
       return instance;
+    }).catch(error => {
+      if (slot.promise === promise) {
+        slot.entry = null;
+        slot.promise = null;
+      }
+      throw error;
     });
+    slot.promise = promise;
+
+    return promise;
+  }
+
+  static getSTT(modelId?: string, progress_callback?: (progress: any) => void) {
+    return this.get('stt', modelId, progress_callback);
+  }
 
-    return this.llmPromise;
+  static getLLM(modelId?: string, progress_callback?: (progress: any) => void) {
+    return this.get('llm', modelId, progress_callback);
   }
 }
 
-// Priority Queue: Transcriptions take priority over Fact-checks
+// Priority Queue: Transcriptions first, then interim transcriptions (far cheaper than an LLM run), then fact-checks, then indexing.
+// Interim text arrives every second while someone speaks, so it must not starve the fact-checks.
 const transcriptionQueue: { data: any }[] = [];
+/** Only the newest interim transcription is worth running; older ones are replaced. */
+let pendingPartial: { data: any } | null = null;
 const factCheckQueue: { data: any }[] = [];
+const indexQueue: { data: any }[] = [];
+const EMBEDDING_BATCH_SIZE = 16;
+/** Knowledge-base passages, loaded on first retrieval and dropped when documents change. */
+let passageCache: KnowledgePassage[] | null = null;
 let isProcessing = false;
 const MAX_FACT_CHECK_QUEUE_SIZE = 10;
+const DIARIZATION_SPEAKERS = ['A', 'B'];
+/** Speakers heard so far in this debate; reset when the feed is cleared. */
+let speakerClusters: SpeakerCluster[] = [];
+/** Cluster of each diarized segment, so manual corrections can relabel it. */
+const segmentClusters = new Map<string, number>();
+const MAX_TRACKED_SEGMENTS = 500;
 
 /**
- * Validates and normalizes the fact-check response from the LLM.
- * This acts as a 'Logic Regression' safety net.
+ * Stopping criterion flipped by a `cancel` request so the running
+ * generation ends at the next token instead of running to completion.
  */
-function validateFactCheckResponse(response: string): string {
-  if (response.includes('[NOT_A_CLAIM]')) {
-    return 'NOT_A_CLAIM';
+class CancellationCriteria extends StoppingCriteria {
+  cancelled = false;
+
+  _call(input_ids: number[][]): boolean[] {
+    return new Array(input_ids.length).fill(this.cancelled);
   }
+}
 
-  // Ensure the response at least starts with [VERDICT] or looks like one
-  const hasVerdict = /\[VERDICT\]|\[True\]|\[False\]|\[Unverified\]|True:|False:|Unverified:/i.test(response);
-  
-  if (!hasVerdict && response.length > 0) {
-    // If it's generating text but hasn't emitted a verdict token, we let it continue
-    // but the main thread will handle partials.
-    return response;
+let currentFactCheck: { id: string; criteria: CancellationCriteria } | null = null;
+
+function removeQueuedFactChecks(id?: string) {
+  for (let i = factCheckQueue.length - 1; i >= 0; i--) {
+    if (id === undefined || factCheckQueue[i].data.id === id) factCheckQueue.splice(i, 1);
   }
+}
 
-  return response;
+/**
+ * Drops queued fact-checks for `id` (or all of them) and aborts the
+ * generation in flight if it belongs to a cancelled transcript.
+ */
+function cancelFactChecks(id?: string) {
+  removeQueuedFactChecks(id);
+  if (currentFactCheck && (id === undefined || currentFactCheck.id === id)) {
+    currentFactCheck.criteria.cancelled = true;
+  }
 }
 
 function postToMain(msg: WorkerResponse) {
   self.postMessage(msg);
 }
 
+/** STT models whose ONNX export has no cross-attentions to align words with. */
+const noWordTimestamps = new Set<string>();
+
+/**
+ * Transcribes an utterance with word timestamps, falling back to segment
+ * timestamps for models that cannot align individual words.
+ */
+async function transcribe(stt: any, audio: Float32Array, language?: string): Promise<{ text: string; chunks: TranscriptChunk[] }> {
+  const modelId = InferencePipeline.slots.stt.entry?.id ?? '';
+  const options = { chunk_length_s: 30, stride_length_s: 5, ...(language ? { language, task: 'transcribe' } : {}) };
+
+  let output: any = null;
+  if (!noWordTimestamps.has(modelId)) {
+    try {
+      output = await stt(audio, { ...options, return_timestamps: 'word' });
+    } catch (error) {
+      console.warn(`${modelId} cannot align words; using segment timestamps`, error);
+      noWordTimestamps.add(modelId);
+    }
+  }
+  output ??= await stt(audio, { ...options, return_timestamps: true });
+
+  // Whisper leaves the end of the last chunk open when the audio stops mid-word
+  const duration = audio.length / SAMPLE_RATE;
+  const chunks: TranscriptChunk[] = (output.chunks ?? [])
+    .map((c: any) => ({ text: c.text.trim(), start: c.timestamp?.[0] ?? 0, end: c.timestamp?.[1] ?? duration }))
+    .filter((c: TranscriptChunk) => c.text);
+
+  return { text: output.text, chunks };
+}
+
+/**
+ * Detects the spoken language from the first 30 seconds of audio by letting
+ * Whisper pick the token after `<|startoftranscript|>`, which is always a
+ * language token for multilingual models. transformers.js would otherwise
+ * assume English. Returns an ISO 639-1 code, or undefined if detection fails.
+ */
+async function detectLanguage(stt: any, audio: Float32Array): Promise<string | undefined> {
+  try {
+    const { lang_to_id, decoder_start_token_id } = stt.model.generation_config;
+    const { input_features } = await stt.processor(audio.subarray(0, 30 * SAMPLE_RATE));
+    const output = await stt.model.generate({
+      inputs: input_features,
+      decoder_input_ids: [decoder_start_token_id],
+      max_new_tokens: 1,
+    });
+    const tokenId = Number(output.tolist()[0].at(-1));
+    const token = Object.keys(lang_to_id).find(key => lang_to_id[key] === tokenId);
+    return token?.slice(2, -2);
+  } catch (error) {
+    console.warn('Language detection failed', error);
+    return undefined;
+  }
+}
+
+/**
+ * Transcribes speech with a multilingual model in its detected language and,
+ * in translate mode, adds an English translation of non-English speech.
+ */
+async function transcribeMultilingual(stt: any, audio: Float32Array, translate: boolean) {
+  const language = await detectLanguage(stt, audio);
+  const result = await transcribe(stt, audio, language);
+  if (!translate || !language || language === 'en') return { ...result, language };
+
+  const translation = await stt(audio, { chunk_length_s: 30, stride_length_s: 5, language, task: 'translate' });
+  return { ...result, language, translation: translation.text.trim() };
+}
+
+/**
+ * Splits a segment into atomic claims, reading the preceding turns so a
+ * segment that only refers back to them is not dismissed. Falls back to
+ * checking the whole segment as one claim when the model does not return
+ * a usable list.
+ */
+async function extractClaims(llm: any, text: string, format: PromptFormat, criteria: CancellationCriteria, context?: ConversationContext): Promise<string[]> {
+  const output = await llm(buildClaimExtractionPrompt(text, format, context), {
+    max_new_tokens: 160,
+    temperature: 0,
+    do_sample: false,
+    return_full_text: false,
+    stopping_criteria: criteria,
+  });
+
+  const claims = parseClaimList(output?.[0]?.generated_text ?? '');
+  if (claims === null) {
+    console.warn('Claim extraction returned no usable list; checking the whole segment');
+    return [text];
+  }
+  return claims;
+}
+
+/**
+ * First token of each verdict label after `{"verdict": "`, in `VERDICTS`
+ * order. Null when the tokenizer is unavailable or two labels share a
+ * first token, so they cannot be told apart from one step's logits.
+ */
+function verdictLabelIds(tokenizer: any): number[] | null {
+  if (typeof tokenizer?.encode !== 'function' || typeof tokenizer.decode !== 'function') return null;
+  const prefillLength = tokenizer.encode(JSON_PREFILL, { add_special_tokens: false }).length;
+  const labelIds: number[] = VERDICTS.map(v => tokenizer.encode(JSON_PREFILL + v, { add_special_tokens: false })[prefillLength]);
+  return labelIds.some(id => id === undefined) || new Set(labelIds).size !== labelIds.length ? null : labelIds;
+}
+
+/**
+ * Watches a verdict generation and, at the step where the label is about
+ * to be generated, keeps the probability of each label renormalised over
+ * the four. Reads the logits the generation computes anyway and passes
+ * them through unchanged.
+ */
+class VerdictLabelScorer extends LogitsProcessor {
+  /** In `VERDICTS` order; null if the generation never stopped right before the label. */
+  probabilities: number[] | null = null;
+  private settled = false;
+  private promptLength = -1;
+
+  constructor(private tokenizer: any, private labelIds: number[], private prefill: string) {
+    super();
+  }
+
+  _call(input_ids: bigint[][], logits: any) {
+    if (this.settled) return logits;
+    const ids = input_ids[0];
+    if (this.promptLength === -1) this.promptLength = ids.length;
+
+    try {
+      const output = this.prefill + this.tokenizer.decode(ids.slice(this.promptLength), { skip_special_tokens: true });
+      const label = /"verdict"\s*:\s*"(.?)/.exec(output);
+      if (!label) return logits;
+      // The label may have been generated together with its opening quote
+      if (label[1] === '') this.probabilities = softmax(this.labelIds.map(id => Number(logits.data[id])));
+    } catch (error) {
+      console.warn('Could not score the verdict label; keeping the self-reported confidence', error);
+    }
+    this.settled = true;
+    return logits;
+  }
+}
+
+/**
+ * Runs one generation and reports partial verdicts once the label is known.
+ * Returns the raw output, including any pre-filled prefix, and the label
+ * probabilities read from this generation when available.
+ */
+async function generateVerdict(
+  llm: any,
+  prompt: string,
+  prefill: string,
+  criteria: CancellationCriteria,
+  onPartial: (partial: FactCheck) => void
+): Promise<{ raw: string; labelProbabilities: number[] | null }> {
+  let fullResponse = prefill;
+  const streamer = new TextStreamer(llm.tokenizer, {
+    skip_prompt: true,
+    callback_function: (text: string) => {
+      if (criteria.cancelled) return;
+      fullResponse += text;
+      const partial = parsePartialVerdict(fullResponse);
+      if (!partial.verdict) return;
+
+      onPartial({ verdict: partial.verdict, explanation: partial.explanation ?? '', confidence: partial.confidence });
+    },
+  });
+  const labelIds = verdictLabelIds(llm.tokenizer);
+  const scorer = labelIds ? new VerdictLabelScorer(llm.tokenizer, labelIds, prefill) : null;
+
+  await llm(prompt, {
+    max_new_tokens: 192,
+    temperature: 0,
+    do_sample: false,
+    streamer,
+    stopping_criteria: criteria,
+    ...(scorer && { logits_processor: [scorer] }),
+  });
+
+  return { raw: fullResponse, labelProbabilities: scorer?.probabilities ?? null };
+}
+
+/**
+ * Judges a single claim, retrying once with a pre-filled prompt on malformed output.
+ * Returns null if the check was cancelled.
+ */
+async function checkClaim(
+  llm: any,
+  claim: string,
+  format: PromptFormat,
+  criteria: CancellationCriteria,
+  onPartial: (partial: FactCheck) => void,
+  prompt: Pick<FactCheckPromptOptions, 'template' | 'context'> = {}
+): Promise<FactCheck | null> {
+  const passages = await retrievePassages(claim);
+  let generation = await generateVerdict(llm, buildFactCheckPrompt(claim, format, { ...prompt, passages }), '', criteria, onPartial);
+  let result = parseVerdict(generation.raw, claim);
+
+  if (!result.ok && !criteria.cancelled) {
+    console.warn(`Malformed verdict, retrying: ${result.error}`);
+    generation = await generateVerdict(llm, buildFactCheckPrompt(claim, format, { ...prompt, passages, retry: true }), JSON_PREFILL, criteria, onPartial);
+    result = parseVerdict(generation.raw, claim);
+  }
+
+  if (criteria.cancelled) return null;
+  if (!result.ok) {
+    throw new Error(`Model returned an invalid verdict: ${result.error}`);
+  }
+
+  // The label's probability replaces the self-reported confidence when it could be read
+  let check = result.value;
+  if (generation.labelProbabilities) {
+    check = { ...check, confidence: generation.labelProbabilities[VERDICTS.indexOf(check.verdict)] };
+  }
+
+  const sources = citeSources(check.explanation, passages);
+  return sources.length > 0 ? { ...check, sources } : check;
+}
+
+/**
+ * Assigns the segment to a speaker by voice. Falls back to the speaker the
+ * main thread sent if the speaker model cannot be loaded or run.
+ */
+async function diarize(id: string, audio: Float32Array, fallback: string, speakers: string[] = DIARIZATION_SPEAKERS) {
+  try {
+    const embedSpeaker = await InferencePipeline.get('speaker');
+    const { clusters, index, confidence } = assignSpeaker(speakerClusters, await embedSpeaker(audio), speakers);
+    speakerClusters = clusters;
+    segmentClusters.set(id, index);
+    if (segmentClusters.size > MAX_TRACKED_SEGMENTS) {
+      segmentClusters.delete(segmentClusters.keys().next().value!);
+    }
+    return { speaker: clusters[index].speaker, speakerConfidence: confidence };
+  } catch (error) {
+    console.warn('Diarization failed; keeping the selected speaker', error);
+    return { speaker: fallback };
+  }
+}
+
+/**
+ * Mean-pooled, normalized sentence embeddings, one vector per input.
+ */
+async function embed(texts: string[]): Promise<Float32Array[]> {
+  const extractor = await InferencePipeline.get('embedding');
+  const output = await extractor(texts, { pooling: 'mean', normalize: true });
+  const [count, dim] = output.dims;
+  return Array.from({ length: count }, (_, i) => output.data.slice(i * dim, (i + 1) * dim));
+}
+
+/**
+ * Top passages from the knowledge base for a claim. The embedding model is
+ * only loaded once the user has imported documents. Returns no passages if
+ * the knowledge base or the embedding model fails, so the claim is still
+ * checked from the model's own knowledge.
+ */
+async function retrievePassages(claim: string): Promise<RankedPassage[]> {
+  try {
+    if (!passageCache) passageCache = await knowledgeBase.getAllPassages();
+    if (passageCache.length === 0) return [];
+
+    const [query] = await embed([claim]);
+    return rankPassages(query, passageCache);
+  } catch (error) {
+    console.warn('Passage retrieval failed; checking without the knowledge base', error);
+    return [];
+  }
+}
+
+async function indexDocument(data: NonNullable<WorkerRequest['data']>) {
+  const { document, passages = [] } = data;
+  if (!document) return;
+
+  const records: KnowledgePassage[] = [];
+  for (let i = 0; i < passages.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = passages.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embeddings = await embed(batch);
+    batch.forEach((text, j) => records.push({
+      id: `${document.id}:${i + j}`,
+      documentId: document.id,
+      title: document.title,
+      index: i + j,
+      text,
+      embedding: embeddings[j],
+    }));
+    postToMain({ status: 'kb-progress', id: document.id, progress: Math.round((records.length / passages.length) * 100) });
+  }
+
+  await knowledgeBase.addDocument({ ...document, createdAt: Date.now(), passageCount: records.length }, records);
+  passageCache = null;
+  postToMain({ status: 'kb-indexed', id: document.id });
+}
+
 async function processQueue() {
   if (isProcessing) return;
   
-  let type: 'transcribe' | 'fact-check' | null = null;
+  let type: 'transcribe' | 'transcribe-partial' | 'fact-check' | 'kb-index' | null = null;
   let item: any = null;
 
   if (transcriptionQueue.length > 0) {
     type = 'transcribe';
     item = transcriptionQueue.shift();
+  } else if (pendingPartial) {
+    type = 'transcribe-partial';
+    item = pendingPartial;
+    pendingPartial = null;
   } else if (factCheckQueue.length > 0) {
     type = 'fact-check';
     item = factCheckQueue.shift();
+  } else if (indexQueue.length > 0) {
+    type = 'kb-index';
+    item = indexQueue.shift();
   }
 
   if (!type || !item) {
@@ -113,83 +490,59 @@ async function processQueue() {
   try {
     if (type === 'transcribe') {
       const stt = await InferencePipeline.getSTT();
-      const output = await stt(data.audio, {
-        chunk_length_s: 30,
-        stride_length_s: 5,
-        return_timestamps: true,
-      });
-      postToMain({ status: 'transcription', text: output.text, id: data.id, speaker: data.speaker });
+      const result = InferencePipeline.slots.stt.entry?.multilingual
+        ? await transcribeMultilingual(stt, data.audio, !!data.translate)
+        : await transcribe(stt, data.audio);
+      const speaker = data.diarize ? await diarize(data.id, data.audio, data.speaker, data.speakers) : { speaker: data.speaker };
+      postToMain({ status: 'transcription', ...result, id: data.id, ...speaker });
+    } else if (type === 'transcribe-partial') {
+      const stt = await InferencePipeline.getSTT();
+      // Interim text is shown in the spoken language; only final segments are translated
+      const language = InferencePipeline.slots.stt.entry?.multilingual ? await detectLanguage(stt, data.audio) : undefined;
+      const output = await stt(data.audio, language ? { language, task: 'transcribe' } : {});
+      postToMain({ status: 'transcription-partial', text: output.text, id: data.id, speaker: data.speaker });
     } else if (type === 'fact-check') {
       const llm = await InferencePipeline.getLLM();
-      
-      const prompt = `<|system|>
-You are a real-time fact-checker. Analyze the text and determine if it contains a verifiable factual claim.
-- If it is NOT a factual claim (greeting, opinion, filler, command, question), response: [NOT_A_CLAIM]
-- If it IS a factual claim, response: [VERDICT] {True|False|Unverified}. {1-sentence explanation}
-
-STRICT RULES:
-1. Start ONLY with [NOT_A_CLAIM] or [VERDICT].
-2. Explanation must be concise.
-3. Don't hallucinate; if unsure, use Unverified.
-
-Examples:
-- "The capital of France is Paris." -> [VERDICT] True. Paris is the capital and largest city of France.
-- "What time is it?" -> [NOT_A_CLAIM]
-- "The Earth is flat." -> [VERDICT] False. The Earth is an oblate spheroid.
-
-Input text to analyze:
-"${data.text}"<|end|>
-<|user|>
-Check the claim: "${data.text}"<|end|>
-<|assistant|>`;
-
-      let fullResponse = '';
-      const streamer = new TextStreamer(llm.tokenizer, {
-        skip_prompt: true,
-        callback_function: (text: string) => {
-          fullResponse += text;
-          const validated = validateFactCheckResponse(fullResponse);
-          
-          if (validated === 'NOT_A_CLAIM') {
-            postToMain({ 
-              status: 'fact-check-stream', 
-              text: 'NOT_A_CLAIM', 
-              id: data.id,
-              isDone: true 
-            });
-            return;
-          }
-
-          postToMain({ 
-            status: 'fact-check-stream', 
-            text: validated, 
+      const format = InferencePipeline.slots.llm.entry?.promptFormat ?? 'phi3';
+      const criteria = new CancellationCriteria();
+      currentFactCheck = { id: data.id, criteria };
+
+      const claims = await extractClaims(llm, data.text, format, criteria, data.context);
+      const results: FactCheck[] = [];
+
+      for (const claim of claims) {
+        if (criteria.cancelled) break;
+
+        const span = locateClaim(claim, data.text) ?? { text: claim };
+        const result = await checkClaim(llm, claim, format, criteria, partial => {
+          postToMain({
+            status: 'fact-check-stream',
+            factCheck: summarizeClaims([...results, { ...partial, claim: span }]),
             id: data.id,
-            isDone: false 
+            isDone: false,
           });
-        },
-      });
+        }, { template: data.template, context: data.context });
+        if (result) results.push(applyConfidenceThreshold({ ...result, claim: span }, data.confidenceThreshold ?? 0));
+      }
 
-      await llm(prompt, {
-        max_new_tokens: 128,
-        temperature: 0,
-        do_sample: false,
-        streamer,
-      });
+      // The transcript was merged, deleted or cleared while we were generating
+      if (criteria.cancelled) return;
 
-      const finalValidated = validateFactCheckResponse(fullResponse);
-      if (finalValidated !== 'NOT_A_CLAIM') {
-        postToMain({ 
-          status: 'fact-check-stream', 
-          text: finalValidated, 
-          id: data.id, 
-          isDone: true 
-        });
-      }
+      const factCheck = {
+        ...summarizeClaims(results),
+        model: InferencePipeline.slots.llm.entry!.id,
+        promptVersion: PROMPT_VERSION,
+        template: templateRef(data.template ?? PROMPT_PRESETS[0]),
+      };
+      postToMain({ status: 'fact-check-stream', factCheck, id: data.id, isDone: true });
+    } else if (type === 'kb-index') {
+      await indexDocument(data);
     }
   } catch (error: any) {
     console.error(`Error in worker (${type}):`, error);
-    postToMain({ status: 'error', error: error.message, id: data.id, task: type || undefined });
+    postToMain({ status: 'error', error: error.message, id: data.id ?? data.document?.id, task: type || undefined });
   } finally {
+    currentFactCheck = null;
     isProcessing = false;
     setTimeout(processQueue, 0);
   }
@@ -199,28 +552,56 @@ self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
   const { type, data } = e.data;
 
   if (type === 'load') {
-    const reportProgress = (model: 'stt' | 'llm') => (progress: any) => {
-      if (progress.status === 'progress') {
-        postToMain({ status: 'progress', model, progress: progress.progress });
-      }
-    };
-
     try {
-      await checkWebGPU();
-      await InferencePipeline.getSTT(reportProgress('stt'));
-      await InferencePipeline.getLLM(reportProgress('llm'));
-      postToMain({ status: 'ready' });
+      const backend = await InferencePipeline.getBackend();
+      const reportProgress = (model: ModelKind) => (progress: any) => {
+        if (progress.status === 'progress') {
+          postToMain({ status: 'progress', model, progress: progress.progress, backend });
+        }
+      };
+
+      await InferencePipeline.getSTT(data?.models?.stt, reportProgress('stt'));
+      await InferencePipeline.getLLM(data?.models?.llm, reportProgress('llm'));
+      postToMain({
+        status: 'ready',
+        backend,
+        models: { stt: InferencePipeline.slots.stt.entry!.id, llm: InferencePipeline.slots.llm.entry!.id },
+      });
     } catch (error: any) {
       postToMain({ status: 'error', error: error.message });
     }
   } else if (type === 'transcribe' && data) {
+    // The final transcription supersedes any interim one for the same utterance
+    if (pendingPartial?.data.id === data.id) pendingPartial = null;
     transcriptionQueue.push({ data });
     processQueue();
+  } else if (type === 'transcribe-partial' && data) {
+    pendingPartial = { data };
+    processQueue();
   } else if (type === 'fact-check' && data) {
+    // A newer request for the same transcript supersedes the queued one
+    removeQueuedFactChecks(data.id);
     if (factCheckQueue.length >= MAX_FACT_CHECK_QUEUE_SIZE) {
-      factCheckQueue.shift();
+      const dropped = factCheckQueue.shift()!;
+      postToMain({ status: 'fact-check-dropped', id: dropped.data.id });
     }
     factCheckQueue.push({ data });
     processQueue();
+  } else if (type === 'cancel' && data?.id) {
+    cancelFactChecks(data.id);
+  } else if (type === 'cancel-all') {
+    cancelFactChecks();
+  } else if (type === 'kb-index' && data?.document) {
+    indexQueue.push({ data });
+    processQueue();
+  } else if (type === 'kb-refresh') {
+    passageCache = null;
+  } else if (type === 'diarize-override' && data?.id && data.speaker) {
+    // Later segments from this voice follow the moderator's correction
+    const index = segmentClusters.get(data.id);
+    if (index !== undefined) speakerClusters = relabelCluster(speakerClusters, index, data.speaker);
+  } else if (type === 'diarize-reset') {
+    speakerClusters = [];
+    segmentClusters.clear();
   }
-};
\ No newline at end of file
+};
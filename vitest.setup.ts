@@ -33,8 +33,8 @@ class MockURL {
 vi.stubGlobal('URL', MockURL);
 
 // Mock ResizeObserver
-vi.stubGlobal('ResizeObserver', vi.fn().mockImplementation(() => ({
-  observe: vi.fn(),
-  unobserve: vi.fn(),
-  disconnect: vi.fn(),
-})));
+vi.stubGlobal('ResizeObserver', class {
+  observe = vi.fn();
+  unobserve = vi.fn();
+  disconnect = vi.fn();
+});